@@ -0,0 +1,384 @@
+"use client"
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+
+type CouponType = 'CREDITS' | 'PERCENT_BONUS';
+
+interface Coupon {
+  id: string;
+  code: string;
+  type: CouponType;
+  value: number;
+  maxRedemptions: number | null;
+  perUserLimit: number;
+  redemptionCount: number;
+  expiresAt: string | null;
+  creditExpiryDays: number | null;
+  description: string | null;
+  isActive: boolean;
+  creditsPaidOut: number;
+  createdAt: string;
+}
+
+const COUPON_TYPES: { value: CouponType; label: string; hint: string }[] = [
+  { value: 'CREDITS', label: 'Free credits', hint: 'Adds the credits straight away. Redeemed on the buy credits page or at signup.' },
+  { value: 'PERCENT_BONUS', label: 'Purchase bonus', hint: 'Adds a percent of the purchased credits when the payment is approved.' }
+];
+
+const EMPTY_FORM = {
+  code: '',
+  type: 'CREDITS' as CouponType,
+  value: '',
+  maxRedemptions: '',
+  perUserLimit: '1',
+  expiresAt: '',
+  creditExpiryDays: '',
+  description: ''
+};
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export default function AdminCouponsPage() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, []);
+
+  const fetchCoupons = async () => {
+    try {
+      const response = await fetch('/api/admin/coupons');
+      if (response.ok) {
+        const data = await response.json();
+        setCoupons(data.coupons);
+      } else {
+        throw new Error('Failed to fetch coupons');
+      }
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      setMessage({ type: 'error', text: 'Failed to load coupons' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const response = await fetch(editingId ? `/api/admin/coupons/${editingId}` : '/api/admin/coupons', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...formData,
+          expiresAt: formData.expiresAt ? new Date(formData.expiresAt).toISOString() : null
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save coupon');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      resetForm();
+      fetchCoupons(); // Refresh the list
+    } catch (error) {
+      console.error('Error saving coupon:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save coupon' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingId(coupon.id);
+    setFormData({
+      code: coupon.code,
+      type: coupon.type,
+      value: String(coupon.value),
+      maxRedemptions: coupon.maxRedemptions === null ? '' : String(coupon.maxRedemptions),
+      perUserLimit: String(coupon.perUserLimit),
+      expiresAt: toLocalInput(coupon.expiresAt),
+      creditExpiryDays: coupon.creditExpiryDays === null ? '' : String(coupon.creditExpiryDays),
+      description: coupon.description || ''
+    });
+  };
+
+  const handleToggle = async (id: string, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/coupons/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !isActive }),
+      });
+
+      if (response.ok) {
+        fetchCoupons(); // Refresh the list
+      } else {
+        throw new Error('Failed to update coupon');
+      }
+    } catch (error) {
+      console.error('Error updating coupon:', error);
+      setMessage({ type: 'error', text: 'Failed to update coupon' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this coupon?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/coupons/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete coupon');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      if (editingId === id) resetForm();
+      fetchCoupons(); // Refresh the list
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete coupon' });
+    }
+  };
+
+  const describeValue = (coupon: Coupon) =>
+    coupon.type === 'CREDITS' ? `${coupon.value} free credits` : `${coupon.value}% bonus on purchases`;
+
+  const isExpired = (coupon: Coupon) => coupon.expiresAt !== null && new Date(coupon.expiresAt) <= new Date();
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading coupons...</div>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedType = COUPON_TYPES.find((type) => type.value === formData.type);
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Coupons</h1>
+        <p className="text-gray-600 mt-2">
+          Promo codes users redeem for credits. Every payout is recorded as a BONUS credit transaction.
+        </p>
+      </div>
+
+      {message && (
+        <Alert className={message.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}>
+          <AlertDescription className={message.type === 'error' ? 'text-red-800' : 'text-green-800'}>
+            {message.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Coupon Form */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Coupon' : 'New Coupon'}</CardTitle>
+            <CardDescription>{selectedType?.hint}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="code">Code</Label>
+                <Input
+                  id="code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  placeholder="e.g., SPRING10"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="type">Type</Label>
+                <select
+                  id="type"
+                  value={formData.type}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as CouponType })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {COUPON_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="value">{formData.type === 'CREDITS' ? 'Credits' : 'Bonus (%)'}</Label>
+                <Input
+                  id="value"
+                  type="number"
+                  min="1"
+                  max={formData.type === 'PERCENT_BONUS' ? 100 : undefined}
+                  value={formData.value}
+                  onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="maxRedemptions">Max Uses</Label>
+                  <Input
+                    id="maxRedemptions"
+                    type="number"
+                    min="1"
+                    value={formData.maxRedemptions}
+                    onChange={(e) => setFormData({ ...formData, maxRedemptions: e.target.value })}
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="perUserLimit">Uses per User</Label>
+                  <Input
+                    id="perUserLimit"
+                    type="number"
+                    min="1"
+                    value={formData.perUserLimit}
+                    onChange={(e) => setFormData({ ...formData, perUserLimit: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="expiresAt">Code Expires</Label>
+                <Input
+                  id="expiresAt"
+                  type="datetime-local"
+                  value={formData.expiresAt}
+                  onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="creditExpiryDays">Credits Expire After (days)</Label>
+                <Input
+                  id="creditExpiryDays"
+                  type="number"
+                  min="1"
+                  value={formData.creditExpiryDays}
+                  onChange={(e) => setFormData({ ...formData, creditExpiryDays: e.target.value })}
+                  placeholder="Never"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Optional note, e.g. the campaign"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving} className="flex-1">
+                  {saving ? 'Saving...' : editingId ? 'Update Coupon' : 'Create Coupon'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Coupon List */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>All Coupons</CardTitle>
+            <CardDescription>Uses include purchase bonuses still awaiting payment review</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {coupons.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No coupons yet</p>
+            ) : (
+              <div className="space-y-3">
+                {coupons.map((coupon) => (
+                  <div key={coupon.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-mono font-medium text-sm">{coupon.code}</span>
+                        <Badge variant="secondary" className="text-xs">{describeValue(coupon)}</Badge>
+                        {!coupon.isActive && <Badge variant="outline" className="text-xs">Inactive</Badge>}
+                        {isExpired(coupon) && <Badge variant="outline" className="text-xs">Expired</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {coupon.redemptionCount}{coupon.maxRedemptions !== null ? ` / ${coupon.maxRedemptions}` : ''} uses
+                        {' · '}{coupon.perUserLimit} per user
+                        {' · '}{coupon.creditsPaidOut} credits paid out
+                        {coupon.expiresAt ? ` · expires ${new Date(coupon.expiresAt).toLocaleString()}` : ''}
+                        {coupon.creditExpiryDays ? ` · credits last ${coupon.creditExpiryDays} days` : ''}
+                      </p>
+                      {coupon.description && (
+                        <p className="text-xs text-gray-400 mt-1">{coupon.description}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(coupon)}>
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleToggle(coupon.id, coupon.isActive)}>
+                        {coupon.isActive ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(coupon.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
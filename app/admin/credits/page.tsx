@@ -32,6 +32,16 @@ interface User {
   credits: number
 }
 
+interface BalanceDrift {
+  userId: string
+  email: string
+  balance: number
+  ledgerBalance: number
+  lotBalance: number
+  ledgerDrift: number
+  lotDrift: number
+}
+
 export default function CreditsPage() {
   const [transactions, setTransactions] = useState<CreditTransaction[]>([])
   const [users, setUsers] = useState<User[]>([])
@@ -41,6 +51,9 @@ export default function CreditsPage() {
   const [selectedUserId, setSelectedUserId] = useState("")
   const [creditAmount, setCreditAmount] = useState("")
   const [description, setDescription] = useState("")
+  const [expiresInDays, setExpiresInDays] = useState("")
+  const [drift, setDrift] = useState<BalanceDrift[] | null>(null)
+  const [checkingLedger, setCheckingLedger] = useState(false)
 
   useEffect(() => {
     fetchTransactions()
@@ -86,6 +99,7 @@ export default function CreditsPage() {
           userId: selectedUserId,
           amount: parseInt(creditAmount),
           description: description || "Admin credit adjustment",
+          expiresInDays: expiresInDays ? parseInt(expiresInDays) : undefined,
         }),
       })
 
@@ -96,22 +110,68 @@ export default function CreditsPage() {
         setSelectedUserId("")
         setCreditAmount("")
         setDescription("")
+        setExpiresInDays("")
       }
     } catch (error) {
       console.error("Failed to add credits:", error)
     }
   }
 
+  const handleCheckLedger = async () => {
+    setCheckingLedger(true)
+    try {
+      const response = await fetch("/api/admin/credits/reconcile")
+      if (response.ok) {
+        const data = await response.json()
+        setDrift(data.drift)
+      }
+    } catch (error) {
+      console.error("Failed to check ledger:", error)
+    } finally {
+      setCheckingLedger(false)
+    }
+  }
+
+  const handleRepairLedger = async () => {
+    if (!drift || drift.length === 0) return
+    if (!confirm(`Repair ${drift.length} balance(s)? Each user's ledger and credit lots will be adjusted to match their current balance.`)) return
+
+    setCheckingLedger(true)
+    try {
+      const response = await fetch("/api/admin/credits/reconcile", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userIds: drift.map((user) => user.userId) }),
+      })
+
+      if (response.ok) {
+        await fetchTransactions()
+        await handleCheckLedger()
+      }
+    } catch (error) {
+      console.error("Failed to repair ledger:", error)
+    } finally {
+      setCheckingLedger(false)
+    }
+  }
+
   const getTransactionTypeColor = (type: string) => {
     switch (type) {
       case "BONUS":
+      case "REFUND":
         return "default"
       case "PURCHASE":
         return "secondary"
       case "IMAGE_DESCRIPTION":
       case "BULK_DESCRIPTION":
+      case "CREDIT_HOLD":
+      case "CREDIT_EXPIRY":
         return "destructive"
       case "ADMIN_ADJUSTMENT":
+      case "CREDIT_RELEASE":
+      case "LEDGER_ADJUSTMENT":
         return "outline"
       default:
         return "secondary"
@@ -198,6 +258,20 @@ export default function CreditsPage() {
                   className="col-span-3"
                 />
               </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="expiresInDays" className="text-right">
+                  Expires In
+                </Label>
+                <Input
+                  id="expiresInDays"
+                  type="number"
+                  min="1"
+                  placeholder="Days (leave empty to never expire)"
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                  className="col-span-3"
+                />
+              </div>
             </div>
             <DialogFooter>
               <Button onClick={handleAddCredits}>Add Credits</Button>
@@ -206,6 +280,56 @@ export default function CreditsPage() {
         </Dialog>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger Check</CardTitle>
+          <CardDescription>
+            Compare every balance with its transaction history and credit lots
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCheckLedger} disabled={checkingLedger}>
+              {checkingLedger ? "Checking..." : "Check Ledger"}
+            </Button>
+            {drift && drift.length > 0 && (
+              <Button onClick={handleRepairLedger} disabled={checkingLedger}>
+                Repair {drift.length} Balance(s)
+              </Button>
+            )}
+          </div>
+          {drift && drift.length === 0 && (
+            <p className="text-sm text-muted-foreground">All balances match their ledger and credit lots.</p>
+          )}
+          {drift && drift.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Ledger</TableHead>
+                  <TableHead>Lots</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drift.map((user) => (
+                  <TableRow key={user.userId}>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>{user.balance}</TableCell>
+                    <TableCell className={user.ledgerDrift !== 0 ? "text-red-600" : undefined}>
+                      {user.ledgerBalance}
+                    </TableCell>
+                    <TableCell className={user.lotDrift !== 0 ? "text-red-600" : undefined}>
+                      {user.lotBalance}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Credit Transactions</CardTitle>
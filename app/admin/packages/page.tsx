@@ -0,0 +1,435 @@
+"use client"
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+
+interface CreditPackage {
+  id: string;
+  location: string;
+  credits: number;
+  price: number;
+  qrCode: string | null;
+  popular: boolean;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+interface CreditPriceTier {
+  id: string;
+  location: string;
+  minCredits: number;
+  unitPrice: number;
+  isActive: boolean;
+}
+
+type Kind = 'package' | 'tier';
+
+const EMPTY_PACKAGE_FORM = { credits: '', price: '', qrCode: '', popular: false, sortOrder: '0' };
+const EMPTY_TIER_FORM = { minCredits: '', unitPrice: '' };
+
+export default function AdminPackagesPage() {
+  const [packages, setPackages] = useState<CreditPackage[]>([]);
+  const [tiers, setTiers] = useState<CreditPriceTier[]>([]);
+  const [locations, setLocations] = useState<Record<string, { currency: string }>>({});
+  const [location, setLocation] = useState('pakistan');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [editing, setEditing] = useState<{ kind: Kind; id: string } | null>(null);
+  const [packageForm, setPackageForm] = useState(EMPTY_PACKAGE_FORM);
+  const [tierForm, setTierForm] = useState(EMPTY_TIER_FORM);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    try {
+      const response = await fetch('/api/admin/credit-catalog');
+      if (response.ok) {
+        const data = await response.json();
+        setPackages(data.packages);
+        setTiers(data.tiers);
+        setLocations(data.locations || {});
+      } else {
+        throw new Error('Failed to fetch credit catalog');
+      }
+    } catch (error) {
+      console.error('Error fetching credit catalog:', error);
+      setMessage({ type: 'error', text: 'Failed to load credit catalog' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForms = () => {
+    setEditing(null);
+    setPackageForm(EMPTY_PACKAGE_FORM);
+    setTierForm(EMPTY_TIER_FORM);
+  };
+
+  const save = async (kind: Kind, body: Record<string, unknown>) => {
+    setSaving(true);
+    try {
+      const isEdit = editing?.kind === kind;
+      const response = await fetch(
+        isEdit ? `/api/admin/credit-catalog/${editing.id}?kind=${kind}` : '/api/admin/credit-catalog',
+        {
+          method: isEdit ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...body, kind, location }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save catalog entry');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      resetForms();
+      fetchCatalog(); // Refresh the list
+    } catch (error) {
+      console.error('Error saving catalog entry:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save catalog entry' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePackageSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save('package', packageForm);
+  };
+
+  const handleTierSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save('tier', tierForm);
+  };
+
+  const handleToggle = async (kind: Kind, id: string, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/credit-catalog/${id}?kind=${kind}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !isActive }),
+      });
+
+      if (response.ok) {
+        fetchCatalog(); // Refresh the list
+      } else {
+        throw new Error('Failed to update catalog entry');
+      }
+    } catch (error) {
+      console.error('Error updating catalog entry:', error);
+      setMessage({ type: 'error', text: 'Failed to update catalog entry' });
+    }
+  };
+
+  const handleDelete = async (kind: Kind, id: string) => {
+    if (!confirm(`Are you sure you want to delete this ${kind === 'package' ? 'package' : 'price tier'}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/credit-catalog/${id}?kind=${kind}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: 'Catalog entry deleted successfully' });
+        if (editing?.id === id) resetForms();
+        fetchCatalog(); // Refresh the list
+      } else {
+        throw new Error('Failed to delete catalog entry');
+      }
+    } catch (error) {
+      console.error('Error deleting catalog entry:', error);
+      setMessage({ type: 'error', text: 'Failed to delete catalog entry' });
+    }
+  };
+
+  const currency = locations[location]?.currency || '';
+  const locationPackages = packages.filter((pkg) => pkg.location === location);
+  const locationTiers = tiers.filter((tier) => tier.location === location);
+  const baseUnitPrice = locationTiers.find((tier) => tier.isActive)?.unitPrice;
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading credit catalog...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Credit Packages</h1>
+          <p className="text-gray-600 mt-2">
+            What credits cost on the buy page. Payment submissions that do not match these prices are rejected.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="location">Location</Label>
+          <select
+            id="location"
+            value={location}
+            onChange={(e) => {
+              setLocation(e.target.value);
+              resetForms();
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(locations).map(([id, config]) => (
+              <option key={id} value={id}>{id} ({config.currency})</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {message && (
+        <Alert className={message.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}>
+          <AlertDescription className={message.type === 'error' ? 'text-red-800' : 'text-green-800'}>
+            {message.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Packages */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Packages</CardTitle>
+            <CardDescription>Fixed credit amounts at a fixed price</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form onSubmit={handlePackageSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="packageCredits">Credits</Label>
+                  <Input
+                    id="packageCredits"
+                    type="number"
+                    min="1"
+                    value={packageForm.credits}
+                    onChange={(e) => setPackageForm({ ...packageForm, credits: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="packagePrice">Price ({currency})</Label>
+                  <Input
+                    id="packagePrice"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={packageForm.price}
+                    onChange={(e) => setPackageForm({ ...packageForm, price: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="packageQrCode">QR Code File</Label>
+                  <Input
+                    id="packageQrCode"
+                    value={packageForm.qrCode}
+                    onChange={(e) => setPackageForm({ ...packageForm, qrCode: e.target.value })}
+                    placeholder="File name in public/qrcodes"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="packageSortOrder">Sort Order</Label>
+                  <Input
+                    id="packageSortOrder"
+                    type="number"
+                    value={packageForm.sortOrder}
+                    onChange={(e) => setPackageForm({ ...packageForm, sortOrder: e.target.value })}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={packageForm.popular}
+                  onChange={(e) => setPackageForm({ ...packageForm, popular: e.target.checked })}
+                />
+                Mark as popular
+              </label>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving} className="flex-1">
+                  {editing?.kind === 'package' ? 'Update Package' : 'Add Package'}
+                </Button>
+                {editing?.kind === 'package' && (
+                  <Button type="button" variant="outline" onClick={resetForms}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+
+            {locationPackages.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No packages for this location</p>
+            ) : (
+              <div className="space-y-3">
+                {locationPackages.map((pkg) => (
+                  <div key={pkg.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium text-sm">{pkg.credits} credits for {pkg.price} {currency}</span>
+                        {pkg.popular && <Badge variant="secondary" className="text-xs">Popular</Badge>}
+                        {!pkg.isActive && <Badge variant="outline" className="text-xs">Inactive</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {(pkg.price / pkg.credits).toFixed(3)} {currency} per credit
+                        {pkg.qrCode ? ` · ${pkg.qrCode}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditing({ kind: 'package', id: pkg.id });
+                          setPackageForm({
+                            credits: String(pkg.credits),
+                            price: String(pkg.price),
+                            qrCode: pkg.qrCode || '',
+                            popular: pkg.popular,
+                            sortOrder: String(pkg.sortOrder)
+                          });
+                        }}
+                      >
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleToggle('package', pkg.id, pkg.isActive)}>
+                        {pkg.isActive ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete('package', pkg.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Volume Tiers */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Custom Amount Tiers</CardTitle>
+            <CardDescription>
+              Per-credit rate for custom amounts. The lowest tier sets the minimum purchase; higher tiers are volume discounts.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form onSubmit={handleTierSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="tierMinCredits">From (credits)</Label>
+                  <Input
+                    id="tierMinCredits"
+                    type="number"
+                    min="1"
+                    value={tierForm.minCredits}
+                    onChange={(e) => setTierForm({ ...tierForm, minCredits: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="tierUnitPrice">Price per Credit ({currency})</Label>
+                  <Input
+                    id="tierUnitPrice"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={tierForm.unitPrice}
+                    onChange={(e) => setTierForm({ ...tierForm, unitPrice: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving} className="flex-1">
+                  {editing?.kind === 'tier' ? 'Update Tier' : 'Add Tier'}
+                </Button>
+                {editing?.kind === 'tier' && (
+                  <Button type="button" variant="outline" onClick={resetForms}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+
+            {locationTiers.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No tiers, so custom amounts are not offered</p>
+            ) : (
+              <div className="space-y-3">
+                {locationTiers.map((tier) => (
+                  <div key={tier.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium text-sm">{tier.minCredits}+ credits</span>
+                        {!tier.isActive && <Badge variant="outline" className="text-xs">Inactive</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {tier.unitPrice} {currency} per credit
+                        {baseUnitPrice && tier.isActive && tier.unitPrice < baseUnitPrice
+                          ? ` · ${Math.round((1 - tier.unitPrice / baseUnitPrice) * 100)}% off`
+                          : ''}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditing({ kind: 'tier', id: tier.id });
+                          setTierForm({ minCredits: String(tier.minCredits), unitPrice: String(tier.unitPrice) });
+                        }}
+                      >
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleToggle('tier', tier.id, tier.isActive)}>
+                        {tier.isActive ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete('tier', tier.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -5,10 +5,37 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import Image from 'next/image';
 import { Button } from '@/components/ui/Button';
+import StatementImportPanel from '@/components/ui/StatementImportPanel';
+
+interface PaymentRiskFlag {
+  reason: 'TRANSACTION_ID_REUSED' | 'SIMILAR_SCREENSHOT';
+  requestId: string;
+  userId: string;
+  distance?: number;
+}
+
+type PaymentStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'PARTIALLY_APPROVED'
+  | 'REJECTED'
+  | 'CANCELLED'
+  | 'NEEDS_INFO'
+  | 'RESUBMITTED';
+
+interface PaymentRequestEvent {
+  id: string;
+  fromStatus: PaymentStatus | 'DRAFT' | null;
+  toStatus: PaymentStatus;
+  note: string | null;
+  createdAt: string;
+  actor: { name: string | null; email: string; role: 'USER' | 'ADMIN' } | null;
+}
 
 interface PaymentRequest {
   id: string;
@@ -23,8 +50,20 @@ interface PaymentRequest {
   transactionId: string | null;
   qrCodeUsed: string | null;
   screenshotUrl: string | null;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  status: PaymentStatus;
   adminNotes: string | null;
+  creditsGranted: number | null;
+  adjustmentReason: string | null;
+  couponRedemption: {
+    credits: number;
+    status: 'PENDING' | 'REDEEMED' | 'VOID';
+    coupon: { code: string };
+  } | null;
+  subscription: {
+    plan: { name: string };
+  } | null;
+  riskFlags: PaymentRiskFlag[] | null;
+  events: PaymentRequestEvent[];
   createdAt: string;
   updatedAt: string;
 }
@@ -36,7 +75,10 @@ export default function AdminPaymentsPage() {
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [selectedRequest, setSelectedRequest] = useState<PaymentRequest | null>(null);
   const [adminNotes, setAdminNotes] = useState('');
-  const [filter, setFilter] = useState<'ALL' | 'PENDING' | 'APPROVED' | 'REJECTED'>('ALL');
+  const [partialCredits, setPartialCredits] = useState('');
+  const [partialReason, setPartialReason] = useState('');
+  const [filter, setFilter] = useState<'ALL' | PaymentStatus>('ALL');
+  const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
 
   useEffect(() => {
     fetchPaymentRequests();
@@ -61,7 +103,17 @@ export default function AdminPaymentsPage() {
     }
   };
 
-  const handleProcessPayment = async (requestId: string, action: 'APPROVED' | 'REJECTED') => {
+  const closeReview = () => {
+    setSelectedRequest(null);
+    setAdminNotes('');
+    setPartialCredits('');
+    setPartialReason('');
+  };
+
+  const handleProcessPayment = async (
+    requestId: string,
+    action: 'APPROVED' | 'PARTIALLY_APPROVED' | 'REJECTED' | 'NEEDS_INFO'
+  ) => {
     try {
       setProcessingId(requestId);
       setError('');
@@ -75,6 +127,9 @@ export default function AdminPaymentsPage() {
           requestId,
           action,
           adminNotes: adminNotes.trim() || undefined,
+          ...(action === 'PARTIALLY_APPROVED'
+            ? { creditsGranted: Number(partialCredits), reason: partialReason.trim() }
+            : {}),
         }),
       });
 
@@ -86,8 +141,7 @@ export default function AdminPaymentsPage() {
 
       // Refresh the list
       await fetchPaymentRequests();
-      setSelectedRequest(null);
-      setAdminNotes('');
+      closeReview();
       
     } catch (error) {
       console.error('Error processing payment:', error);
@@ -103,13 +157,41 @@ export default function AdminPaymentsPage() {
         return 'bg-yellow-100 text-yellow-800';
       case 'APPROVED':
         return 'bg-green-100 text-green-800';
+      case 'PARTIALLY_APPROVED':
+        return 'bg-orange-100 text-orange-800';
       case 'REJECTED':
         return 'bg-red-100 text-red-800';
+      case 'NEEDS_INFO':
+        return 'bg-purple-100 text-purple-800';
+      case 'RESUBMITTED':
+        return 'bg-blue-100 text-blue-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
+  const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+  const describeEvent = (event: PaymentRequestEvent) => {
+    const actor = event.actor ? event.actor.name || event.actor.email : 'System';
+    return event.fromStatus && event.fromStatus !== 'DRAFT'
+      ? `${actor}: ${formatStatus(event.fromStatus)} → ${formatStatus(event.toStatus)}`
+      : `${actor}: submitted`;
+  };
+
+  const describeRiskFlag = (flag: PaymentRiskFlag, request: PaymentRequest) => {
+    const sameUser = flag.userId === request.user.id ? 'same user' : 'another user';
+    return flag.reason === 'TRANSACTION_ID_REUSED'
+      ? `Transaction ID used on a rejected or cancelled request (${sameUser})`
+      : `Screenshot matches an earlier request (${sameUser}, ${flag.distance} bit(s) apart)`;
+  };
+
+  // Show the matching request even when the current filter hides it
+  const showRequest = (requestId: string) => {
+    setFilter('ALL');
+    setTimeout(() => document.getElementById(`payment-${requestId}`)?.scrollIntoView({ behavior: 'smooth' }), 0);
+  };
+
   const filteredRequests = paymentRequests.filter(request => {
     if (filter === 'ALL') return true;
     return request.status === filter;
@@ -138,9 +220,20 @@ export default function AdminPaymentsPage() {
         </Alert>
       )}
 
+      <StatementImportPanel onApproved={fetchPaymentRequests} />
+
       {/* Filter Tabs */}
-      <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg w-fit">
-        {(['ALL', 'PENDING', 'APPROVED', 'REJECTED'] as const).map((status) => (
+      <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg w-fit">
+        {([
+          'ALL',
+          'PENDING',
+          'RESUBMITTED',
+          'NEEDS_INFO',
+          'APPROVED',
+          'PARTIALLY_APPROVED',
+          'REJECTED',
+          'CANCELLED'
+        ] as const).map((status) => (
           <button
             key={status}
             onClick={() => setFilter(status)}
@@ -150,7 +243,7 @@ export default function AdminPaymentsPage() {
                 : 'text-gray-600 hover:text-gray-900'
             }`}
           >
-            {status}
+            {status === 'PARTIALLY_APPROVED' ? 'PARTIAL' : formatStatus(status)}
           </button>
         ))}
       </div>
@@ -165,7 +258,7 @@ export default function AdminPaymentsPage() {
           </Card>
         ) : (
           filteredRequests.map((request) => (
-            <Card key={request.id} className="overflow-hidden">
+            <Card key={request.id} id={`payment-${request.id}`} className="overflow-hidden">
               <CardHeader>
                 <div className="flex justify-between items-start">
                   <div>
@@ -176,9 +269,16 @@ export default function AdminPaymentsPage() {
                       {request.user.email}
                     </p>
                   </div>
-                  <Badge className={getStatusBadgeVariant(request.status)}>
-                    {request.status}
-                  </Badge>
+                  <div className="flex gap-2">
+                    {request.riskFlags && request.riskFlags.length > 0 && (
+                      <Badge className="bg-red-600 text-white">
+                        Risk: {request.riskFlags.length} match{request.riskFlags.length === 1 ? '' : 'es'}
+                      </Badge>
+                    )}
+                    <Badge className={getStatusBadgeVariant(request.status)}>
+                      {formatStatus(request.status)}
+                    </Badge>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -188,7 +288,18 @@ export default function AdminPaymentsPage() {
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
                         <span className="font-medium text-gray-700">Credits:</span>
-                        <p className="text-gray-900">{request.creditsRequested}</p>
+                        <p className="text-gray-900">
+                          {request.creditsRequested}
+                          {request.couponRedemption && request.couponRedemption.status !== 'VOID' && (
+                            <span className="text-green-700"> + {request.couponRedemption.credits} bonus ({request.couponRedemption.coupon.code})</span>
+                          )}
+                          {request.subscription && (
+                            <span className="text-blue-700"> ({request.subscription.plan.name} plan, one month)</span>
+                          )}
+                        </p>
+                        {request.status === 'PARTIALLY_APPROVED' && (
+                          <p className="text-orange-700">{request.creditsGranted} granted</p>
+                        )}
                       </div>
                       <div>
                         <span className="font-medium text-gray-700">Amount:</span>
@@ -222,6 +333,38 @@ export default function AdminPaymentsPage() {
                       )}
                     </div>
 
+                    {request.riskFlags && request.riskFlags.length > 0 && (
+                      <div className="border border-red-200 bg-red-50 rounded p-3">
+                        <span className="font-medium text-red-800">Possible duplicate of earlier submissions:</span>
+                        <ul className="mt-1 space-y-1 text-sm">
+                          {request.riskFlags.map((flag) => (
+                            <li key={`${flag.reason}-${flag.requestId}`} className="text-red-800">
+                              {describeRiskFlag(flag, request)}:{' '}
+                              <a
+                                href={`#payment-${flag.requestId}`}
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  showRequest(flag.requestId);
+                                }}
+                                className="font-mono text-xs underline"
+                              >
+                                #{flag.requestId.slice(-8)}
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {request.adjustmentReason && (
+                      <div>
+                        <span className="font-medium text-gray-700">Adjustment Reason:</span>
+                        <p className="text-gray-900 mt-1 text-sm bg-orange-50 p-2 rounded">
+                          {request.adjustmentReason}
+                        </p>
+                      </div>
+                    )}
+
                     {request.adminNotes && (
                       <div>
                         <span className="font-medium text-gray-700">Admin Notes:</span>
@@ -231,7 +374,32 @@ export default function AdminPaymentsPage() {
                       </div>
                     )}
 
-                    {request.status === 'PENDING' && (
+                    {request.events.length > 0 && (
+                      <div className="text-sm">
+                        <button
+                          type="button"
+                          className="text-blue-600 hover:underline"
+                          onClick={() => setExpandedHistory(expandedHistory === request.id ? null : request.id)}
+                        >
+                          {expandedHistory === request.id ? 'Hide history' : `Show history (${request.events.length})`}
+                        </button>
+                        {expandedHistory === request.id && (
+                          <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3">
+                            {request.events.map((event) => (
+                              <li key={event.id}>
+                                <p className="text-gray-900">
+                                  <span className="font-medium">{describeEvent(event)}</span>
+                                  <span className="text-gray-500"> • {new Date(event.createdAt).toLocaleString()}</span>
+                                </p>
+                                {event.note && <p className="text-gray-700 whitespace-pre-wrap">{event.note}</p>}
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                      </div>
+                    )}
+
+                    {(request.status === 'PENDING' || request.status === 'RESUBMITTED') && (
                       <div className="flex space-x-2">
                         <Button
                           onClick={() => setSelectedRequest(request)}
@@ -287,6 +455,16 @@ export default function AdminPaymentsPage() {
                 <p className="text-sm text-gray-600">
                   <strong>Credits:</strong> {selectedRequest.creditsRequested}
                 </p>
+                {selectedRequest.subscription && (
+                  <p className="text-sm text-gray-600">
+                    <strong>Plan:</strong> one month of {selectedRequest.subscription.plan.name}; approving starts or renews the subscription
+                  </p>
+                )}
+                {selectedRequest.couponRedemption && (
+                  <p className="text-sm text-gray-600">
+                    <strong>Promo code:</strong> {selectedRequest.couponRedemption.coupon.code} adds {selectedRequest.couponRedemption.credits} bonus credits on approval
+                  </p>
+                )}
                 <p className="text-sm text-gray-600">
                   <strong>Amount:</strong> ₨{selectedRequest.amount}
                 </p>
@@ -303,10 +481,15 @@ export default function AdminPaymentsPage() {
                     <strong>QR Code:</strong> {selectedRequest.qrCodeUsed}
                   </p>
                 )}
+                {selectedRequest.riskFlags && selectedRequest.riskFlags.length > 0 && (
+                  <p className="text-sm text-red-700">
+                    <strong>Risk:</strong> matches {selectedRequest.riskFlags.length} earlier submission(s); check them before approving
+                  </p>
+                )}
               </div>
 
               <div>
-                <Label htmlFor="adminNotes">Admin Notes (Optional)</Label>
+                <Label htmlFor="adminNotes">Admin Notes (Optional; required to ask for more information)</Label>
                 <Textarea
                   id="adminNotes"
                   value={adminNotes}
@@ -317,6 +500,45 @@ export default function AdminPaymentsPage() {
                 />
               </div>
 
+              {!selectedRequest.subscription && selectedRequest.creditsRequested > 1 && (
+                <div className="space-y-2 border-t pt-4">
+                  <p className="text-sm text-gray-600">
+                    Paid less than the price? Grant fewer credits instead of rejecting the request.
+                  </p>
+                  <div>
+                    <Label htmlFor="partialCredits">Credits to Grant</Label>
+                    <Input
+                      id="partialCredits"
+                      type="number"
+                      min="1"
+                      max={selectedRequest.creditsRequested - 1}
+                      value={partialCredits}
+                      onChange={(e) => setPartialCredits(e.target.value)}
+                      placeholder={`1 to ${selectedRequest.creditsRequested - 1}`}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="partialReason">Reason (shown to the user)</Label>
+                    <Input
+                      id="partialReason"
+                      value={partialReason}
+                      onChange={(e) => setPartialReason(e.target.value)}
+                      placeholder="e.g. Received ₨500 of ₨1000"
+                      className="mt-1"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => handleProcessPayment(selectedRequest.id, 'PARTIALLY_APPROVED')}
+                    disabled={processingId === selectedRequest.id || !partialCredits || !partialReason.trim()}
+                    variant="outline"
+                    className="w-full border-orange-300 text-orange-700 hover:bg-orange-50"
+                  >
+                    {processingId === selectedRequest.id ? 'Processing...' : 'Approve Partially'}
+                  </Button>
+                </div>
+              )}
+
               <div className="flex space-x-2">
                 <Button
                   onClick={() => handleProcessPayment(selectedRequest.id, 'APPROVED')}
@@ -336,10 +558,16 @@ export default function AdminPaymentsPage() {
               </div>
 
               <Button
-                onClick={() => {
-                  setSelectedRequest(null);
-                  setAdminNotes('');
-                }}
+                onClick={() => handleProcessPayment(selectedRequest.id, 'NEEDS_INFO')}
+                disabled={processingId === selectedRequest.id || !adminNotes.trim()}
+                variant="outline"
+                className="w-full border-purple-300 text-purple-700 hover:bg-purple-50"
+              >
+                {processingId === selectedRequest.id ? 'Processing...' : 'Ask User for More Information'}
+              </Button>
+
+              <Button
+                onClick={closeReview}
                 variant="outline"
                 className="w-full"
                 disabled={processingId === selectedRequest.id}
@@ -0,0 +1,379 @@
+"use client"
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+
+interface SubscriptionPlan {
+  id: string;
+  name: string;
+  description: string | null;
+  location: string;
+  price: number;
+  monthlyCredits: number;
+  rolloverPercent: number;
+  maxRolloverCredits: number | null;
+  qrCode: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  subscribers: Partial<Record<'PENDING' | 'ACTIVE' | 'PAST_DUE' | 'CANCELLED', number>>;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  price: '',
+  monthlyCredits: '',
+  rolloverPercent: '0',
+  maxRolloverCredits: '',
+  qrCode: '',
+  sortOrder: '0'
+};
+
+export default function AdminPlansPage() {
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [locations, setLocations] = useState<Record<string, { currency: string }>>({});
+  const [location, setLocation] = useState('pakistan');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
+  const fetchPlans = async () => {
+    try {
+      const response = await fetch('/api/admin/subscription-plans');
+      if (response.ok) {
+        const data = await response.json();
+        setPlans(data.plans);
+        setLocations(data.locations || {});
+      } else {
+        throw new Error('Failed to fetch plans');
+      }
+    } catch (error) {
+      console.error('Error fetching plans:', error);
+      setMessage({ type: 'error', text: 'Failed to load plans' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const response = await fetch(
+        editingId ? `/api/admin/subscription-plans/${editingId}` : '/api/admin/subscription-plans',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...form, location }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save plan');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      resetForm();
+      fetchPlans(); // Refresh the list
+    } catch (error) {
+      console.error('Error saving plan:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save plan' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (id: string, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/subscription-plans/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !isActive }),
+      });
+
+      if (response.ok) {
+        fetchPlans(); // Refresh the list
+      } else {
+        throw new Error('Failed to update plan');
+      }
+    } catch (error) {
+      console.error('Error updating plan:', error);
+      setMessage({ type: 'error', text: 'Failed to update plan' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this plan?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/subscription-plans/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete plan');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      if (editingId === id) resetForm();
+      fetchPlans(); // Refresh the list
+    } catch (error) {
+      console.error('Error deleting plan:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete plan' });
+    }
+  };
+
+  const currency = locations[location]?.currency || '';
+  const locationPlans = plans.filter((plan) => plan.location === location);
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading plans...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Subscription Plans</h1>
+          <p className="text-gray-600 mt-2">
+            Monthly credit allowances. Each month is paid through a payment request; approving it starts or renews the plan.
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="location">Location</Label>
+          <select
+            id="location"
+            value={location}
+            onChange={(e) => {
+              setLocation(e.target.value);
+              resetForm();
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.entries(locations).map(([id, config]) => (
+              <option key={id} value={id}>{id} ({config.currency})</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {message && (
+        <Alert className={message.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}>
+          <AlertDescription className={message.type === 'error' ? 'text-red-800' : 'text-green-800'}>
+            {message.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Plan Form */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Plan' : 'Add Plan'}</CardTitle>
+            <CardDescription>Changes to the allowance and rollover apply to subscribers from their next month</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Team"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="monthlyCredits">Credits per Month</Label>
+                  <Input
+                    id="monthlyCredits"
+                    type="number"
+                    min="1"
+                    value={form.monthlyCredits}
+                    onChange={(e) => setForm({ ...form, monthlyCredits: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="price">Price per Month ({currency})</Label>
+                  <Input
+                    id="price"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.price}
+                    onChange={(e) => setForm({ ...form, price: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="rolloverPercent">Rollover (%)</Label>
+                  <Input
+                    id="rolloverPercent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={form.rolloverPercent}
+                    onChange={(e) => setForm({ ...form, rolloverPercent: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="maxRolloverCredits">Rollover Cap (credits)</Label>
+                  <Input
+                    id="maxRolloverCredits"
+                    type="number"
+                    min="0"
+                    value={form.maxRolloverCredits}
+                    onChange={(e) => setForm({ ...form, maxRolloverCredits: e.target.value })}
+                    placeholder="No cap"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="qrCode">QR Code File</Label>
+                  <Input
+                    id="qrCode"
+                    value={form.qrCode}
+                    onChange={(e) => setForm({ ...form, qrCode: e.target.value })}
+                    placeholder="File name in public/qrcodes"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="sortOrder">Sort Order</Label>
+                  <Input
+                    id="sortOrder"
+                    type="number"
+                    value={form.sortOrder}
+                    onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="description">Description</Label>
+                <Input
+                  id="description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Shown on the plan page"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving} className="flex-1">
+                  {editingId ? 'Update Plan' : 'Add Plan'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Plans List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Plans</CardTitle>
+            <CardDescription>Plans with subscribers can be disabled but not deleted</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {locationPlans.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No plans for this location</p>
+            ) : (
+              <div className="space-y-3">
+                {locationPlans.map((plan) => (
+                  <div key={plan.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium text-sm">{plan.name}</span>
+                        {!plan.isActive && <Badge variant="outline" className="text-xs">Inactive</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {plan.monthlyCredits} credits for {plan.price} {currency} a month
+                        {plan.rolloverPercent > 0
+                          ? ` · ${plan.rolloverPercent}% rollover${plan.maxRolloverCredits !== null ? ` up to ${plan.maxRolloverCredits}` : ''}`
+                          : ' · no rollover'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {plan.subscribers.ACTIVE ?? 0} active · {plan.subscribers.PENDING ?? 0} pending · {plan.subscribers.PAST_DUE ?? 0} past due
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditingId(plan.id);
+                          setForm({
+                            name: plan.name,
+                            description: plan.description || '',
+                            price: String(plan.price),
+                            monthlyCredits: String(plan.monthlyCredits),
+                            rolloverPercent: String(plan.rolloverPercent),
+                            maxRolloverCredits: plan.maxRolloverCredits === null ? '' : String(plan.maxRolloverCredits),
+                            qrCode: plan.qrCode || '',
+                            sortOrder: String(plan.sortOrder)
+                          });
+                        }}
+                      >
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleToggle(plan.id, plan.isActive)}>
+                        {plan.isActive ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(plan.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
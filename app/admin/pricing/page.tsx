@@ -0,0 +1,427 @@
+"use client"
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+
+type PricingRuleType = 'BASE' | 'PROVIDER' | 'OUTPUT_OPTION' | 'FILE_SIZE';
+
+interface PricingRule {
+  id: string;
+  type: PricingRuleType;
+  match: string | null;
+  minFileSize: number | null;
+  maxFileSize: number | null;
+  credits: number;
+  description: string | null;
+  isActive: boolean;
+  updatedAt: string;
+}
+
+interface ProviderOption {
+  id: string;
+  name: string;
+  supportedOutputs: string[];
+}
+
+const RULE_TYPES: { value: PricingRuleType; label: string; hint: string }[] = [
+  { value: 'BASE', label: 'Base price', hint: 'Charged for every image. Only the oldest active base rule applies.' },
+  { value: 'PROVIDER', label: 'Provider', hint: 'Added when the image is described by this provider.' },
+  { value: 'OUTPUT_OPTION', label: 'Output option', hint: 'Added per requested output the provider supports.' },
+  { value: 'FILE_SIZE', label: 'File size tier', hint: 'Added when the file size falls in the range; the narrowest match wins.' }
+];
+
+const EMPTY_FORM = {
+  type: 'BASE' as PricingRuleType,
+  match: '',
+  minFileSizeKb: '',
+  maxFileSizeKb: '',
+  credits: '1',
+  description: ''
+};
+
+const kbToBytes = (value: string) => (value.trim() === '' ? null : Math.round(parseFloat(value) * 1024));
+const bytesToKb = (value: number | null) => (value === null ? '' : String(+(value / 1024).toFixed(2)));
+
+export default function AdminPricingPage() {
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [outputOptions, setOutputOptions] = useState<string[]>([]);
+  const [defaultBaseCredits, setDefaultBaseCredits] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/admin/pricing');
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules);
+        setProviders(data.providers || []);
+        setOutputOptions(data.outputOptions || []);
+        setDefaultBaseCredits(data.defaultBaseCredits ?? 1);
+      } else {
+        throw new Error('Failed to fetch pricing rules');
+      }
+    } catch (error) {
+      console.error('Error fetching pricing rules:', error);
+      setMessage({ type: 'error', text: 'Failed to load pricing rules' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/admin/pricing/${editingId}` : '/api/admin/pricing', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          type: formData.type,
+          match: formData.match,
+          minFileSize: kbToBytes(formData.minFileSizeKb),
+          maxFileSize: kbToBytes(formData.maxFileSizeKb),
+          credits: formData.credits,
+          description: formData.description
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save pricing rule');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      resetForm();
+      fetchRules(); // Refresh the list
+    } catch (error) {
+      console.error('Error saving pricing rule:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save pricing rule' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: PricingRule) => {
+    try {
+      const response = await fetch(`/api/admin/pricing/${rule.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !rule.isActive }),
+      });
+
+      if (response.ok) {
+        fetchRules(); // Refresh the list
+      } else {
+        throw new Error('Failed to update pricing rule');
+      }
+    } catch (error) {
+      console.error('Error updating pricing rule:', error);
+      setMessage({ type: 'error', text: 'Failed to update pricing rule' });
+    }
+  };
+
+  const handleDelete = async (rule: PricingRule) => {
+    if (!confirm('Are you sure you want to delete this pricing rule?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/pricing/${rule.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: 'Pricing rule deleted successfully' });
+        if (editingId === rule.id) resetForm();
+        fetchRules(); // Refresh the list
+      } else {
+        throw new Error('Failed to delete pricing rule');
+      }
+    } catch (error) {
+      console.error('Error deleting pricing rule:', error);
+      setMessage({ type: 'error', text: 'Failed to delete pricing rule' });
+    }
+  };
+
+  const handleEdit = (rule: PricingRule) => {
+    setEditingId(rule.id);
+    setFormData({
+      type: rule.type,
+      match: rule.match || '',
+      minFileSizeKb: bytesToKb(rule.minFileSize),
+      maxFileSizeKb: bytesToKb(rule.maxFileSize),
+      credits: String(rule.credits),
+      description: rule.description || ''
+    });
+  };
+
+  const describeCondition = (rule: PricingRule) => {
+    switch (rule.type) {
+      case 'BASE':
+        return 'Every image';
+      case 'PROVIDER':
+        return `Provider: ${providers.find((provider) => provider.id === rule.match)?.name || rule.match}`;
+      case 'OUTPUT_OPTION':
+        return `Output: ${rule.match}`;
+      case 'FILE_SIZE':
+        return rule.maxFileSize === null
+          ? `${bytesToKb(rule.minFileSize) || '0'} KB and larger`
+          : `${bytesToKb(rule.minFileSize) || '0'} KB to ${bytesToKb(rule.maxFileSize)} KB`;
+    }
+  };
+
+  const typeHint = RULE_TYPES.find((type) => type.value === formData.type)?.hint;
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading pricing rules...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Pricing Rules</h1>
+        <p className="text-gray-600 mt-2">
+          Set how many credits an image costs. Matching rules are added together; without an active base rule
+          every image starts at {defaultBaseCredits} credit{defaultBaseCredits !== 1 ? 's' : ''}.
+        </p>
+      </div>
+
+      {message && (
+        <Alert className={message.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}>
+          <AlertDescription className={message.type === 'error' ? 'text-red-800' : 'text-green-800'}>
+            {message.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Add/Edit Rule Form */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Rule' : 'Add Rule'}</CardTitle>
+            <CardDescription>{typeHint}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="type">Rule Type</Label>
+                <select
+                  id="type"
+                  value={formData.type}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as PricingRuleType, match: '' })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {RULE_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {formData.type === 'PROVIDER' && (
+                <div>
+                  <Label htmlFor="match">Provider</Label>
+                  <select
+                    id="match"
+                    value={formData.match}
+                    onChange={(e) => setFormData({ ...formData, match: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  >
+                    <option value="">Select a provider</option>
+                    {providers.map((provider) => (
+                      <option key={provider.id} value={provider.id}>{provider.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {formData.type === 'OUTPUT_OPTION' && (
+                <div>
+                  <Label htmlFor="match">Output Option</Label>
+                  <select
+                    id="match"
+                    value={formData.match}
+                    onChange={(e) => setFormData({ ...formData, match: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  >
+                    <option value="">Select an output</option>
+                    {outputOptions.map((option) => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Supported by: {providers
+                      .filter((provider) => provider.supportedOutputs.includes(formData.match))
+                      .map((provider) => provider.name)
+                      .join(', ') || '—'}
+                  </p>
+                </div>
+              )}
+
+              {formData.type === 'FILE_SIZE' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="minFileSize">From (KB)</Label>
+                    <Input
+                      id="minFileSize"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={formData.minFileSizeKb}
+                      onChange={(e) => setFormData({ ...formData, minFileSizeKb: e.target.value })}
+                      placeholder="0"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="maxFileSize">Up to (KB, exclusive)</Label>
+                    <Input
+                      id="maxFileSize"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={formData.maxFileSizeKb}
+                      onChange={(e) => setFormData({ ...formData, maxFileSizeKb: e.target.value })}
+                      placeholder="No limit"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="credits">Credits</Label>
+                <Input
+                  id="credits"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={formData.credits}
+                  onChange={(e) => setFormData({ ...formData, credits: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="description">Label (optional)</Label>
+                <Input
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Shown to users in the price breakdown"
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving} className="flex-1">
+                  {saving ? 'Saving...' : editingId ? 'Update Rule' : 'Add Rule'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Current Rules List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Current Rules</CardTitle>
+            <CardDescription>
+              Changes apply to runs started afterwards
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {rules.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">
+                No pricing rules yet, every image costs {defaultBaseCredits} credit{defaultBaseCredits !== 1 ? 's' : ''}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {rules.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50"
+                  >
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium text-sm">{describeCondition(rule)}</span>
+                        <Badge variant="secondary" className="text-xs">
+                          {RULE_TYPES.find((type) => type.value === rule.type)?.label}
+                        </Badge>
+                        {rule.isActive ? (
+                          <Badge variant="default" className="text-xs bg-green-100 text-green-800">
+                            Active
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">
+                            Inactive
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {rule.type === 'BASE' ? '' : '+'}{rule.credits} credit{rule.credits !== 1 ? 's' : ''}
+                        {rule.description ? ` · ${rule.description}` : ''}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        Updated: {new Date(rule.updatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(rule)}>
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleToggle(rule)}>
+                        {rule.isActive ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(rule)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
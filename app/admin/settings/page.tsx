@@ -18,11 +18,21 @@ interface Setting {
   updatedAt: string;
 }
 
+interface ProviderOption {
+  id: string;
+  name: string;
+  configured: boolean;
+}
+
 export default function AdminSettingsPage() {
   const [settings, setSettings] = useState<Setting[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [activeProviderId, setActiveProviderId] = useState('');
+  const [providerChain, setProviderChain] = useState('');
+  const [savingProvider, setSavingProvider] = useState(false);
   
   // Form state for new/edit setting
   const [formData, setFormData] = useState({
@@ -35,7 +45,13 @@ export default function AdminSettingsPage() {
   const predefinedKeys = [
     { key: 'IDEOGRAM_API_KEY', label: 'Ideogram API Key', category: 'API' },
     { key: 'OPENAI_API_KEY', label: 'OpenAI API Key', category: 'API' },
-    { key: 'CLOUDINARY_API_KEY', label: 'Cloudinary API Key', category: 'API' }
+    { key: 'OPENAI_BASE_URL', label: 'OpenAI Base URL', category: 'API' },
+    { key: 'OPENAI_MODEL', label: 'OpenAI Model', category: 'API' },
+    { key: 'PROVIDER_FAILURE_THRESHOLD', label: 'Provider Failure Threshold', category: 'GENERAL' },
+    { key: 'PROVIDER_FAILURE_WINDOW_MS', label: 'Provider Failure Window (ms)', category: 'GENERAL' },
+    { key: 'IDEMPOTENCY_KEY_TTL_HOURS', label: 'Idempotency Key Lifetime (hours)', category: 'GENERAL' },
+    { key: 'CLOUDINARY_API_KEY', label: 'Cloudinary API Key', category: 'API' },
+    { key: 'PAYMENT_WEBHOOK_SECRET', label: 'Payment Webhook Secret', category: 'API' }
   ];
 
   useEffect(() => {
@@ -48,6 +64,9 @@ export default function AdminSettingsPage() {
       if (response.ok) {
         const data = await response.json();
         setSettings(data.settings);
+        setProviders(data.providers || []);
+        setActiveProviderId(data.activeProviderId || '');
+        setProviderChain((data.providerChain || []).join(', '));
       } else {
         throw new Error('Failed to fetch settings');
       }
@@ -91,6 +110,40 @@ export default function AdminSettingsPage() {
     }
   };
 
+  const handleProviderSave = async () => {
+    if (!activeProviderId) return;
+
+    setSavingProvider(true);
+    try {
+      const saveSetting = (key: string, value: string) => fetch('/api/admin/settings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ key, value, category: 'GENERAL' }),
+      });
+
+      // Fallback order defaults to just the active provider
+      const chain = providerChain.trim() || activeProviderId;
+      const responses = await Promise.all([
+        saveSetting('DESCRIPTION_PROVIDER', activeProviderId),
+        saveSetting('DESCRIPTION_PROVIDER_CHAIN', chain)
+      ]);
+
+      if (responses.every((response) => response.ok)) {
+        setMessage({ type: 'success', text: 'Description providers updated' });
+        fetchSettings(); // Refresh the list
+      } else {
+        throw new Error('Failed to update provider');
+      }
+    } catch (error) {
+      console.error('Error updating provider:', error);
+      setMessage({ type: 'error', text: 'Failed to update description provider' });
+    } finally {
+      setSavingProvider(false);
+    }
+  };
+
   const handleDelete = async (key: string) => {
     if (!confirm(`Are you sure you want to delete the setting "${key}"?`)) {
       return;
@@ -152,6 +205,52 @@ export default function AdminSettingsPage() {
         </Alert>
       )}
 
+      {/* Active Description Provider */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Description Provider</CardTitle>
+          <CardDescription>
+            Choose which backend generates image descriptions
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="flex-1">
+              <Label htmlFor="provider">Active Provider</Label>
+              <select
+                id="provider"
+                value={activeProviderId}
+                onChange={(e) => setActiveProviderId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {providers.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.name}{provider.configured ? '' : ' (not configured)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="providerChain">Fallback Order</Label>
+              <Input
+                id="providerChain"
+                value={providerChain}
+                onChange={(e) => setProviderChain(e.target.value)}
+                placeholder={providers.map((provider) => provider.id).join(', ')}
+              />
+            </div>
+            <Button onClick={handleProviderSave} disabled={savingProvider || !activeProviderId}>
+              {savingProvider ? 'Saving...' : 'Save Provider'}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Providers in the fallback order are tried in turn. A provider that fails PROVIDER_FAILURE_THRESHOLD
+            times within PROVIDER_FAILURE_WINDOW_MS is skipped until the window passes.
+            The OpenAI-compatible provider uses OPENAI_API_KEY, OPENAI_BASE_URL and OPENAI_MODEL.
+          </p>
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Add/Edit Setting Form */}
         <Card>
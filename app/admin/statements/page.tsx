@@ -0,0 +1,385 @@
+"use client"
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+
+interface StatementMapping {
+  id: string;
+  provider: string;
+  name: string;
+  delimiter: string;
+  transactionIdColumn: string;
+  amountColumn: string;
+  currencyColumn: string | null;
+  defaultCurrency: string;
+  paymentMethod: string | null;
+  dateColumn: string | null;
+  isActive: boolean;
+  _count: { imports: number };
+}
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+const EMPTY_FORM = {
+  provider: '',
+  name: '',
+  delimiter: ',',
+  transactionIdColumn: '',
+  amountColumn: '',
+  currencyColumn: '',
+  defaultCurrency: 'PKR',
+  paymentMethod: '',
+  dateColumn: ''
+};
+
+export default function AdminStatementsPage() {
+  const [mappings, setMappings] = useState<StatementMapping[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchMappings();
+  }, []);
+
+  const fetchMappings = async () => {
+    try {
+      const response = await fetch('/api/admin/statement-mappings');
+      if (response.ok) {
+        const data = await response.json();
+        setMappings(data.mappings);
+      } else {
+        throw new Error('Failed to fetch statement mappings');
+      }
+    } catch (error) {
+      console.error('Error fetching statement mappings:', error);
+      setMessage({ type: 'error', text: 'Failed to load statement mappings' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const response = await fetch(editingId ? `/api/admin/statement-mappings/${editingId}` : '/api/admin/statement-mappings', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save statement mapping');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      resetForm();
+      fetchMappings(); // Refresh the list
+    } catch (error) {
+      console.error('Error saving statement mapping:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save statement mapping' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (mapping: StatementMapping) => {
+    setEditingId(mapping.id);
+    setFormData({
+      provider: mapping.provider,
+      name: mapping.name,
+      delimiter: mapping.delimiter,
+      transactionIdColumn: mapping.transactionIdColumn,
+      amountColumn: mapping.amountColumn,
+      currencyColumn: mapping.currencyColumn || '',
+      defaultCurrency: mapping.defaultCurrency,
+      paymentMethod: mapping.paymentMethod || '',
+      dateColumn: mapping.dateColumn || ''
+    });
+  };
+
+  const handleToggle = async (id: string, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/statement-mappings/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !isActive }),
+      });
+
+      if (response.ok) {
+        fetchMappings(); // Refresh the list
+      } else {
+        throw new Error('Failed to update statement mapping');
+      }
+    } catch (error) {
+      console.error('Error updating statement mapping:', error);
+      setMessage({ type: 'error', text: 'Failed to update statement mapping' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this mapping?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/statement-mappings/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete statement mapping');
+      }
+
+      setMessage({ type: 'success', text: data.message });
+      if (editingId === id) resetForm();
+      fetchMappings(); // Refresh the list
+    } catch (error) {
+      console.error('Error deleting statement mapping:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete statement mapping' });
+    }
+  };
+
+  const describeDelimiter = (delimiter: string) =>
+    DELIMITERS.find((option) => option.value === delimiter)?.label || delimiter;
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading statement mappings...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Statement Mappings</h1>
+        <p className="text-gray-600 mt-2">
+          Which columns of each provider&apos;s CSV export hold the transaction ID, amount and currency.
+          Statements are imported on the <Link href="/admin/payments" className="text-blue-600 hover:underline">payments page</Link>.
+        </p>
+      </div>
+
+      {message && (
+        <Alert className={message.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}>
+          <AlertDescription className={message.type === 'error' ? 'text-red-800' : 'text-green-800'}>
+            {message.text}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Mapping Form */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Mapping' : 'New Mapping'}</CardTitle>
+            <CardDescription>Column names are matched to the file&apos;s header row, ignoring case</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="provider">Provider</Label>
+                  <Input
+                    id="provider"
+                    value={formData.provider}
+                    onChange={(e) => setFormData({ ...formData, provider: e.target.value.toLowerCase() })}
+                    placeholder="e.g., easypaisa"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="delimiter">Delimiter</Label>
+                  <select
+                    id="delimiter"
+                    value={formData.delimiter}
+                    onChange={(e) => setFormData({ ...formData, delimiter: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {DELIMITERS.map((option) => (
+                      <option key={option.label} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Easypaisa merchant statement"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="transactionIdColumn">Transaction ID Column</Label>
+                <Input
+                  id="transactionIdColumn"
+                  value={formData.transactionIdColumn}
+                  onChange={(e) => setFormData({ ...formData, transactionIdColumn: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="amountColumn">Amount Column</Label>
+                <Input
+                  id="amountColumn"
+                  value={formData.amountColumn}
+                  onChange={(e) => setFormData({ ...formData, amountColumn: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="currencyColumn">Currency Column</Label>
+                  <Input
+                    id="currencyColumn"
+                    value={formData.currencyColumn}
+                    onChange={(e) => setFormData({ ...formData, currencyColumn: e.target.value })}
+                    placeholder="None"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="defaultCurrency">Default Currency</Label>
+                  <select
+                    id="defaultCurrency"
+                    value={formData.defaultCurrency}
+                    onChange={(e) => setFormData({ ...formData, defaultCurrency: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="PKR">PKR</option>
+                    <option value="USD">USD</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="dateColumn">Date Column</Label>
+                  <Input
+                    id="dateColumn"
+                    value={formData.dateColumn}
+                    onChange={(e) => setFormData({ ...formData, dateColumn: e.target.value })}
+                    placeholder="None"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="paymentMethod">Payment Method</Label>
+                  <select
+                    id="paymentMethod"
+                    value={formData.paymentMethod}
+                    onChange={(e) => setFormData({ ...formData, paymentMethod: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Any</option>
+                    <option value="QR_CODE">QR code</option>
+                    <option value="BINANCE">Binance</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving} className="flex-1">
+                  {saving ? 'Saving...' : editingId ? 'Update Mapping' : 'Create Mapping'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Mapping List */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>All Mappings</CardTitle>
+            <CardDescription>Only active mappings can be chosen when importing</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {mappings.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No mappings yet</p>
+            ) : (
+              <div className="space-y-3">
+                {mappings.map((mapping) => (
+                  <div key={mapping.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium text-sm">{mapping.name}</span>
+                        <Badge variant="secondary" className="text-xs font-mono">{mapping.provider}</Badge>
+                        {!mapping.isActive && <Badge variant="outline" className="text-xs">Inactive</Badge>}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        ID: {mapping.transactionIdColumn}
+                        {' · '}Amount: {mapping.amountColumn}
+                        {' · '}Currency: {mapping.currencyColumn || `always ${mapping.defaultCurrency}`}
+                        {mapping.dateColumn ? ` · Date: ${mapping.dateColumn}` : ''}
+                        {' · '}{describeDelimiter(mapping.delimiter)}
+                      </p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {mapping.paymentMethod ? `Matches ${mapping.paymentMethod} payments` : 'Matches any payment method'}
+                        {' · '}{mapping._count.imports} import(s)
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(mapping)}>
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleToggle(mapping.id, mapping.isActive)}>
+                        {mapping.isActive ? 'Disable' : 'Enable'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(mapping.id)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -18,11 +18,39 @@ interface User {
   role: string
   credits: number
   isActive: boolean
+  dailyImageCap: number | null
+  monthlyImageCap: number | null
+  dailyCreditCap: number | null
+  monthlyCreditCap: number | null
   createdAt: string
   lastLoginAt: string | null
   _count: {
     imageDescriptions: number
   }
+  usage: {
+    daily: { images: number; credits: number }
+    monthly: { images: number; credits: number }
+  }
+}
+
+type CapField = "dailyImageCap" | "monthlyImageCap" | "dailyCreditCap" | "monthlyCreditCap"
+
+const CAP_FIELDS: { field: CapField; label: string }[] = [
+  { field: "dailyImageCap", label: "Images / day" },
+  { field: "monthlyImageCap", label: "Images / month" },
+  { field: "dailyCreditCap", label: "Credits / day" },
+  { field: "monthlyCreditCap", label: "Credits / month" },
+]
+
+const EMPTY_CAPS: Record<CapField, string> = {
+  dailyImageCap: "",
+  monthlyImageCap: "",
+  dailyCreditCap: "",
+  monthlyCreditCap: "",
+}
+
+function formatUsage(used: number, cap: number | null) {
+  return cap === null ? `${used}` : `${used}/${cap}`
 }
 
 export default function UsersPage() {
@@ -33,6 +61,7 @@ export default function UsersPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [editCredits, setEditCredits] = useState("")
   const [editRole, setEditRole] = useState("")
+  const [editCaps, setEditCaps] = useState(EMPTY_CAPS)
   const [isUpdating, setIsUpdating] = useState(false)
   const [updateError, setUpdateError] = useState("")
 
@@ -58,6 +87,12 @@ export default function UsersPage() {
     setSelectedUser(user)
     setEditCredits(user.credits.toString())
     setEditRole(user.role)
+    setEditCaps({
+      dailyImageCap: user.dailyImageCap?.toString() ?? "",
+      monthlyImageCap: user.monthlyImageCap?.toString() ?? "",
+      dailyCreditCap: user.dailyCreditCap?.toString() ?? "",
+      monthlyCreditCap: user.monthlyCreditCap?.toString() ?? "",
+    })
     setUpdateError("")
     setIsEditDialogOpen(true)
   }
@@ -72,6 +107,11 @@ export default function UsersPage() {
       return
     }
 
+    // Empty caps are sent as null, which removes the cap
+    const caps = Object.fromEntries(
+      CAP_FIELDS.map(({ field }) => [field, editCaps[field].trim() === "" ? null : Number(editCaps[field])])
+    )
+
     setIsUpdating(true)
     setUpdateError("")
 
@@ -84,6 +124,7 @@ export default function UsersPage() {
         body: JSON.stringify({
           credits: credits,
           role: editRole,
+          ...caps,
         }),
       })
 
@@ -93,6 +134,7 @@ export default function UsersPage() {
         setSelectedUser(null)
         setEditCredits("")
         setEditRole("")
+        setEditCaps(EMPTY_CAPS)
       } else {
         const errorData = await response.json()
         setUpdateError(errorData.error || "Failed to update user")
@@ -174,6 +216,7 @@ export default function UsersPage() {
                 <TableHead>Role</TableHead>
                 <TableHead>Credits</TableHead>
                 <TableHead>Images</TableHead>
+                <TableHead>Usage (today / month)</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Last Login</TableHead>
                 <TableHead>Actions</TableHead>
@@ -195,6 +238,14 @@ export default function UsersPage() {
                   </TableCell>
                   <TableCell>{user.credits}</TableCell>
                   <TableCell>{user._count.imageDescriptions}</TableCell>
+                  <TableCell>
+                    <div className="text-sm">
+                      {formatUsage(user.usage.daily.images, user.dailyImageCap)} / {formatUsage(user.usage.monthly.images, user.monthlyImageCap)} images
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {formatUsage(user.usage.daily.credits, user.dailyCreditCap)} / {formatUsage(user.usage.monthly.credits, user.monthlyCreditCap)} credits
+                    </div>
+                  </TableCell>
                   <TableCell>
                     <Badge variant={user.isActive ? "default" : "destructive"}>
                       {user.isActive ? "Active" : "Inactive"}
@@ -236,7 +287,7 @@ export default function UsersPage() {
           <DialogHeader>
             <DialogTitle>Edit User</DialogTitle>
             <DialogDescription>
-              Update user credits and role for {selectedUser?.name || selectedUser?.email}
+              Update user credits, role and usage caps for {selectedUser?.name || selectedUser?.email}
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
@@ -273,6 +324,26 @@ export default function UsersPage() {
                 </SelectContent>
               </Select>
             </div>
+            <p className="text-sm text-muted-foreground">
+              Usage caps reset at midnight UTC and on the first of the month. Leave a cap empty for no limit.
+            </p>
+            {CAP_FIELDS.map(({ field, label }) => (
+              <div key={field} className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor={field} className="text-right">
+                  {label}
+                </Label>
+                <Input
+                  id={field}
+                  type="number"
+                  value={editCaps[field]}
+                  onChange={(e) => setEditCaps({ ...editCaps, [field]: e.target.value })}
+                  className="col-span-3"
+                  min="0"
+                  placeholder="No limit"
+                  disabled={isUpdating}
+                />
+              </div>
+            ))}
           </div>
           <DialogFooter>
             <Button 
@@ -0,0 +1,218 @@
+"use client"
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+
+type WebhookDeliveryStatus =
+  | 'RECEIVED'
+  | 'APPROVED'
+  | 'UNMATCHED'
+  | 'MISMATCH'
+  | 'INVALID_PAYLOAD'
+  | 'INVALID_SIGNATURE'
+  | 'STALE'
+  | 'REPLAYED'
+  | 'FAILED';
+
+interface WebhookDelivery {
+  id: string;
+  deliveryId: string | null;
+  status: WebhookDeliveryStatus;
+  detail: string | null;
+  payload: string | null;
+  transactionId: string | null;
+  attempts: number;
+  receivedAt: string;
+  paymentRequest: {
+    id: string;
+    status: string;
+    creditsRequested: number;
+    user: { name: string | null; email: string };
+  } | null;
+}
+
+const STATUS_FILTERS: { value: WebhookDeliveryStatus | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'UNMATCHED', label: 'Unmatched' },
+  { value: 'MISMATCH', label: 'Mismatch' },
+  { value: 'FAILED', label: 'Failed' },
+  { value: 'INVALID_SIGNATURE', label: 'Bad Signature' },
+  { value: 'REPLAYED', label: 'Replayed' }
+];
+
+export default function AdminWebhooksPage() {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [secretConfigured, setSecretConfigured] = useState(false);
+  const [toleranceSeconds, setToleranceSeconds] = useState(0);
+  const [filter, setFilter] = useState<WebhookDeliveryStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, []);
+
+  const fetchDeliveries = async () => {
+    try {
+      const response = await fetch('/api/admin/payments/webhook-deliveries');
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries);
+        setSecretConfigured(data.secretConfigured);
+        setToleranceSeconds(data.toleranceSeconds);
+        setError(null);
+      } else {
+        throw new Error('Failed to fetch webhook deliveries');
+      }
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      setError('Failed to load webhook deliveries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getStatusBadge = (status: WebhookDeliveryStatus) => {
+    switch (status) {
+      case 'APPROVED':
+        return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+      case 'UNMATCHED':
+        return <Badge className="bg-gray-100 text-gray-800">Unmatched</Badge>;
+      case 'MISMATCH':
+        return <Badge className="bg-orange-100 text-orange-800">Mismatch</Badge>;
+      case 'REPLAYED':
+        return <Badge className="bg-blue-100 text-blue-800">Replayed</Badge>;
+      case 'RECEIVED':
+        return <Badge className="bg-yellow-100 text-yellow-800">Processing</Badge>;
+      default:
+        return <Badge className="bg-red-100 text-red-800">{status.replace(/_/g, ' ').toLowerCase()}</Badge>;
+    }
+  };
+
+  const filteredDeliveries = filter ? deliveries.filter((delivery) => delivery.status === filter) : deliveries;
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading webhook deliveries...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Payment Webhook</h1>
+          <p className="text-gray-600 mt-2">
+            Signed payment notifications from providers. A notification whose transaction ID, amount and currency
+            match a request awaiting review approves it in full.
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchDeliveries}>Refresh</Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Setup */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Setup</CardTitle>
+          <CardDescription>
+            {secretConfigured
+              ? 'The shared secret is configured.'
+              : 'No shared secret yet, so every notification is refused.'}
+            {' '}Set it as PAYMENT_WEBHOOK_SECRET on the <Link href="/admin/settings" className="text-blue-600 hover:underline">settings page</Link>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm text-gray-700 space-y-2">
+          <p>
+            Providers POST JSON like <code className="bg-gray-100 px-1 rounded">{'{"transactionId": "...", "amount": 1500, "currency": "PKR", "paymentMethod": "QR_CODE"}'}</code>
+            {' '}to <code className="bg-gray-100 px-1 rounded">/api/webhooks/payments</code>, where paymentMethod is optional.
+          </p>
+          <p>
+            Each delivery sends its unique ID in <code className="bg-gray-100 px-1 rounded">X-Webhook-Id</code>, the Unix time
+            in <code className="bg-gray-100 px-1 rounded">X-Webhook-Timestamp</code>, and in <code className="bg-gray-100 px-1 rounded">X-Webhook-Signature</code>
+            {' '}&quot;sha256=&quot; followed by the hex HMAC-SHA256 of &quot;id.timestamp.body&quot; keyed with the secret.
+            Deliveries more than {toleranceSeconds} seconds old are refused and each ID is processed once.
+          </p>
+          <p>
+            To try it locally, run <code className="bg-gray-100 px-1 rounded">PAYMENT_WEBHOOK_SECRET=... npm run payments:webhook -- &lt;transactionId&gt; &lt;amount&gt; &lt;currency&gt;</code>.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Filter Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((option) => (
+          <Button
+            key={option.label}
+            variant={filter === option.value ? 'primary' : 'outline'}
+            size="sm"
+            onClick={() => setFilter(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Delivery Log */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Deliveries</CardTitle>
+          <CardDescription>The latest 100, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filteredDeliveries.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No deliveries yet</p>
+          ) : (
+            <div className="space-y-3">
+              {filteredDeliveries.map((delivery) => (
+                <div key={delivery.id} className="p-3 border rounded-lg text-sm">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    {getStatusBadge(delivery.status)}
+                    <span className="text-gray-500">{new Date(delivery.receivedAt).toLocaleString()}</span>
+                    {delivery.transactionId && (
+                      <span className="font-mono text-xs">{delivery.transactionId}</span>
+                    )}
+                    {delivery.attempts > 1 && (
+                      <span className="text-xs text-gray-500">{delivery.attempts} attempts</span>
+                    )}
+                  </div>
+                  {delivery.detail && <p className="text-gray-700">{delivery.detail}</p>}
+                  {delivery.paymentRequest && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Request #{delivery.paymentRequest.id.slice(-8)}
+                      {' · '}{delivery.paymentRequest.user.name || delivery.paymentRequest.user.email}
+                      {' · '}{delivery.paymentRequest.creditsRequested} credits
+                      {' · '}now {delivery.paymentRequest.status.replace(/_/g, ' ').toLowerCase()}
+                    </p>
+                  )}
+                  {delivery.payload !== null && (
+                    <details className="mt-1">
+                      <summary className="cursor-pointer text-xs text-gray-500">
+                        Payload{delivery.deliveryId ? ` of delivery ${delivery.deliveryId}` : ''}
+                      </summary>
+                      <pre className="mt-1 p-2 bg-gray-50 rounded text-xs whitespace-pre-wrap break-all">{delivery.payload}</pre>
+                    </details>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { CouponError, parseCouponInput } from '@/lib/coupons';
+
+// PATCH /api/admin/coupons/[id] - Update a coupon
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.coupon.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Coupon not found' }, { status: 404 });
+    }
+
+    const input = parseCouponInput(await request.json(), existing);
+
+    // Redemptions already made were priced with the old type and value
+    if (existing.redemptionCount > 0 && (input.type !== existing.type || input.code !== existing.code)) {
+      return NextResponse.json(
+        { error: 'The code and type of a coupon that has been used cannot be changed' },
+        { status: 409 }
+      );
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id },
+      data: input
+    });
+
+    return NextResponse.json({
+      message: 'Coupon updated successfully',
+      coupon
+    });
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A coupon with this code already exists' }, { status: 409 });
+    }
+
+    console.error('Error updating coupon:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/coupons/[id] - Delete a coupon that has never been used
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const coupon = await prisma.coupon.findUnique({
+      where: { id },
+      select: { _count: { select: { redemptions: true } } }
+    });
+
+    if (!coupon) {
+      return NextResponse.json({ error: 'Coupon not found' }, { status: 404 });
+    }
+
+    // Deleting would unlink the BONUS transactions it paid out
+    if (coupon._count.redemptions > 0) {
+      return NextResponse.json(
+        { error: 'This coupon has been redeemed and cannot be deleted; disable it instead' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.coupon.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Coupon deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
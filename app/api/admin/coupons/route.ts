@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { CouponError, parseCouponInput } from '@/lib/coupons';
+
+// GET /api/admin/coupons - List coupons with their redemption totals
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [coupons, paidOut] = await Promise.all([
+      prisma.coupon.findMany({
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.creditTransaction.groupBy({
+        by: ['couponId'],
+        where: { couponId: { not: null } },
+        _sum: { amount: true }
+      })
+    ]);
+
+    const creditsByCoupon = new Map(paidOut.map((row) => [row.couponId, row._sum.amount || 0]));
+
+    return NextResponse.json({
+      coupons: coupons.map((coupon) => ({
+        ...coupon,
+        creditsPaidOut: creditsByCoupon.get(coupon.id) || 0
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/coupons - Create a coupon
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = parseCouponInput(await request.json());
+    const coupon = await prisma.coupon.create({
+      data: { ...input, createdBy: session.user.id }
+    });
+
+    return NextResponse.json({
+      message: 'Coupon created successfully',
+      coupon
+    });
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A coupon with this code already exists' }, { status: 409 });
+    }
+
+    console.error('Error creating coupon:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
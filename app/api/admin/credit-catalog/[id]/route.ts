@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  CreditCatalogError,
+  parseCreditPackageInput,
+  parseCreditPriceTierInput
+} from '@/lib/credit-catalog';
+
+function readKind(request: NextRequest): 'package' | 'tier' | null {
+  const kind = new URL(request.url).searchParams.get('kind');
+  return kind === 'package' || kind === 'tier' ? kind : null;
+}
+
+// PATCH /api/admin/credit-catalog/[id]?kind=package|tier - Update a package or tier
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const kind = readKind(request);
+    if (!kind) {
+      return NextResponse.json({ error: "kind must be 'package' or 'tier'" }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    if (kind === 'package') {
+      const existing = await prisma.creditPackage.findUnique({ where: { id } });
+      if (!existing) {
+        return NextResponse.json({ error: 'Credit package not found' }, { status: 404 });
+      }
+
+      const creditPackage = await prisma.creditPackage.update({
+        where: { id },
+        data: parseCreditPackageInput(body, existing)
+      });
+      return NextResponse.json({ message: 'Credit package updated successfully', package: creditPackage });
+    }
+
+    const existing = await prisma.creditPriceTier.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Price tier not found' }, { status: 404 });
+    }
+
+    const tier = await prisma.creditPriceTier.update({
+      where: { id },
+      data: parseCreditPriceTierInput(body, existing)
+    });
+    return NextResponse.json({ message: 'Price tier updated successfully', tier });
+  } catch (error) {
+    if (error instanceof CreditCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'An entry for this location and credit amount already exists' }, { status: 409 });
+    }
+
+    console.error('Error updating credit catalog entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/credit-catalog/[id]?kind=package|tier - Delete a package or tier
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const kind = readKind(request);
+    if (!kind) {
+      return NextResponse.json({ error: "kind must be 'package' or 'tier'" }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const deleted = kind === 'package'
+      ? await prisma.creditPackage.deleteMany({ where: { id } })
+      : await prisma.creditPriceTier.deleteMany({ where: { id } });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Catalog entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Catalog entry deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting credit catalog entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  CreditCatalogError,
+  PURCHASE_LOCATIONS,
+  parseCreditPackageInput,
+  parseCreditPriceTierInput
+} from '@/lib/credit-catalog';
+
+// GET /api/admin/credit-catalog - List all credit packages and volume tiers, active or not
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [packages, tiers] = await Promise.all([
+      prisma.creditPackage.findMany({
+        orderBy: [{ location: 'asc' }, { sortOrder: 'asc' }, { credits: 'asc' }]
+      }),
+      prisma.creditPriceTier.findMany({
+        orderBy: [{ location: 'asc' }, { minCredits: 'asc' }]
+      })
+    ]);
+
+    return NextResponse.json({ packages, tiers, locations: PURCHASE_LOCATIONS });
+  } catch (error) {
+    console.error('Error fetching credit catalog:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/credit-catalog - Create a package ({ kind: 'package', ... }) or tier ({ kind: 'tier', ... })
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+
+    if (body.kind === 'package') {
+      const creditPackage = await prisma.creditPackage.create({ data: parseCreditPackageInput(body) });
+      return NextResponse.json({ message: 'Credit package created successfully', package: creditPackage });
+    }
+
+    if (body.kind === 'tier') {
+      const tier = await prisma.creditPriceTier.create({ data: parseCreditPriceTierInput(body) });
+      return NextResponse.json({ message: 'Price tier created successfully', tier });
+    }
+
+    return NextResponse.json({ error: "kind must be 'package' or 'tier'" }, { status: 400 });
+  } catch (error) {
+    if (error instanceof CreditCatalogError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'An entry for this location and credit amount already exists' }, { status: 409 });
+    }
+
+    console.error('Error creating credit catalog entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
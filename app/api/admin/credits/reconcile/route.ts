@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { findBalanceDrift, repairBalanceDrift } from "@/lib/credit-reconciliation"
+
+// Users whose balance disagrees with their ledger or credit lots
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const drift = await findBalanceDrift()
+
+    return NextResponse.json({ drift })
+  } catch (error) {
+    console.error("Ledger reconciliation check error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// Repair drift for the given users, or for every user with drift when none are given
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const userIds: unknown = body.userIds
+
+    if (userIds !== undefined && (!Array.isArray(userIds) || !userIds.every((id) => typeof id === "string"))) {
+      return NextResponse.json(
+        { error: "userIds must be an array of user IDs" },
+        { status: 400 }
+      )
+    }
+
+    const targets = (userIds as string[] | undefined) ?? (await findBalanceDrift()).map((user) => user.userId)
+
+    const repairs = []
+    for (const userId of targets) {
+      const repair = await repairBalanceDrift(userId, session.user.email ?? session.user.id)
+      if (repair) {
+        repairs.push(repair)
+      }
+    }
+
+    return NextResponse.json({ repairs })
+  } catch (error) {
+    console.error("Ledger reconciliation repair error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
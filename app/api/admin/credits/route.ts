@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { CreditManager, InsufficientCreditsError, UserNotFoundError } from "@/lib/credit-manager"
+import { creditExpiryFromDays } from "@/lib/credit-lots"
+import { CreditTransactionType } from "@prisma/client"
 
 export async function GET(_request: NextRequest) {
   try {
@@ -51,7 +54,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { userId, amount, description } = await request.json()
+    const { userId, amount, description, expiresInDays } = await request.json()
 
     if (!userId || !amount) {
       return NextResponse.json(
@@ -60,24 +63,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Update user credits
-    const updatedUser = await prisma.user.update({
-      where: { id: userId },
-      data: {
-        credits: {
-          increment: amount
-        }
-      }
-    })
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays <= 0)) {
+      return NextResponse.json(
+        { error: "expiresInDays must be a positive whole number" },
+        { status: 400 }
+      )
+    }
 
-    // Create credit transaction
-    await prisma.creditTransaction.create({
-      data: {
-        userId,
-        amount,
-        type: "ADMIN_ADJUSTMENT",
-        description: description || "Admin credit adjustment"
-      }
+    // Grants become a lot (expiring after expiresInDays when given); debits are spent from lots like any other
+    const creditManager = new CreditManager(userId)
+    const adjustment = amount > 0
+      ? await creditManager.addCredits(amount, description || "Admin credit adjustment", CreditTransactionType.ADMIN_ADJUSTMENT, creditExpiryFromDays(expiresInDays))
+      : await creditManager.deductCredits(-amount, description || "Admin credit adjustment", CreditTransactionType.ADMIN_ADJUSTMENT)
+
+    if (!adjustment.success) {
+      throw new Error(adjustment.error)
+    }
+
+    const updatedUser = await prisma.user.findUniqueOrThrow({
+      where: { id: userId }
     })
 
     return NextResponse.json({
@@ -90,6 +94,21 @@ export async function POST(request: NextRequest) {
     })
   } catch (error) {
     console.error("Admin credits add error:", error)
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      )
+    }
+
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import {
+  PaymentLifecycleError,
+  decidePaymentRequest,
+  parsePaymentNote,
+  requestPaymentInfo
+} from '@/lib/payment-lifecycle';
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,7 +34,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { requestId, action, adminNotes } = body;
+    const { requestId, action, creditsGranted, reason } = body;
 
     if (!requestId || !action) {
       return NextResponse.json(
@@ -37,9 +43,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!['APPROVED', 'REJECTED'].includes(action)) {
+    if (!['APPROVED', 'PARTIALLY_APPROVED', 'REJECTED', 'NEEDS_INFO'].includes(action)) {
       return NextResponse.json(
-        { error: 'Invalid action. Must be APPROVED or REJECTED' },
+        { error: 'Invalid action. Must be APPROVED, PARTIALLY_APPROVED, REJECTED or NEEDS_INFO' },
+        { status: 400 }
+      );
+    }
+
+    let adminNotes: string | null;
+    try {
+      adminNotes = parsePaymentNote(body.adminNotes);
+    } catch (error) {
+      if (error instanceof PaymentLifecycleError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    if (action === 'NEEDS_INFO' && !adminNotes) {
+      return NextResponse.json(
+        { error: 'Tell the user what information is needed' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'PARTIALLY_APPROVED' && (typeof reason !== 'string' || !reason.trim())) {
+      return NextResponse.json(
+        { error: 'A reason is required when approving only part of the credits' },
         { status: 400 }
       );
     }
@@ -59,58 +89,51 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (paymentRequest.status !== 'PENDING') {
+    // A partial approval grants fewer credits than requested, e.g. for an underpayment
+    const isPartial = action === 'PARTIALLY_APPROVED';
+    if (isPartial && paymentRequest.subscriptionId) {
       return NextResponse.json(
-        { error: 'Payment request has already been processed' },
+        { error: 'Plan payments can only be approved in full' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      isPartial &&
+      (!Number.isInteger(creditsGranted) || creditsGranted < 1 || creditsGranted >= paymentRequest.creditsRequested)
+    ) {
+      return NextResponse.json(
+        { error: `Credits to grant must be a whole number from 1 to ${paymentRequest.creditsRequested - 1}` },
         { status: 400 }
       );
     }
 
     // Use a transaction to ensure data consistency
     const result = await prisma.$transaction(async (tx) => {
-      // Update the payment request
-      const updatedRequest = await tx.paymentRequest.update({
-        where: { id: requestId },
-        data: {
-          status: action,
-          adminNotes: adminNotes || null,
-          processedBy: session.user.id,
-          processedAt: new Date()
-        }
-      });
-
-      // If approved, add credits to user and create credit transaction
-      if (action === 'APPROVED') {
-        // Update user credits
-        await tx.user.update({
-          where: { id: paymentRequest.userId },
-          data: {
-            credits: {
-              increment: paymentRequest.creditsRequested
-            }
-          }
-        });
-
-        // Create credit transaction record
-        await tx.creditTransaction.create({
-          data: {
-            userId: paymentRequest.userId,
-            amount: paymentRequest.creditsRequested,
-            type: 'PURCHASE',
-            description: `Credits purchased via ${paymentRequest.paymentMethod} - Payment Request #${requestId.slice(-8)}`
-          }
-        });
+      // Asking for more information sends the request back to the user without a decision
+      if (action === 'NEEDS_INFO') {
+        return requestPaymentInfo(tx, requestId, session.user.id, adminNotes as string);
       }
 
-      return updatedRequest;
+      // Update the payment request and add the credits it pays for, recording the decision in its history
+      return decidePaymentRequest(tx, paymentRequest, session.user.id, {
+        action,
+        adminNotes,
+        ...(isPartial ? { creditsGranted, reason: reason.trim() } : {})
+      });
     });
 
     return NextResponse.json({
-      message: `Payment request ${action.toLowerCase()} successfully`,
+      message: action === 'NEEDS_INFO'
+        ? 'More information requested from the user'
+        : `Payment request ${isPartial ? 'partially approved' : action.toLowerCase()} successfully`,
       paymentRequest: result
     });
 
   } catch (error) {
+    if (error instanceof PaymentLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Error processing payment request:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
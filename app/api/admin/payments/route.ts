@@ -27,8 +27,11 @@ export async function GET(_request: NextRequest) {
       );
     }
 
-    // Fetch all payment requests with user information
+    // Fetch all payment requests with user information; drafts have not been submitted yet
     const paymentRequests = await prisma.paymentRequest.findMany({
+      where: {
+        status: { not: 'DRAFT' }
+      },
       include: {
         user: {
           select: {
@@ -36,6 +39,30 @@ export async function GET(_request: NextRequest) {
             name: true,
             email: true
           }
+        },
+        couponRedemption: {
+          select: {
+            credits: true,
+            status: true,
+            coupon: { select: { code: true } }
+          }
+        },
+        subscription: {
+          select: {
+            plan: { select: { name: true } }
+          }
+        },
+        // Status history with the notes exchanged with the user, oldest first
+        events: {
+          select: {
+            id: true,
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            createdAt: true,
+            actor: { select: { name: true, email: true, role: true } }
+          },
+          orderBy: { createdAt: 'asc' }
         }
       },
       orderBy: {
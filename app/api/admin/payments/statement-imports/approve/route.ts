@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { approveStatementMatches } from '@/lib/statement-import';
+
+const MAX_ROWS_PER_APPROVAL = 200;
+
+// POST /api/admin/payments/statement-imports/approve - Approve the requests matched by statement lines
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { rowIds } = await request.json();
+
+    if (!Array.isArray(rowIds) || rowIds.length === 0 || !rowIds.every((id) => typeof id === 'string')) {
+      return NextResponse.json({ error: 'rowIds must be a non-empty list of statement line IDs' }, { status: 400 });
+    }
+
+    if (rowIds.length > MAX_ROWS_PER_APPROVAL) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ROWS_PER_APPROVAL} requests can be approved at once` },
+        { status: 400 }
+      );
+    }
+
+    const result = await approveStatementMatches(Array.from(new Set<string>(rowIds)), session.user.id);
+
+    return NextResponse.json({
+      message: `Approved ${result.approved.length} payment request(s)` +
+        (result.failed.length > 0 ? `; ${result.failed.length} could not be approved` : ''),
+      ...result
+    });
+  } catch (error) {
+    console.error('Error approving statement matches:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { StatementImportError, importStatement, listStatementMatches } from '@/lib/statement-import';
+
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+// GET /api/admin/payments/statement-imports - Active mappings, recent imports and requests matched by them
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [mappings, imports, matches] = await Promise.all([
+      prisma.statementMapping.findMany({
+        where: { isActive: true },
+        select: { id: true, provider: true, name: true },
+        orderBy: { provider: 'asc' }
+      }),
+      prisma.statementImport.findMany({
+        include: { mapping: { select: { name: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: 10
+      }),
+      listStatementMatches()
+    ]);
+
+    return NextResponse.json({ mappings, imports, matches });
+  } catch (error) {
+    console.error('Error fetching statement imports:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/payments/statement-imports - Upload a statement CSV and match it to pending requests
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const mappingId = formData.get('mappingId') as string || '';
+
+    if (!file || file.size === 0) {
+      return NextResponse.json({ error: 'Choose a statement file to import' }, { status: 400 });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File size too large. Maximum 2MB allowed.' }, { status: 400 });
+    }
+
+    const mapping = await prisma.statementMapping.findFirst({ where: { id: mappingId, isActive: true } });
+
+    if (!mapping) {
+      return NextResponse.json({ error: 'Choose the provider the statement is from' }, { status: 400 });
+    }
+
+    const result = await importStatement(mapping, file.name, await file.text(), session.user.id);
+
+    return NextResponse.json({
+      message: `Imported ${result.rowCount} line(s); ${result.counts.MATCHED || 0} matched a pending request`,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof StatementImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error importing statement:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
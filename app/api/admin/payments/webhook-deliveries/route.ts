@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getSetting } from '@/lib/settings';
+import { PAYMENT_WEBHOOK_SECRET_KEY, WEBHOOK_TOLERANCE_SECONDS } from '@/lib/payment-webhooks';
+
+// GET /api/admin/payments/webhook-deliveries - Recent payment webhook deliveries, with whether the secret is set
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [deliveries, secret] = await Promise.all([
+      prisma.paymentWebhookDelivery.findMany({
+        include: {
+          paymentRequest: {
+            select: {
+              id: true,
+              status: true,
+              creditsRequested: true,
+              user: { select: { name: true, email: true } }
+            }
+          }
+        },
+        orderBy: { receivedAt: 'desc' },
+        take: 100
+      }),
+      getSetting(PAYMENT_WEBHOOK_SECRET_KEY)
+    ]);
+
+    return NextResponse.json({
+      deliveries,
+      secretConfigured: Boolean(secret),
+      toleranceSeconds: WEBHOOK_TOLERANCE_SECONDS
+    });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
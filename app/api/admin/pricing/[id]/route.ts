@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { PricingRuleError, parsePricingRuleInput } from '@/lib/pricing';
+
+// PATCH /api/admin/pricing/[id] - Update a pricing rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.pricingRule.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Pricing rule not found' }, { status: 404 });
+    }
+
+    const input = parsePricingRuleInput(await request.json(), existing);
+    const rule = await prisma.pricingRule.update({
+      where: { id },
+      data: input
+    });
+
+    return NextResponse.json({
+      message: 'Pricing rule updated successfully',
+      rule
+    });
+  } catch (error) {
+    if (error instanceof PricingRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error updating pricing rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/pricing/[id] - Delete a pricing rule
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await prisma.pricingRule.deleteMany({ where: { id } });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Pricing rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Pricing rule deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting pricing rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { DESCRIPTION_OUTPUT_OPTIONS, providerRegistry } from '@/lib/description-providers';
+import { DEFAULT_IMAGE_CREDITS, PricingRuleError, parsePricingRuleInput } from '@/lib/pricing';
+
+// GET /api/admin/pricing - List pricing rules
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await prisma.pricingRule.findMany({
+      orderBy: [{ type: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    // What rules can match on, so the form can offer them
+    return NextResponse.json({
+      rules,
+      defaultBaseCredits: DEFAULT_IMAGE_CREDITS,
+      providers: providerRegistry.list().map((provider) => ({
+        id: provider.id,
+        name: provider.name,
+        supportedOutputs: provider.supportedOutputs
+      })),
+      outputOptions: DESCRIPTION_OUTPUT_OPTIONS
+    });
+  } catch (error) {
+    console.error('Error fetching pricing rules:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/pricing - Create a pricing rule
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = parsePricingRuleInput(await request.json());
+    const rule = await prisma.pricingRule.create({ data: input });
+
+    return NextResponse.json({
+      message: 'Pricing rule created successfully',
+      rule
+    });
+  } catch (error) {
+    if (error instanceof PricingRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error creating pricing rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import {
+  providerRegistry,
+  getActiveProviderId,
+  resolveProviderChain,
+  ACTIVE_PROVIDER_SETTING,
+  PROVIDER_CHAIN_SETTING
+} from '@/lib/description-providers';
 
 // GET /api/admin/settings - Get all settings
 export async function GET() {
@@ -16,7 +23,21 @@ export async function GET() {
       orderBy: { category: 'asc' }
     });
 
-    return NextResponse.json({ settings });
+    // Registered description providers, so admins can pick the active one
+    const providers = await Promise.all(
+      providerRegistry.list().map(async (provider) => ({
+        id: provider.id,
+        name: provider.name,
+        configured: await provider.isConfigured()
+      }))
+    );
+
+    return NextResponse.json({
+      settings,
+      providers,
+      activeProviderId: await getActiveProviderId(),
+      providerChain: (await resolveProviderChain()).map((provider) => provider.id)
+    });
   } catch (error) {
     console.error('Error fetching settings:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -38,6 +59,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Key and value are required' }, { status: 400 });
     }
 
+    if (key === ACTIVE_PROVIDER_SETTING && !providerRegistry.has(value)) {
+      return NextResponse.json({ error: `Unknown description provider: ${value}` }, { status: 400 });
+    }
+
+    if (key === PROVIDER_CHAIN_SETTING) {
+      const unknownIds = String(value)
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id && !providerRegistry.has(id));
+
+      if (unknownIds.length > 0) {
+        return NextResponse.json({ error: `Unknown description provider(s): ${unknownIds.join(', ')}` }, { status: 400 });
+      }
+    }
+
     // Upsert the setting (create if doesn't exist, update if exists)
     const setting = await prisma.settings.upsert({
       where: { key },
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { StatementImportError, parseStatementMappingInput } from '@/lib/statement-import';
+
+// PATCH /api/admin/statement-mappings/[id] - Update a mapping
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.statementMapping.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Statement mapping not found' }, { status: 404 });
+    }
+
+    const mapping = await prisma.statementMapping.update({
+      where: { id },
+      data: parseStatementMappingInput(await request.json(), existing)
+    });
+
+    return NextResponse.json({
+      message: 'Statement mapping updated successfully',
+      mapping
+    });
+  } catch (error) {
+    if (error instanceof StatementImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A mapping for this provider already exists' }, { status: 409 });
+    }
+
+    console.error('Error updating statement mapping:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/statement-mappings/[id] - Delete a mapping that has never been used
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const mapping = await prisma.statementMapping.findUnique({
+      where: { id },
+      select: { _count: { select: { imports: true } } }
+    });
+
+    if (!mapping) {
+      return NextResponse.json({ error: 'Statement mapping not found' }, { status: 404 });
+    }
+
+    // Imports keep a reference to the mapping they were read with
+    if (mapping._count.imports > 0) {
+      return NextResponse.json(
+        { error: 'Statements have been imported with this mapping; disable it instead' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.statementMapping.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Statement mapping deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting statement mapping:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { Prisma } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { StatementImportError, parseStatementMappingInput } from '@/lib/statement-import';
+
+// GET /api/admin/statement-mappings - List statement column mappings
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const mappings = await prisma.statementMapping.findMany({
+      orderBy: { provider: 'asc' },
+      include: { _count: { select: { imports: true } } }
+    });
+
+    return NextResponse.json({ mappings });
+  } catch (error) {
+    console.error('Error fetching statement mappings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/statement-mappings - Create a mapping for a provider
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = parseStatementMappingInput(await request.json());
+    const mapping = await prisma.statementMapping.create({ data: input });
+
+    return NextResponse.json({
+      message: 'Statement mapping created successfully',
+      mapping
+    });
+  } catch (error) {
+    if (error instanceof StatementImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'A mapping for this provider already exists' }, { status: 409 });
+    }
+
+    console.error('Error creating statement mapping:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { CreditTransactionType } from "@prisma/client"
 
 export async function GET(_request: NextRequest) {
   try {
@@ -18,10 +19,14 @@ export async function GET(_request: NextRequest) {
     const totalUsers = await prisma.user.count()
 
     // Get total credits issued (sum of all positive credit transactions)
+    // Released holds and refunds give back credits already issued, so they are left out
     const creditStats = await prisma.creditTransaction.aggregate({
       where: {
         amount: {
           gt: 0
+        },
+        type: {
+          notIn: [CreditTransactionType.CREDIT_RELEASE, CreditTransactionType.REFUND]
         }
       },
       _sum: {
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { SubscriptionError, parseSubscriptionPlanInput } from '@/lib/subscriptions';
+
+// PATCH /api/admin/subscription-plans/[id] - Update a plan
+// Subscribers get the new allowance and rollover rules from their next period on.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.subscriptionPlan.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+    }
+
+    const plan = await prisma.subscriptionPlan.update({
+      where: { id },
+      data: parseSubscriptionPlanInput(await request.json(), existing)
+    });
+
+    return NextResponse.json({ message: 'Plan updated successfully', plan });
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error updating subscription plan:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/subscription-plans/[id] - Delete a plan nobody has subscribed to
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const subscribers = await prisma.userSubscription.count({ where: { planId: id } });
+    if (subscribers > 0) {
+      return NextResponse.json(
+        { error: 'This plan has subscribers and cannot be deleted; disable it instead' },
+        { status: 409 }
+      );
+    }
+
+    const deleted = await prisma.subscriptionPlan.deleteMany({ where: { id } });
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Plan deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting subscription plan:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { PURCHASE_LOCATIONS } from '@/lib/credit-catalog';
+import { SubscriptionError, parseSubscriptionPlanInput } from '@/lib/subscriptions';
+
+// GET /api/admin/subscription-plans - List all plans, active or not, with their subscriber counts
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [plans, counts] = await Promise.all([
+      prisma.subscriptionPlan.findMany({
+        orderBy: [{ location: 'asc' }, { sortOrder: 'asc' }, { price: 'asc' }]
+      }),
+      prisma.userSubscription.groupBy({
+        by: ['planId', 'status'],
+        _count: true
+      })
+    ]);
+
+    return NextResponse.json({
+      plans: plans.map((plan) => ({
+        ...plan,
+        subscribers: Object.fromEntries(
+          counts.filter((count) => count.planId === plan.id).map((count) => [count.status, count._count])
+        )
+      })),
+      locations: PURCHASE_LOCATIONS
+    });
+  } catch (error) {
+    console.error('Error fetching subscription plans:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/subscription-plans - Create a plan
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const plan = await prisma.subscriptionPlan.create({
+      data: parseSubscriptionPlanInput(await request.json())
+    });
+
+    return NextResponse.json({ message: 'Plan created successfully', plan });
+  } catch (error) {
+    if (error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error creating subscription plan:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
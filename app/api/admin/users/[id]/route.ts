@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { UserRole } from "@prisma/client"
+import { CreditManager, InsufficientCreditsError } from "@/lib/credit-manager"
+import { CreditTransactionType, UserRole } from "@prisma/client"
+import { UsageCapError, UsageCaps, parseUsageCapsInput } from "@/lib/usage-caps"
 
 export async function PATCH(
   request: NextRequest,
@@ -18,7 +20,8 @@ export async function PATCH(
       )
     }
 
-    const { credits, role, isActive } = await request.json()
+    const body = await request.json()
+    const { credits, role, isActive } = body
     const resolvedParams = await params
     const userId = resolvedParams.id
 
@@ -34,22 +37,25 @@ export async function PATCH(
       )
     }
 
+    // Validate caps before any credits are adjusted
+    const usageCaps = parseUsageCapsInput(body)
+
     // Prepare update data
-    const updateData: { credits?: number; role?: UserRole; isActive?: boolean } = {}
+    const updateData: { role?: UserRole; isActive?: boolean } & Partial<UsageCaps> = { ...usageCaps }
     
     if (credits !== undefined && credits !== currentUser.credits) {
-      updateData.credits = credits
-      
-      // Create credit transaction for admin adjustment
+      // Apply the difference as an adjustment rather than overwriting the balance,
+      // so a spend that lands in between is not lost
       const creditDifference = credits - currentUser.credits
-      await prisma.creditTransaction.create({
-        data: {
-          userId,
-          amount: creditDifference,
-          type: "ADMIN_ADJUSTMENT",
-          description: `Admin adjustment: ${creditDifference > 0 ? "+" : ""}${creditDifference} credits`
-        }
-      })
+      const creditManager = new CreditManager(userId)
+      const description = `Admin adjustment: ${creditDifference > 0 ? "+" : ""}${creditDifference} credits`
+      const adjustment = creditDifference > 0
+        ? await creditManager.addCredits(creditDifference, description, CreditTransactionType.ADMIN_ADJUSTMENT)
+        : await creditManager.deductCredits(-creditDifference, description, CreditTransactionType.ADMIN_ADJUSTMENT)
+
+      if (!adjustment.success) {
+        throw new Error(adjustment.error)
+      }
     }
 
     if (role !== undefined) {
@@ -74,11 +80,23 @@ export async function PATCH(
         name: updatedUser.name,
         role: updatedUser.role,
         credits: updatedUser.credits,
-        isActive: updatedUser.isActive
+        isActive: updatedUser.isActive,
+        dailyImageCap: updatedUser.dailyImageCap,
+        monthlyImageCap: updatedUser.monthlyImageCap,
+        dailyCreditCap: updatedUser.dailyCreditCap,
+        monthlyCreditCap: updatedUser.monthlyCreditCap
       }
     })
   } catch (error) {
     console.error("Admin user update error:", error)
+
+    if (error instanceof InsufficientCreditsError || error instanceof UsageCapError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getUsageByUser } from "@/lib/usage-caps"
 
 export async function GET(_request: NextRequest) {
   try {
@@ -22,6 +23,10 @@ export async function GET(_request: NextRequest) {
         role: true,
         credits: true,
         isActive: true,
+        dailyImageCap: true,
+        monthlyImageCap: true,
+        dailyCreditCap: true,
+        monthlyCreditCap: true,
         createdAt: true,
         lastLoginAt: true,
         _count: {
@@ -35,7 +40,11 @@ export async function GET(_request: NextRequest) {
       }
     })
 
-    return NextResponse.json(users)
+    // Usage this day and month, to compare against the caps
+    const usage = await getUsageByUser()
+    const idle = { daily: { images: 0, credits: 0 }, monthly: { images: 0, credits: 0 } }
+
+    return NextResponse.json(users.map((user) => ({ ...user, usage: usage.get(user.id) ?? idle })))
   } catch (error) {
     console.error("Admin users fetch error:", error)
     return NextResponse.json(
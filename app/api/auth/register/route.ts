@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server"
 import bcrypt from "bcryptjs"
 import { prisma } from "@/lib/prisma"
+import { CouponError, previewCoupon, redeemCreditCoupon } from "@/lib/coupons"
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password, name } = await request.json()
+    const { email, password, name, couponCode } = await request.json()
 
     if (!email || !password) {
       return NextResponse.json(
@@ -25,17 +26,34 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Check the promo code first so a bad code does not leave a half-finished signup
+    if (couponCode) {
+      const coupon = await previewCoupon(couponCode, null)
+      if (coupon.type !== "CREDITS") {
+        throw new CouponError("This promo code gives bonus credits on a purchase; enter it when you buy credits")
+      }
+    }
+
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 12)
 
-    // Create user with 0 credits (default)
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        name,
-        role: "USER"
+    // Create user with 0 credits (default), plus any promo code credits
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email,
+          password: hashedPassword,
+          name,
+          role: "USER"
+        }
+      })
+
+      if (!couponCode) {
+        return created
       }
+
+      const redemption = await redeemCreditCoupon(couponCode, created.id, tx)
+      return { ...created, credits: redemption.newBalance }
     })
 
     return NextResponse.json({
@@ -48,6 +66,13 @@ export async function POST(request: NextRequest) {
       }
     })
   } catch (error) {
+    if (error instanceof CouponError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     console.error("Registration error:", error)
     return NextResponse.json(
       { error: "Internal server error" },
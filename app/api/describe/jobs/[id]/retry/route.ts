@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import {
+  DescriptionJobTracker,
+  DescriptionJobNotFoundError,
+  DescriptionJobStateError,
+  JobRetryScope
+} from '@/lib/description-job';
+import { UsageCapExceededError, assertWithinUsageCaps } from '@/lib/usage-caps';
+
+const RETRY_SCOPES: JobRetryScope[] = ['failed', 'unprocessed', 'all'];
+
+// POST /api/describe/jobs/[id]/retry - Queue failed and/or unreached items of a job again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser();
+
+    const body = await request.json().catch(() => ({}));
+    const scope: JobRetryScope = body.scope || 'all';
+
+    if (!RETRY_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: `Invalid scope. Must be one of: ${RETRY_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await assertWithinUsageCaps(user.id, { images: 1, credits: 1 });
+
+    // The worker reuses the bytes stored with the job, so nothing is re-uploaded
+    const { tracker, itemIndexes, quote } = await DescriptionJobTracker.reopen(user.id, id, scope);
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: tracker.jobId,
+        queuedItems: itemIndexes,
+        quotedCredits: quote.totalCredits
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    console.error('Error retrying description job:', error);
+
+    if (error instanceof DescriptionJobNotFoundError) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (error instanceof DescriptionJobStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof UsageCapExceededError) {
+      return NextResponse.json({ error: error.message, resetsAt: error.resetsAt.toISOString() }, { status: 429 });
+    }
+
+    // Check if it's an authentication error
+    if (error instanceof Error && (error.message === 'User not authenticated' || error.message === 'User not found')) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to retry job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { getDescriptionJob, DescriptionJobNotFoundError } from '@/lib/description-job';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getCurrentUser();
+    const job = await getDescriptionJob(user.id, id);
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error fetching description job:', error);
+
+    if (error instanceof DescriptionJobNotFoundError) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if it's an authentication error
+    if (error instanceof Error && (error.message === 'User not authenticated' || error.message === 'User not found')) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { listDescriptionJobs } from '@/lib/description-job';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10') || 10, 50);
+
+    const user = await getCurrentUser();
+    const jobs = await listDescriptionJobs(user.id, limit);
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching description jobs:', error);
+
+    // Check if it's an authentication error
+    if (error instanceof Error && (error.message === 'User not authenticated' || error.message === 'User not found')) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
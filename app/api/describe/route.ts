@@ -1,280 +1,70 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { getCurrentUser, deductCredits } from '@/lib/user';
-import { getSetting } from '@/lib/settings';
-
-const IDEOGRAM_API_URL = 'https://api.ideogram.ai/describe';
-
-interface ProcessResult {
-  success: boolean;
-  imageId?: string;
-  filename: string;
-  description?: string;
-  confidence?: number;
-  source?: string;
-  error?: string;
-}
-
-async function processImage(file: File, userId: string): Promise<ProcessResult> {
+import { getCurrentUser } from '@/lib/user';
+import {
+  readDescribeFiles,
+  assertCanStart,
+  describeSingle,
+  enqueueDescribeJob,
+  describeErrorResponse,
+  withDeprecation
+} from '@/lib/describe-api';
+import { withIdempotency } from '@/lib/idempotency';
+
+// Deprecated: use POST /api/v1/describe?mode=sync-single (or async-job for several images).
+// Single images keep the original response shape; several images are queued for the background worker.
+export async function POST(request: NextRequest) {
   try {
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      return {
-        success: false,
-        filename: file.name,
-        error: 'File must be an image'
-      };
-    }
-
-    // Validate file size (10MB limit)
-    if (file.size > 10 * 1024 * 1024) {
-      return {
-        success: false,
-        filename: file.name,
-        error: 'File size must be less than 10MB'
-      };
-    }
-
-    let description = '';
-    let confidence = 95;
-    let source = 'ideogram';
-
-    // Get Ideogram API key from database (with fallback to env)
-    const IDEOGRAM_API_KEY = await getSetting('IDEOGRAM_API_KEY', 'IDEOGRAM_API_KEY');
-
-    // Try to call Ideogram API
-    if (IDEOGRAM_API_KEY) {
-      try {
-        const ideogramFormData = new FormData();
-        ideogramFormData.append('image_file', file);
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-
-        const ideogramResponse = await fetch(IDEOGRAM_API_URL, {
-          method: 'POST',
-          headers: {
-            'Api-Key': IDEOGRAM_API_KEY,
-          },
-          body: ideogramFormData,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        if (ideogramResponse.ok) {
-          // Check if response is JSON
-          let responseText = '';
-          
-          try {
-            // First, get the response as text to check if it's valid
-            responseText = await ideogramResponse.text();
-            
-            // Check if it looks like JSON (starts with { or [)
-            if (responseText.trim().startsWith('{') || responseText.trim().startsWith('[')) {
-              const result = JSON.parse(responseText);
-              description = result.descriptions?.[0]?.text || result.description || 'No description available';
-              confidence = 95;
-              source = 'ideogram';
-            } else {
-              console.error('Ideogram API returned non-JSON response:', responseText.substring(0, 200));
-              throw new Error('Ideogram API returned invalid response format');
-            }
-          } catch (jsonError) {
-            console.error('Failed to parse Ideogram API response:', jsonError);
-            console.error('Response text:', responseText.substring(0, 200));
-            throw new Error('Invalid JSON response from Ideogram API');
-          }
-        } else {
-          // Handle error responses
-          const contentType = ideogramResponse.headers.get('content-type');
-          let errorMessage = 'Ideogram API request failed';
-          
-          try {
-            if (contentType && contentType.includes('application/json')) {
-              const errorData = await ideogramResponse.json();
-              errorMessage = errorData.message || errorData.error || errorMessage;
-            } else {
-              const errorText = await ideogramResponse.text();
-              console.error('Ideogram API error response:', errorText);
-              errorMessage = `API error (${ideogramResponse.status}): ${errorText.substring(0, 100)}`;
-            }
-          } catch (parseError) {
-            console.error('Failed to parse error response:', parseError);
-          }
-          
-          throw new Error(errorMessage);
-        }
-      } catch (apiError) {
-        console.error('Ideogram API error:', apiError);
-        // Return error instead of fallback description
-        return {
-          success: false,
-          filename: file.name,
-          error: `Failed to describe image: ${apiError instanceof Error ? apiError.message : 'Unknown API error'}`
-        };
-      }
-    } else {
-      // Return error when no API key is available
-      return {
-        success: false,
-        filename: file.name,
-        error: 'Image description service is not available - API key not configured'
-      };
-    }
-
-    // Save to database
-    const savedImage = await prisma.imageDescription.create({
-      data: {
-        userId,
-        filename: file.name,
-        description,
-        confidence,
-        source,
-        fileSize: file.size,
-        mimeType: file.type,
-      },
-    });
+    const user = await getCurrentUser();
 
-    return {
-      success: true,
-      imageId: savedImage.id,
-      filename: file.name,
-      description,
-      confidence,
-      source
-    };
+    // A retried request with the same Idempotency-Key gets the first response back instead of being charged again
+    const response = await withIdempotency(request, user.id, 'describe', () => describe(request, user.id, user.credits));
+    return withDeprecation(response, 'sync-single');
 
   } catch (error) {
-    console.error(`Error processing ${file.name}:`, error);
-    return {
-      success: false,
-      filename: file.name,
-      error: 'Processing failed'
-    };
+    console.error('Error processing image(s):', error);
+    return withDeprecation(describeErrorResponse(error), 'sync-single');
   }
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const formData = await request.formData();
-    
-    // Check if it's a single image or multiple images
-    const singleImage = formData.get('image') as File;
-    const multipleImages = formData.getAll('images') as File[];
-    
-    let files: File[] = [];
-    
-    if (singleImage) {
-      // Single image mode
-      files = [singleImage];
-    } else if (multipleImages && multipleImages.length > 0) {
-      // Bulk mode
-      files = multipleImages;
-    } else {
-      return NextResponse.json(
-        { error: 'No image file(s) provided' },
-        { status: 400 }
-      );
-    }
+async function describe(request: NextRequest, userId: string, credits: number): Promise<Response> {
+  const formData = await request.formData();
 
+  // Single image mode
+  if (formData.get('image')) {
+    const [file] = readDescribeFiles(formData, 'sync-single');
+    await assertCanStart(userId, credits);
 
-
-    // Get authenticated user and check credits
-    const user = await getCurrentUser();
-    const requiredCredits = files.length;
-
-    if (user.credits < requiredCredits) {
-      return NextResponse.json(
-        { 
-          error: 'Insufficient credits',
-          required: requiredCredits,
-          available: user.credits,
-          message: `You need at least ${requiredCredits} credit${requiredCredits > 1 ? 's' : ''} to describe ${requiredCredits > 1 ? 'these images' : 'this image'}.`
-        },
-        { status: 402 }
-      );
-    }
-
-    // Process each image
-    const results: ProcessResult[] = [];
-    let successfulProcessing = 0;
-
-    for (const file of files) {
-      const result = await processImage(file, user.id);
-      results.push(result);
-      
-      if (result.success) {
-        successfulProcessing++;
-      }
-    }
-
-    // Deduct credits only for successfully processed images
-    if (successfulProcessing > 0) {
-      await deductCredits(user.id, successfulProcessing, files.length === 1 ? `Image description for ${files[0].name}` : 'Bulk image description');
-    }
-
-    // Get updated user credits
-    const updatedUser = await prisma.user.findUnique({
-      where: { id: user.id },
-      select: { credits: true }
-    });
-
-    // Return response based on single or bulk mode
-    if (files.length === 1) {
-      // Single image response format
-      const result = results[0];
-      if (result.success) {
-        return NextResponse.json({
-          id: result.imageId,
-          description: result.description,
-          confidence: result.confidence,
-          source: result.source,
-          timestamp: new Date().toISOString(),
-          creditsRemaining: updatedUser?.credits || 0,
-        });
-      } else {
-        return NextResponse.json(
+    const result = await describeSingle(userId, file);
+    if (!result.success) {
+      return withDeprecation(
+        NextResponse.json(
           { error: result.error || 'Failed to process image' },
           { status: 400 }
-        );
-      }
-    } else {
-      // Bulk response format
-      return NextResponse.json({
-        results,
-        summary: {
-          total: files.length,
-          successful: successfulProcessing,
-          failed: files.length - successfulProcessing,
-          creditsUsed: successfulProcessing,
-          remainingCredits: updatedUser?.credits || 0
-        }
-      });
-    }
-
-  } catch (error) {
-    console.error('Error processing image(s):', error);
-    
-    // Check if it's an authentication error
-    if (error instanceof Error && (error.message === 'User not authenticated' || error.message === 'User not found')) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
+        ),
+        'sync-single'
       );
     }
-    
-    // Check if it's a credits error
-    if (error instanceof Error && error.message === 'Insufficient credits') {
-      return NextResponse.json(
-        { error: error.message },
-        { status: 402 }
-      );
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to process image(s)' },
-      { status: 500 }
+
+    return withDeprecation(
+      NextResponse.json({
+        id: result.imageId,
+        description: result.description,
+        confidence: result.confidence,
+        source: result.source,
+        timestamp: new Date().toISOString(),
+        creditsRemaining: result.remainingCredits ?? 0,
+      }),
+      'sync-single'
     );
   }
-}
\ No newline at end of file
+
+  // Bulk mode
+  const files = readDescribeFiles(formData, 'async-job');
+  await assertCanStart(userId, credits);
+
+  const { jobId, statusUrl, quotedCredits } = await enqueueDescribeJob(userId, files);
+  return withDeprecation(
+    NextResponse.json({ jobId, totalItems: files.length, quotedCredits, statusUrl }, { status: 202 }),
+    'async-job'
+  );
+}
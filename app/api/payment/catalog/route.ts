@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  CreditCatalogError,
+  PURCHASE_LOCATIONS,
+  getCreditCatalog,
+  isPurchaseLocation,
+  priceCreditPurchase
+} from '@/lib/credit-catalog';
+import { SubscriptionError, priceSubscriptionPlan } from '@/lib/subscriptions';
+
+// GET /api/payment/catalog?location=pakistan[&credits=1200]
+// Packages and volume tiers for a location; with `credits`, also the price of that purchase.
+// GET /api/payment/catalog?plan=<id> prices one period of a subscription plan instead.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const planId = searchParams.get('plan');
+    if (planId) {
+      return NextResponse.json({ quote: await priceSubscriptionPlan(planId) });
+    }
+
+    const location = searchParams.get('location') || 'pakistan';
+    const credits = searchParams.get('credits');
+
+    if (!isPurchaseLocation(location)) {
+      return NextResponse.json(
+        { error: `Invalid location. Must be one of: ${Object.keys(PURCHASE_LOCATIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const catalog = await getCreditCatalog(location);
+    const quote = credits === null ? null : await priceCreditPurchase(location, Number(credits));
+
+    return NextResponse.json({ catalog, quote });
+  } catch (error) {
+    if (error instanceof CreditCatalogError || error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error fetching credit catalog:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
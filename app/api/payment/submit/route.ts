@@ -2,7 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { uploadToCloudinary } from '@/lib/cloudinary';
+import { CloudinaryUpload, deleteFromCloudinary, uploadToCloudinary } from '@/lib/cloudinary';
+import { withIdempotency } from '@/lib/idempotency';
+import { CreditCatalogError, amountsMatch, isPurchaseLocation, priceCreditPurchase } from '@/lib/credit-catalog';
+import { CouponError, attachCouponToPurchase, previewCoupon } from '@/lib/coupons';
+import { SubscriptionError, SubscriptionQuote, prepareSubscriptionPayment, priceSubscriptionPlan } from '@/lib/subscriptions';
+import {
+  DuplicateTransactionIdError,
+  assertTransactionIdAvailable,
+  findPaymentRiskFlags,
+  hashScreenshot,
+  isDuplicateTransactionId,
+  normalizeTransactionId
+} from '@/lib/payment-risk';
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,93 +34,203 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    const formData = await request.formData();
-    const screenshot = formData.get('screenshot') as File;
-    const credits = formData.get('credits') as string;
-    const amount = formData.get('amount') as string;
-    const transactionId = formData.get('transactionId') as string;
-    const qrCode = formData.get('qrCode') as string;
-    const currency = formData.get('currency') as string || 'PKR';
-    const location = formData.get('location') as string || 'pakistan';
-
-    // Validate required fields (screenshot is now optional)
-    if (!credits || !amount || !transactionId) {
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
-    }
+    // A retried submission with the same Idempotency-Key returns the original request instead of creating another
+    return await withIdempotency(request, user.id, 'payment-submit', () => submitPaymentRequest(request, user.id));
 
-    // Validate file if provided
-    if (screenshot && screenshot.size > 0) {
-      if (!screenshot.type.startsWith('image/')) {
-        return NextResponse.json({ error: 'Invalid file type. Please upload an image.' }, { status: 400 });
-      }
+  } catch (error) {
+    console.error('Payment submission error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+async function submitPaymentRequest(request: NextRequest, userId: string): Promise<Response> {
+  const formData = await request.formData();
+  const screenshot = formData.get('screenshot') as File;
+  const credits = formData.get('credits') as string;
+  const amount = formData.get('amount') as string;
+  const transactionId = formData.get('transactionId') as string;
+  const currency = formData.get('currency') as string || 'PKR';
+  const location = formData.get('location') as string || 'pakistan';
+  const couponCode = (formData.get('couponCode') as string || '').trim();
+  const planId = (formData.get('planId') as string || '').trim();
+  const draftId = (formData.get('draftId') as string || '').trim();
+
+  // Validate required fields (screenshot is now optional)
+  if (!credits || !amount || !transactionId) {
+    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  }
 
-      if (screenshot.size > 5 * 1024 * 1024) { // 5MB limit
-        return NextResponse.json({ error: 'File size too large. Maximum 5MB allowed.' }, { status: 400 });
-      }
+  // Validate file if provided
+  if (screenshot && screenshot.size > 0) {
+    if (!screenshot.type.startsWith('image/')) {
+      return NextResponse.json({ error: 'Invalid file type. Please upload an image.' }, { status: 400 });
     }
 
-    // Validate credits and amount
-    const creditsNum = parseInt(credits);
-    const amountNum = parseFloat(amount);
-
-    if (isNaN(creditsNum) || creditsNum < 10) {
-      return NextResponse.json({ error: 'Invalid credits amount. Minimum 10 credits required.' }, { status: 400 });
+    if (screenshot.size > 5 * 1024 * 1024) { // 5MB limit
+      return NextResponse.json({ error: 'File size too large. Maximum 5MB allowed.' }, { status: 400 });
     }
+  }
 
-    // Validate amount based on currency and location
-    if (location === 'pakistan' && currency === 'PKR') {
-      if (isNaN(amountNum) || amountNum < 20) { // Minimum 20 PKR (10 credits * 2 PKR)
-        return NextResponse.json({ error: 'Invalid amount. Minimum 20 PKR required.' }, { status: 400 });
-      }
-    } else if (location === 'international' && currency === 'USD') {
-      if (isNaN(amountNum) || amountNum < 5) { // Minimum $5 USD
-        return NextResponse.json({ error: 'Invalid amount. Minimum $5 USD required.' }, { status: 400 });
-      }
+  // Validate credits and amount against the server-side catalog
+  const creditsNum = Number(credits);
+  const amountNum = parseFloat(amount);
+
+  if (!isPurchaseLocation(location)) {
+    return NextResponse.json({ error: 'Invalid currency or location combination.' }, { status: 400 });
+  }
+
+  // A plan payment pays for one period of the plan at the plan's price
+  let quote;
+  let planQuote: SubscriptionQuote | null = null;
+  try {
+    if (planId) {
+      planQuote = await priceSubscriptionPlan(planId);
+      quote = planQuote;
     } else {
-      return NextResponse.json({ error: 'Invalid currency or location combination.' }, { status: 400 });
+      quote = await priceCreditPurchase(location, creditsNum);
     }
+  } catch (error) {
+    if (error instanceof CreditCatalogError || error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
 
-    // Validate transaction ID
-    if (transactionId.trim().length < 3) {
-      return NextResponse.json({ error: 'Invalid transaction ID' }, { status: 400 });
+  if (planQuote && (location !== planQuote.location || creditsNum !== planQuote.credits)) {
+    return NextResponse.json({ error: 'The payment details do not match the selected plan.' }, { status: 400 });
+  }
+
+  if (planQuote && draftId) {
+    return NextResponse.json({ error: 'A prepared top-up cannot be used to pay for a plan.' }, { status: 400 });
+  }
+
+  if (planQuote && couponCode) {
+    return NextResponse.json({ error: 'Promo codes cannot be used with subscription plans.' }, { status: 400 });
+  }
+
+  if (currency !== quote.currency) {
+    return NextResponse.json({ error: 'Invalid currency or location combination.' }, { status: 400 });
+  }
+
+  if (isNaN(amountNum) || !amountsMatch(amountNum, quote.amount)) {
+    return NextResponse.json(
+      { error: `Invalid amount. ${quote.credits} credits cost ${quote.amount} ${quote.currency}.` },
+      { status: 400 }
+    );
+  }
+
+  // Validate transaction ID; one payment can only back one request per payment method
+  const transactionIdKey = normalizeTransactionId(transactionId.trim());
+  if (transactionIdKey.length < 3) {
+    return NextResponse.json({ error: 'Invalid transaction ID' }, { status: 400 });
+  }
+
+  try {
+    await assertTransactionIdAvailable(quote.paymentMethod, transactionIdKey);
+  } catch (error) {
+    if (error instanceof DuplicateTransactionIdError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
     }
+    throw error;
+  }
 
-    // Upload screenshot to Cloudinary if provided
-    let screenshotUrl = null;
-    if (screenshot && screenshot.size > 0) {
-      screenshotUrl = await uploadToCloudinary(screenshot, 'payment-screenshots');
+  // Check the promo code before uploading anything; it is set aside for this request below
+  if (couponCode) {
+    try {
+      await previewCoupon(couponCode, userId, quote.credits);
+    } catch (error) {
+      if (error instanceof CouponError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
     }
+  }
+
+  // Upload screenshot to Cloudinary if provided, keeping its hash to spot reused screenshots
+  let screenshotUpload: CloudinaryUpload | null = null;
+  let screenshotHash = null;
+  if (screenshot && screenshot.size > 0) {
+    screenshotHash = await hashScreenshot(screenshot);
+    screenshotUpload = await uploadToCloudinary(screenshot, 'payment-screenshots');
+  }
 
-    // Determine payment method based on location
-    const paymentMethod = location === 'pakistan' ? 'QR_CODE' : 'BINANCE';
-
-    // Save payment request to database
-    const paymentRequest = await prisma.paymentRequest.create({
-      data: {
-        userId: session.user.id,
-        creditsRequested: creditsNum,
-        amount: amountNum,
-        currency: currency,
-        location: location,
-        paymentMethod: paymentMethod,
+  // Save payment request to database, together with the promo code bonus it will earn or the plan it pays for
+  let saved;
+  try {
+    saved = await prisma.$transaction(async (tx) => {
+      const subscriptionId = planQuote ? await prepareSubscriptionPayment(tx, userId, planQuote.planId) : null;
+
+      // A draft prepared by a low-balance alert becomes the request; one already discarded is replaced
+      const draft = draftId
+        ? await tx.paymentRequest.findFirst({ where: { id: draftId, userId, status: 'DRAFT' }, select: { id: true } })
+        : null;
+
+      const riskFlags = await findPaymentRiskFlags(tx, {
+        paymentMethod: quote.paymentMethod,
+        transactionIdKey,
+        screenshotHash,
+        excludeId: draft?.id
+      });
+
+      const data = {
+        userId,
+        creditsRequested: quote.credits,
+        amount: quote.amount,
+        currency: quote.currency,
+        location: quote.location,
+        paymentMethod: quote.paymentMethod,
         transactionId: transactionId.trim(),
-        qrCodeUsed: qrCode || null,
-        screenshotUrl: screenshotUrl,
-        status: 'PENDING',
-      },
-    });
+        transactionIdKey,
+        qrCodeUsed: quote.qrCode,
+        screenshotUrl: screenshotUpload?.url ?? null,
+        screenshotHash,
+        riskFlags: riskFlags.length > 0 ? riskFlags : undefined,
+        status: 'PENDING' as const,
+        subscriptionId,
+        events: {
+          create: { actorId: userId, fromStatus: draft ? 'DRAFT' as const : null, toStatus: 'PENDING' as const }
+        },
+      };
+
+      const paymentRequest = draft
+        ? await tx.paymentRequest.update({ where: { id: draft.id }, data })
+        : await tx.paymentRequest.create({ data });
+
+      // The user is topping up, so any other prepared top-up is no longer needed
+      if (!planQuote) {
+        await tx.paymentRequest.deleteMany({
+          where: { userId, status: 'DRAFT', id: { not: paymentRequest.id } }
+        });
+      }
 
-    return NextResponse.json({
-      success: true,
-      message: 'Payment request submitted successfully',
-      requestId: paymentRequest.id,
-    });
+      const bonusCredits = couponCode
+        ? await attachCouponToPurchase(tx, couponCode, userId, paymentRequest.id, quote.credits)
+        : 0;
 
+      return { paymentRequest, bonusCredits };
+    });
   } catch (error) {
-    console.error('Payment submission error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    // No request refers to the screenshot, so it is not kept
+    if (screenshotUpload) {
+      await deleteFromCloudinary(screenshotUpload.publicId);
+    }
+    if (error instanceof CouponError || error instanceof SubscriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // Lost a race with another request for the same transaction ID
+    if (isDuplicateTransactionId(error)) {
+      return NextResponse.json({ error: new DuplicateTransactionIdError().message }, { status: 409 });
+    }
+    throw error;
   }
+
+  return NextResponse.json({
+    success: true,
+    message: 'Payment request submitted successfully',
+    requestId: saved.paymentRequest.id,
+    bonusCredits: saved.bonusCredits,
+  });
 }
\ No newline at end of file
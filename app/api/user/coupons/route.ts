@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { CouponError, previewCoupon, redeemCreditCoupon } from '@/lib/coupons';
+
+function couponErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof CouponError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  // Check if it's an authentication error
+  if (error instanceof Error && (error.message === 'User not authenticated' || error.message === 'User not found')) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/user/coupons?code=SPRING10[&credits=1000] - Check a promo code without using it
+// With `credits`, a purchase bonus is worked out for a purchase of that size.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    const { searchParams } = new URL(request.url);
+    const credits = searchParams.get('credits');
+
+    const coupon = await previewCoupon(
+      searchParams.get('code'),
+      user.id,
+      credits === null ? undefined : Number(credits) || 0
+    );
+
+    return NextResponse.json({ coupon });
+  } catch (error) {
+    if (!(error instanceof CouponError)) {
+      console.error('Error checking coupon:', error);
+    }
+    return couponErrorResponse(error, 'Failed to check promo code');
+  }
+}
+
+// POST /api/user/coupons - Redeem a promo code that adds free credits
+// Body: { code }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    const { code } = await request.json().catch(() => ({}));
+
+    const redemption = await redeemCreditCoupon(code, user.id);
+
+    return NextResponse.json({
+      message: `${redemption.credits} credits added to your account`,
+      credits: redemption.credits,
+      newBalance: redemption.newBalance
+    });
+  } catch (error) {
+    if (!(error instanceof CouponError)) {
+      console.error('Error redeeming coupon:', error);
+    }
+    return couponErrorResponse(error, 'Failed to redeem promo code');
+  }
+}
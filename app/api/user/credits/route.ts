@@ -1,15 +1,24 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/user';
+import { prisma } from '@/lib/prisma';
 
 export async function GET() {
   try {
     const user = await getCurrentUser();
+
+    // Credits from lots with an expiry, soonest first, so the user can spend them in time
+    const expiringLots = await prisma.creditLot.findMany({
+      where: { userId: user.id, remaining: { gt: 0 }, expiresAt: { gt: new Date() } },
+      orderBy: { expiresAt: 'asc' },
+      select: { remaining: true, expiresAt: true }
+    });
     
     return NextResponse.json({
       credits: user.credits,
       userId: user.id,
       email: user.email,
       name: user.name,
+      expiringCredits: expiringLots.map((lot) => ({ credits: lot.remaining, expiresAt: lot.expiresAt })),
     });
   } catch (error) {
     console.error('Error fetching user credits:', error);
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { countUnreadNotifications, listNotifications, markNotificationsRead } from '@/lib/notifications';
+import {
+  LowBalanceAlertError,
+  getLowBalanceSettings,
+  parseLowBalanceSettings,
+  updateLowBalanceSettings
+} from '@/lib/low-balance-alerts';
+
+function notificationErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof LowBalanceAlertError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  // Check if it's an authentication error
+  if (error instanceof Error && (error.message === 'User not authenticated' || error.message === 'User not found')) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/user/notifications[?countOnly=true] - The user's notifications, unread count and low-balance alert settings
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    const countOnly = new URL(request.url).searchParams.get('countOnly') === 'true';
+
+    if (countOnly) {
+      return NextResponse.json({ unreadCount: await countUnreadNotifications(user.id) });
+    }
+
+    const [notifications, unreadCount, settings] = await Promise.all([
+      listNotifications(user.id),
+      countUnreadNotifications(user.id),
+      getLowBalanceSettings(user.id)
+    ]);
+
+    return NextResponse.json({ notifications, unreadCount, settings });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return notificationErrorResponse(error, 'Failed to fetch notifications');
+  }
+}
+
+// POST /api/user/notifications - Mark notifications read
+// Body: { ids?: string[] }; without ids every notification is marked read
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    const { ids } = await request.json().catch(() => ({}));
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string'))) {
+      return NextResponse.json({ error: 'ids must be a list of notification IDs' }, { status: 400 });
+    }
+
+    await markNotificationsRead(user.id, ids);
+
+    return NextResponse.json({ unreadCount: await countUnreadNotifications(user.id) });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return notificationErrorResponse(error, 'Failed to update notifications');
+  }
+}
+
+// PATCH /api/user/notifications - Change the low-balance alert settings
+// Body: { lowBalanceThreshold: number | null, autoTopUpDraft: boolean }
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    const body = await request.json().catch(() => ({}));
+
+    const settings = await updateLowBalanceSettings(user.id, parseLowBalanceSettings(body));
+
+    return NextResponse.json({
+      message: settings.lowBalanceThreshold === null
+        ? 'Low-balance alerts are off'
+        : `You will be notified when your balance drops below ${settings.lowBalanceThreshold} credits`,
+      settings
+    });
+  } catch (error) {
+    if (!(error instanceof LowBalanceAlertError)) {
+      console.error('Error updating alert settings:', error);
+    }
+    return notificationErrorResponse(error, 'Failed to update alert settings');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { PaymentLifecycleError, cancelPaymentRequest, parsePaymentNote } from '@/lib/payment-lifecycle';
+
+// POST /api/user/payment-requests/[id]/cancel - Withdraw a request that has not been decided yet
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const existing = await prisma.paymentRequest.findFirst({
+      where: { id, userId: session.user.id, status: { not: 'DRAFT' } },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Payment request not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const paymentRequest = await cancelPaymentRequest(session.user.id, id, parsePaymentNote(body.note));
+
+    return NextResponse.json({
+      message: 'Payment request cancelled',
+      paymentRequest: { id: paymentRequest.id, status: paymentRequest.status }
+    });
+
+  } catch (error) {
+    if (error instanceof PaymentLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error cancelling payment request:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { deleteFromCloudinary, uploadToCloudinary } from '@/lib/cloudinary';
+import {
+  OPEN_PAYMENT_STATUSES,
+  PaymentLifecycleError,
+  parsePaymentNote,
+  transitionPaymentRequest
+} from '@/lib/payment-lifecycle';
+import {
+  DuplicateTransactionIdError,
+  assertTransactionIdAvailable,
+  findPaymentRiskFlags,
+  hashScreenshot,
+  isDuplicateTransactionId,
+  normalizeTransactionId
+} from '@/lib/payment-risk';
+
+// POST /api/user/payment-requests/[id]/resubmit - Correct the transaction ID or screenshot of an open request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const existing = await prisma.paymentRequest.findFirst({
+      where: { id, userId: session.user.id, status: { not: 'DRAFT' } },
+      select: { id: true, status: true, paymentMethod: true, transactionIdKey: true, screenshotHash: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Payment request not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!OPEN_PAYMENT_STATUSES.includes(existing.status)) {
+      return NextResponse.json(
+        { error: 'Only payment requests that have not been decided yet can be changed' },
+        { status: 400 }
+      );
+    }
+
+    const formData = await request.formData();
+    const screenshot = formData.get('screenshot') as File | null;
+    const transactionId = (formData.get('transactionId') as string || '').trim();
+    const note = parsePaymentNote(formData.get('note'));
+
+    // Validate transaction ID; a new one must not back another request
+    const transactionIdKey = normalizeTransactionId(transactionId);
+    if (transactionIdKey.length < 3) {
+      return NextResponse.json({ error: 'Invalid transaction ID' }, { status: 400 });
+    }
+
+    if (transactionIdKey !== existing.transactionIdKey) {
+      await assertTransactionIdAvailable(existing.paymentMethod, transactionIdKey);
+    }
+
+    // Validate file if provided; without one the current screenshot is kept
+    const hasScreenshot = screenshot && screenshot.size > 0;
+    if (hasScreenshot) {
+      if (!screenshot.type.startsWith('image/')) {
+        return NextResponse.json({ error: 'Invalid file type. Please upload an image.' }, { status: 400 });
+      }
+
+      if (screenshot.size > 5 * 1024 * 1024) { // 5MB limit
+        return NextResponse.json({ error: 'File size too large. Maximum 5MB allowed.' }, { status: 400 });
+      }
+    }
+
+    if (!hasScreenshot && transactionIdKey === existing.transactionIdKey && !note) {
+      return NextResponse.json(
+        { error: 'Change the transaction ID, upload a new screenshot or add a note' },
+        { status: 400 }
+      );
+    }
+
+    const screenshotHash = hasScreenshot ? await hashScreenshot(screenshot) : existing.screenshotHash;
+    const screenshotUpload = hasScreenshot ? await uploadToCloudinary(screenshot, 'payment-screenshots') : undefined;
+
+    const paymentRequest = await prisma.$transaction(async (tx) => {
+      // Check the corrected details against earlier requests again
+      const riskFlags = await findPaymentRiskFlags(tx, {
+        paymentMethod: existing.paymentMethod,
+        transactionIdKey,
+        screenshotHash,
+        excludeId: id
+      });
+
+      return transitionPaymentRequest(tx, {
+        paymentRequestId: id,
+        userId: session.user.id,
+        from: OPEN_PAYMENT_STATUSES,
+        to: 'RESUBMITTED',
+        actorId: session.user.id,
+        note,
+        data: {
+          transactionId,
+          transactionIdKey,
+          ...(screenshotUpload ? { screenshotUrl: screenshotUpload.url, screenshotHash } : {}),
+          riskFlags: riskFlags.length > 0 ? riskFlags : Prisma.DbNull
+        }
+      });
+    }).catch(async (error) => {
+      // The request keeps its current screenshot, so the new upload is not kept
+      if (screenshotUpload) {
+        await deleteFromCloudinary(screenshotUpload.publicId);
+      }
+      throw error;
+    });
+
+    return NextResponse.json({
+      message: 'Payment request resubmitted for review',
+      paymentRequest: { id: paymentRequest.id, status: paymentRequest.status }
+    });
+
+  } catch (error) {
+    if (error instanceof PaymentLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // Another request holds the new transaction ID
+    if (error instanceof DuplicateTransactionIdError || isDuplicateTransactionId(error)) {
+      return NextResponse.json({ error: new DuplicateTransactionIdError().message }, { status: 409 });
+    }
+    console.error('Error resubmitting payment request:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
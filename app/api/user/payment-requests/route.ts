@@ -14,10 +14,11 @@ export async function GET(_request: NextRequest) {
       );
     }
 
-    // Fetch user's payment requests
+    // Fetch user's payment requests; drafts are reached through their low-balance notification
     const paymentRequests = await prisma.paymentRequest.findMany({
       where: {
-        userId: session.user.id
+        userId: session.user.id,
+        status: { not: 'DRAFT' }
       },
       select: {
         id: true,
@@ -29,9 +30,35 @@ export async function GET(_request: NextRequest) {
         transactionId: true,
         status: true,
         adminNotes: true,
+        creditsGranted: true,
+        adjustmentReason: true,
         createdAt: true,
         updatedAt: true,
-        processedAt: true
+        processedAt: true,
+        couponRedemption: {
+          select: {
+            credits: true,
+            status: true,
+            coupon: { select: { code: true } }
+          }
+        },
+        subscription: {
+          select: {
+            plan: { select: { name: true } }
+          }
+        },
+        // Status history with the notes exchanged with the admins, oldest first
+        events: {
+          select: {
+            id: true,
+            fromStatus: true,
+            toStatus: true,
+            note: true,
+            createdAt: true,
+            actor: { select: { role: true } }
+          },
+          orderBy: { createdAt: 'asc' }
+        }
       },
       orderBy: {
         createdAt: 'desc'
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import { isPurchaseLocation } from '@/lib/credit-catalog';
+import {
+  SubscriptionError,
+  getSubscriptionOverview,
+  listSubscriptionPlans,
+  setCancelAtPeriodEnd
+} from '@/lib/subscriptions';
+
+function subscriptionErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof SubscriptionError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  // Check if it's an authentication error
+  if (error instanceof Error && (error.message === 'User not authenticated' || error.message === 'User not found')) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/user/subscription[?location=pakistan] - The user's subscription with allowance usage, and the plans on offer
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    const location = new URL(request.url).searchParams.get('location');
+
+    const [subscription, plans] = await Promise.all([
+      getSubscriptionOverview(user.id),
+      listSubscriptionPlans(isPurchaseLocation(location) ? location : undefined)
+    ]);
+
+    return NextResponse.json({ subscription, plans });
+  } catch (error) {
+    console.error('Error fetching subscription:', error);
+    return subscriptionErrorResponse(error, 'Failed to fetch subscription');
+  }
+}
+
+// POST /api/user/subscription - Stop or resume renewing at the end of the current period
+// Body: { action: 'cancel' | 'resume' }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    const { action } = await request.json().catch(() => ({}));
+
+    if (action !== 'cancel' && action !== 'resume') {
+      return NextResponse.json({ error: "action must be 'cancel' or 'resume'" }, { status: 400 });
+    }
+
+    await setCancelAtPeriodEnd(user.id, action === 'cancel');
+
+    return NextResponse.json({
+      message: action === 'cancel' ? 'Your plan will not renew' : 'Your plan will renew',
+      subscription: await getSubscriptionOverview(user.id)
+    });
+  } catch (error) {
+    if (!(error instanceof SubscriptionError)) {
+      console.error('Error updating subscription:', error);
+    }
+    return subscriptionErrorResponse(error, 'Failed to update subscription');
+  }
+}
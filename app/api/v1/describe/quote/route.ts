@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import {
+  DescribeRequestError,
+  MAX_FILES_PER_REQUEST,
+  parseDescribeOutputs,
+  describeErrorResponse
+} from '@/lib/describe-api';
+import { quoteDescriptionBatch } from '@/lib/pricing';
+
+// POST /api/v1/describe/quote - Price a batch before it is uploaded
+// Body: { files: [{ name, size }], outputs?: string[], language?: string }
+// Only file names and sizes are sent; the quote uses the current rules and active provider.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    const body = await request.json().catch(() => ({}));
+
+    const files: unknown[] = Array.isArray(body.files) ? body.files : [];
+    if (files.length === 0) {
+      throw new DescribeRequestError('No files to quote');
+    }
+    if (files.length > MAX_FILES_PER_REQUEST) {
+      throw new DescribeRequestError(`Too many files. Maximum ${MAX_FILES_PER_REQUEST} files allowed per request.`);
+    }
+
+    const quoteFiles = files.map((file, index) => {
+      const { name, size } = (file || {}) as { name?: unknown; size?: unknown };
+      if (typeof size !== 'number' || !Number.isFinite(size) || size < 0) {
+        throw new DescribeRequestError(`Invalid size for file ${index + 1}`);
+      }
+      return { filename: typeof name === 'string' ? name : `file-${index + 1}`, fileSize: size };
+    });
+
+    const outputs = parseDescribeOutputs(
+      Array.isArray(body.outputs) ? body.outputs : [body.outputs],
+      body.language
+    );
+    const quote = await quoteDescriptionBatch(quoteFiles, outputs);
+
+    // Batches run in order and stop at the first image the balance no longer covers
+    let affordableItems = 0;
+    let spent = 0;
+    for (const item of quote.items) {
+      if (spent + item.credits > user.credits) break;
+      spent += item.credits;
+      affordableItems++;
+    }
+
+    return NextResponse.json({
+      ...quote,
+      balance: user.credits,
+      affordableItems
+    });
+
+  } catch (error) {
+    console.error('Error quoting describe request:', error);
+    return describeErrorResponse(error);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/user';
+import {
+  DESCRIBE_MODES,
+  DescribeRequestError,
+  isDescribeMode,
+  readDescribeFiles,
+  readDescribeOutputs,
+  assertCanStart,
+  describeSingle,
+  streamDescribeBatch,
+  enqueueDescribeJob,
+  describeErrorResponse
+} from '@/lib/describe-api';
+import { withIdempotency } from '@/lib/idempotency';
+
+// POST /api/v1/describe?mode=sync-single|streamed-bulk|async-job
+// The mode may also be sent as a `mode` form field. An Idempotency-Key header is honoured.
+// Extra outputs: repeated `outputs` fields (long_description, keywords, translation) and `language`.
+// POST /api/v1/describe/quote prices a batch before it is uploaded.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const mode = new URL(request.url).searchParams.get('mode') || formData.get('mode');
+
+    if (!isDescribeMode(mode)) {
+      throw new DescribeRequestError(`Invalid mode. Must be one of: ${DESCRIBE_MODES.join(', ')}`);
+    }
+
+    const files = readDescribeFiles(formData, mode);
+    const outputs = readDescribeOutputs(formData);
+    const user = await getCurrentUser();
+
+    // JSON responses are replayed for a repeated Idempotency-Key; a streamed batch is not run again.
+    // Credits and usage caps are only checked for a new request, so a replay is not refused by them.
+    return await withIdempotency(request, user.id, `v1-describe:${mode}`, async () => {
+      await assertCanStart(user.id, user.credits);
+
+      switch (mode) {
+        case 'sync-single': {
+          const result = await describeSingle(user.id, files[0], outputs);
+          if (result.success) {
+            return NextResponse.json({ mode, result });
+          }
+          return NextResponse.json(
+            { mode, result, error: result.error },
+            { status: result.usageCapResetsAt ? 429 : result.error?.includes('Insufficient credits') ? 402 : 422 }
+          );
+        }
+
+        case 'streamed-bulk':
+          return streamDescribeBatch(user.id, files, outputs);
+
+        case 'async-job': {
+          const { jobId, statusUrl, quotedCredits } = await enqueueDescribeJob(user.id, files, outputs);
+          return NextResponse.json(
+            { mode, jobId, totalItems: files.length, quotedCredits, statusUrl },
+            { status: 202 }
+          );
+        }
+      }
+    }, formData);
+  } catch (error) {
+    console.error('Error handling describe request:', error);
+    return describeErrorResponse(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PaymentWebhookError, receivePaymentWebhook } from '@/lib/payment-webhooks';
+
+const MAX_BODY_SIZE = 64 * 1024;
+
+// POST /api/webhooks/payments - Signed payment notification from a provider; see lib/payment-webhooks.ts
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.text();
+
+    if (Buffer.byteLength(body) > MAX_BODY_SIZE) {
+      return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+    }
+
+    const result = await receivePaymentWebhook({
+      deliveryId: request.headers.get('x-webhook-id'),
+      timestamp: request.headers.get('x-webhook-timestamp'),
+      signature: request.headers.get('x-webhook-signature'),
+      body
+    });
+
+    switch (result.status) {
+      case 'INVALID_SIGNATURE':
+      case 'STALE':
+        return NextResponse.json({ error: result.detail }, { status: 401 });
+      case 'INVALID_PAYLOAD':
+        return NextResponse.json({ error: result.detail }, { status: 400 });
+      default:
+        // Received and handled, even if nothing was approved; the sender should not retry
+        return NextResponse.json({ received: true, status: result.status, detail: result.detail });
+    }
+  } catch (error) {
+    if (error instanceof PaymentWebhookError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error('Error receiving payment webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -11,27 +11,34 @@ import { Alert } from '@/components/ui/alert';
 import { Button } from '@/components/ui/Button';
 
 interface CreditPackage {
+  id: string;
   credits: number;
   price: number;
-  popular?: boolean;
-  qrCode: string;
-  currency: string;
+  popular: boolean;
+  qrCode: string | null;
 }
 
-type LocationType = 'pakistan' | 'international';
+interface CreditPriceTier {
+  id: string;
+  minCredits: number;
+  unitPrice: number;
+  discountPercent: number;
+}
+
+// Prices come from the server-side catalog (/api/payment/catalog), which the submit route also checks against
+interface CreditCatalog {
+  currency: string;
+  minCustomCredits: number | null;
+  packages: CreditPackage[];
+  tiers: CreditPriceTier[];
+}
 
-const pakistanPackages: CreditPackage[] = [
-  { credits: 500, price: 1000, qrCode: '1000 Rs 500 Cradit.png', currency: 'PKR' },
-  { credits: 1000, price: 2000, qrCode: '2000Rs 1000 Cradit.png', popular: true, currency: 'PKR' },
-  { credits: 1500, price: 3000, qrCode: '3000Rs 1500 Cradit.png', currency: 'PKR' },
-  { credits: 2000, price: 4000, qrCode: '4000 Rs 2000 Cradit.png', currency: 'PKR' },
-  { credits: 2500, price: 5000, qrCode: '5000 Rs 2500 Cradit.png', currency: 'PKR' },
-];
+interface AppliedCoupon {
+  code: string;
+  value: number; // Percent bonus on the purchase
+}
 
-const internationalPackages: CreditPackage[] = [
-  { credits: 500, price: 5, qrCode: 'Binance 10$ equal to 1000 cradit.png', currency: 'USD' },
-  { credits: 1000, price: 10, qrCode: 'Binance 10$ equal to 1000 cradit.png', popular: true, currency: 'USD' },
-];
+type LocationType = 'pakistan' | 'international';
 
 export default function BuyCreditsPage() {
   const { data: session, status } = useSession();
@@ -42,6 +49,11 @@ export default function BuyCreditsPage() {
   const [customPrice, setCustomPrice] = useState('');
   const [isCustom, setIsCustom] = useState(false);
   const [error, setError] = useState('');
+  const [catalog, setCatalog] = useState<CreditCatalog | null>(null);
+  const [promoCode, setPromoCode] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const [promoMessage, setPromoMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
 
   useEffect(() => {
     if (status === 'loading') return;
@@ -51,12 +63,69 @@ export default function BuyCreditsPage() {
     }
   }, [session, status, router]);
 
+  useEffect(() => {
+    if (!session) return;
+
+    const controller = new AbortController();
+    const fetchCatalog = async () => {
+      try {
+        const response = await fetch(`/api/payment/catalog?location=${location}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load credit packages');
+        }
+        setCatalog(data.catalog);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error fetching credit catalog:', error);
+          setError('Failed to load credit packages');
+        }
+      }
+    };
+    fetchCatalog();
+
+    return () => controller.abort();
+  }, [session, location]);
+
+  // Price custom amounts on the server so volume tiers are applied exactly as on submission
+  useEffect(() => {
+    const creditsNum = parseInt(customCredits);
+    if (!isCustom || !creditsNum || creditsNum <= 0) {
+      setCustomPrice('');
+      return;
+    }
+
+    const controller = new AbortController();
+    const fetchQuote = async () => {
+      try {
+        const response = await fetch(
+          `/api/payment/catalog?location=${location}&credits=${creditsNum}`,
+          { signal: controller.signal }
+        );
+        const data = await response.json();
+        setCustomPrice(response.ok ? data.quote.amount.toString() : '');
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error pricing custom credits:', error);
+          setCustomPrice('');
+        }
+      }
+    };
+    fetchQuote();
+
+    return () => controller.abort();
+  }, [isCustom, customCredits, location]);
+
   const getCurrentPackages = () => {
-    return location === 'pakistan' ? pakistanPackages : internationalPackages;
+    return catalog?.packages || [];
   };
 
+  const currencySymbol = catalog?.currency === 'USD' ? '$' : '₨';
+  const minCustomCredits = catalog?.minCustomCredits ?? null;
+
   const handleLocationChange = (newLocation: LocationType) => {
     setLocation(newLocation);
+    setCatalog(null);
     setSelectedPackage(null);
     setIsCustom(false);
     setCustomCredits('');
@@ -74,76 +143,92 @@ export default function BuyCreditsPage() {
     setSelectedPackage(null);
   };
 
-  const calculateCustomPrice = (credits: string) => {
-    const creditsNum = parseInt(credits);
-    if (creditsNum && creditsNum > 0) {
-      let price: number;
-      if (location === 'pakistan') {
-        // Rate: 2 PKR per credit
-        price = creditsNum * 2;
-      } else {
-        // Rate: $0.01 USD per credit (500 credits = $5, 1000 credits = $10)
-        price = creditsNum * 0.01;
+  const handleCustomCreditsChange = (value: string) => {
+    setCustomCredits(value);
+  };
+
+  // Free-credit codes are redeemed straight away; purchase bonus codes go along with the purchase
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) return;
+
+    setIsApplyingPromo(true);
+    setPromoMessage(null);
+    try {
+      const checkResponse = await fetch(`/api/user/coupons?code=${encodeURIComponent(promoCode.trim())}`);
+      const checkData = await checkResponse.json();
+      if (!checkResponse.ok) {
+        throw new Error(checkData.error || 'Failed to check promo code');
       }
-      setCustomPrice(price.toString());
-    } else {
-      setCustomPrice('');
+
+      if (checkData.coupon.type === 'PERCENT_BONUS') {
+        setAppliedCoupon({ code: checkData.coupon.code, value: checkData.coupon.value });
+        setPromoMessage({
+          type: 'success',
+          text: `${checkData.coupon.code} applied: ${checkData.coupon.value}% bonus credits once your payment is approved`
+        });
+        return;
+      }
+
+      const redeemResponse = await fetch('/api/user/coupons', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code: checkData.coupon.code }),
+      });
+      const redeemData = await redeemResponse.json();
+      if (!redeemResponse.ok) {
+        throw new Error(redeemData.error || 'Failed to redeem promo code');
+      }
+
+      setPromoCode('');
+      setPromoMessage({ type: 'success', text: `${redeemData.message}. New balance: ${redeemData.newBalance} credits` });
+    } catch (error) {
+      setPromoMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to apply promo code' });
+    } finally {
+      setIsApplyingPromo(false);
     }
   };
 
-  const handleCustomCreditsChange = (value: string) => {
-    setCustomCredits(value);
-    calculateCustomPrice(value);
+  const handleRemovePromo = () => {
+    setAppliedCoupon(null);
+    setPromoCode('');
+    setPromoMessage(null);
   };
 
+  const selectedCredits = isCustom ? parseInt(customCredits) || 0 : selectedPackage?.credits || 0;
+
   const handleProceedToPayment = () => {
     let credits: number;
-    let amount: number;
-    let qrCode: string;
-    let currency: string;
 
     if (isCustom) {
       credits = parseInt(customCredits);
-      amount = parseFloat(customPrice);
-      currency = location === 'pakistan' ? 'PKR' : 'USD';
-      
-      if (!credits || credits < 250) {
-        setError('Minimum 250 credits required for custom purchase');
+
+      if (minCustomCredits === null) {
+        setError('Custom amounts are not available, please choose a package');
         return;
       }
-      
-      if (location === 'pakistan') {
-        if (!amount || amount < 500) {
-          setError('Minimum amount is 500 PKR (250 credits)');
-          return;
-        }
-      } else {
-        if (!amount || amount < 2.5) {
-          setError('Minimum amount is $2.50 USD (250 credits)');
-          return;
-        }
+
+      if (!credits || credits < minCustomCredits) {
+        setError(`Minimum ${minCustomCredits} credits required for custom purchase`);
+        return;
       }
-      
-      qrCode = location === 'pakistan' ? 'Custom 2pkr for 1 cradit.png' : 'Binance 10$ equal to 1000 cradit.png';
     } else if (selectedPackage) {
       credits = selectedPackage.credits;
-      amount = selectedPackage.price;
-      qrCode = selectedPackage.qrCode;
-      currency = selectedPackage.currency;
     } else {
       setError('Please select a credit package');
       return;
     }
 
-    // Navigate to payment page with selected options
+    // The payment page prices the purchase from the catalog again, so only the selection is passed on
     const params = new URLSearchParams({
       credits: credits.toString(),
-      amount: amount.toString(),
-      qrCode: qrCode,
-      currency: currency,
       location: location
     });
-    
+    if (appliedCoupon) {
+      params.set('coupon', appliedCoupon.code);
+    }
+
     router.push(`/app/buy-credits/payment?${params.toString()}`);
   };
 
@@ -207,7 +292,7 @@ export default function BuyCreditsPage() {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {getCurrentPackages().map((pkg) => (
             <Card
-              key={pkg.credits}
+              key={pkg.id}
               className={`relative cursor-pointer transition-all duration-300 transform hover:scale-105 ${
                 selectedPackage?.credits === pkg.credits && !isCustom
                   ? 'ring-2 ring-blue-500 border-blue-500 shadow-xl shadow-blue-500/25 bg-gradient-to-br from-blue-50 to-purple-50'
@@ -228,37 +313,48 @@ export default function BuyCreditsPage() {
                 </div>
                 <div className="text-slate-600 mb-6 font-medium">Credits</div>
                 <div className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4">
-                  {pkg.currency === 'PKR' ? '₨' : '$'}{pkg.price}
+                  {currencySymbol}{pkg.price}
                 </div>
                 <div className="text-sm text-slate-500 bg-slate-100 px-3 py-1 rounded-full inline-block">
-                  {pkg.currency === 'PKR' ? '₨' : '$'}{(pkg.price / pkg.credits).toFixed(pkg.currency === 'PKR' ? 1 : 3)} per credit
+                  {currencySymbol}{(pkg.price / pkg.credits).toFixed(catalog?.currency === 'USD' ? 3 : 1)} per credit
                 </div>
               </div>
             </Card>
           ))}
 
           {/* Custom Package */}
-          <Card
-            className={`cursor-pointer transition-all duration-300 transform hover:scale-105 ${
-              isCustom
-                ? 'ring-2 ring-blue-500 border-blue-500 shadow-xl shadow-blue-500/25 bg-gradient-to-br from-blue-50 to-purple-50'
-                : 'hover:shadow-xl border-slate-200 bg-white hover:border-slate-300'
-            }`}
-            onClick={handleCustomSelect}
-          >
-            <div className="p-8 text-center">
-              <div className="text-4xl font-bold text-slate-900 mb-2">
-                Custom
-              </div>
-              <div className="text-slate-600 mb-6 font-medium">Credits</div>
-              <div className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4">
-                {location === 'pakistan' ? '₨2/credit' : '$0.01/credit'}
-              </div>
-              <div className="text-sm text-slate-500 bg-slate-100 px-3 py-1 rounded-full inline-block">
-                Choose your amount
+          {minCustomCredits !== null && (
+            <Card
+              className={`cursor-pointer transition-all duration-300 transform hover:scale-105 ${
+                isCustom
+                  ? 'ring-2 ring-blue-500 border-blue-500 shadow-xl shadow-blue-500/25 bg-gradient-to-br from-blue-50 to-purple-50'
+                  : 'hover:shadow-xl border-slate-200 bg-white hover:border-slate-300'
+              }`}
+              onClick={handleCustomSelect}
+            >
+              <div className="p-8 text-center">
+                <div className="text-4xl font-bold text-slate-900 mb-2">
+                  Custom
+                </div>
+                <div className="text-slate-600 mb-6 font-medium">Credits</div>
+                <div className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4">
+                  {currencySymbol}{catalog?.tiers[0]?.unitPrice}/credit
+                </div>
+                <div className="text-sm text-slate-500 bg-slate-100 px-3 py-1 rounded-full inline-block">
+                  Choose your amount
+                </div>
+                {catalog && catalog.tiers.length > 1 && (
+                  <div className="mt-3 space-y-1 text-xs text-green-700">
+                    {catalog.tiers.slice(1).map((tier) => (
+                      <div key={tier.id}>
+                        {tier.minCredits}+ credits: {currencySymbol}{tier.unitPrice}/credit ({tier.discountPercent}% off)
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
-            </div>
-          </Card>
+            </Card>
+          )}
         </div>
       </div>
 
@@ -269,11 +365,11 @@ export default function BuyCreditsPage() {
             <h3 className="text-xl font-bold text-slate-900 mb-6 text-center">Custom Package</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="customCredits">Number of Credits (min: 250)</Label>
+                <Label htmlFor="customCredits">Number of Credits (min: {minCustomCredits})</Label>
                 <Input
                   id="customCredits"
                   type="number"
-                  min="250"
+                  min={minCustomCredits ?? undefined}
                   value={customCredits}
                   onChange={(e) => handleCustomCreditsChange(e.target.value)}
                   placeholder="Enter credits amount"
@@ -281,7 +377,7 @@ export default function BuyCreditsPage() {
                 />
               </div>
               <div>
-                <Label htmlFor="customPrice">Total Amount ({location === 'pakistan' ? 'PKR' : 'USD'})</Label>
+                <Label htmlFor="customPrice">Total Amount ({catalog?.currency})</Label>
                 <Input
                   id="customPrice"
                   type="number"
@@ -296,7 +392,42 @@ export default function BuyCreditsPage() {
         </div>
       )}
 
-
+      {/* Promo Code */}
+      <div className="mb-10">
+        <Card className="p-6 border-slate-200 bg-white">
+          <h3 className="text-lg font-bold text-slate-900 mb-4">Have a promo code?</h3>
+          {appliedCoupon ? (
+            <div className="flex items-center justify-between gap-4">
+              <div className="text-sm text-slate-700">
+                <span className="font-semibold">{appliedCoupon.code}</span>: {appliedCoupon.value}% bonus
+                {selectedCredits > 0 && (
+                  <span className="text-green-700"> (+{Math.floor((selectedCredits * appliedCoupon.value) / 100)} credits)</span>
+                )}
+              </div>
+              <Button variant="outline" onClick={handleRemovePromo}>
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              <Input
+                id="promoCode"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value)}
+                placeholder="Enter promo code"
+              />
+              <Button onClick={handleApplyPromo} disabled={isApplyingPromo || !promoCode.trim()}>
+                {isApplyingPromo ? 'Applying...' : 'Apply'}
+              </Button>
+            </div>
+          )}
+          {promoMessage && (
+            <p className={`mt-3 text-sm ${promoMessage.type === 'error' ? 'text-red-700' : 'text-green-700'}`}>
+              {promoMessage.text}
+            </p>
+          )}
+        </Card>
+      </div>
 
       {/* Proceed to Payment Button */}
       {(selectedPackage || (isCustom && customCredits && customPrice)) && (
@@ -21,6 +21,9 @@ function PaymentPageContent() {
   const [qrCode, setQrCode] = useState('');
   const [currency, setCurrency] = useState('PKR');
   const [location, setLocation] = useState('pakistan');
+  const [coupon, setCoupon] = useState<{ code: string; bonusCredits: number } | null>(null);
+  const [plan, setPlan] = useState<{ id: string; name: string } | null>(null);
+  const [draftId, setDraftId] = useState('');
   const [transactionId, setTransactionId] = useState('');
   const [screenshot, setScreenshot] = useState<File | null>(null);
   const [screenshotPreview, setScreenshotPreview] = useState<string | null>(null);
@@ -35,23 +38,57 @@ function PaymentPageContent() {
       return;
     }
 
-    // Get parameters from URL
+    // Get the selection from the URL and price it from the server-side catalog
     const creditsParam = searchParams.get('credits');
-    const amountParam = searchParams.get('amount');
-    const qrCodeParam = searchParams.get('qrCode');
-    const currencyParam = searchParams.get('currency');
-    const locationParam = searchParams.get('location');
+    const locationParam = searchParams.get('location') || 'pakistan';
+    const couponParam = searchParams.get('coupon');
+    const planParam = searchParams.get('plan');
+    // A top-up prepared by a low-balance alert is submitted in place of a new request
+    setDraftId(searchParams.get('draft') || '');
 
-    if (!creditsParam || !amountParam) {
+    if (!creditsParam && !planParam) {
       router.push('/app/buy-credits');
       return;
     }
 
-    setCredits(creditsParam);
-    setAmount(amountParam);
-    setQrCode(qrCodeParam || '');
-    setCurrency(currencyParam || 'PKR');
-    setLocation(locationParam || 'pakistan');
+    const fetchQuote = async () => {
+      try {
+        // A plan is paid for one month at a time at the plan's price
+        const params = planParam
+          ? new URLSearchParams({ plan: planParam })
+          : new URLSearchParams({ location: locationParam, credits: creditsParam! });
+        const response = await fetch(`/api/payment/catalog?${params.toString()}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to price this purchase');
+        }
+
+        setCredits(String(data.quote.credits));
+        setAmount(String(data.quote.amount));
+        setQrCode(data.quote.qrCode || '');
+        setCurrency(data.quote.currency);
+        setLocation(data.quote.location);
+        if (data.quote.planId) {
+          setPlan({ id: data.quote.planId, name: data.quote.planName });
+        }
+
+        if (couponParam && !planParam) {
+          const couponParams = new URLSearchParams({ code: couponParam, credits: String(data.quote.credits) });
+          const couponResponse = await fetch(`/api/user/coupons?${couponParams.toString()}`);
+          const couponData = await couponResponse.json();
+
+          if (!couponResponse.ok) {
+            throw new Error(couponData.error || 'Failed to apply promo code');
+          }
+          setCoupon({ code: couponData.coupon.code, bonusCredits: couponData.coupon.bonusCredits });
+        }
+      } catch (error) {
+        console.error('Error pricing purchase:', error);
+        setError(error instanceof Error ? error.message : 'Failed to price this purchase');
+      }
+    };
+    fetchQuote();
   }, [session, status, router, searchParams]);
 
   const handleScreenshotChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -97,9 +134,17 @@ function PaymentPageContent() {
       formData.append('credits', credits);
       formData.append('amount', amount);
       formData.append('transactionId', transactionId.trim());
-      formData.append('qrCode', qrCode);
       formData.append('currency', currency);
       formData.append('location', location);
+      if (coupon) {
+        formData.append('couponCode', coupon.code);
+      }
+      if (plan) {
+        formData.append('planId', plan.id);
+      }
+      if (draftId && !plan) {
+        formData.append('draftId', draftId);
+      }
 
       const response = await fetch('/api/payment/submit', {
         method: 'POST',
@@ -135,10 +180,24 @@ function PaymentPageContent() {
     );
   }
 
-  if (!session || !credits || !amount) {
+  if (!session) {
     return null;
   }
 
+  // The selection could not be priced, e.g. the package was withdrawn
+  if (!credits || !amount) {
+    return error ? (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <div className="text-red-800">{error}</div>
+        </Alert>
+        <Button variant="outline" onClick={() => router.push('/app/buy-credits')}>
+          Back to Packages
+        </Button>
+      </div>
+    ) : null;
+  }
+
 
 
   return (
@@ -166,10 +225,22 @@ function PaymentPageContent() {
           <Card className="p-6 mb-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Payment Details</h2>
             <div className="space-y-3">
+              {plan && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Plan:</span>
+                  <span className="font-semibold">{plan.name} (one month)</span>
+                </div>
+              )}
               <div className="flex justify-between">
-                <span className="text-gray-600">Credits:</span>
+                <span className="text-gray-600">{plan ? 'Monthly credits:' : 'Credits:'}</span>
                 <span className="font-semibold">{credits}</span>
               </div>
+              {coupon && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Bonus ({coupon.code}):</span>
+                  <span className="font-semibold text-green-700">+{coupon.bonusCredits} on approval</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-gray-600">Amount:</span>
                 <span className="font-semibold">{currency === 'PKR' ? '₨' : '$'}{amount}</span>
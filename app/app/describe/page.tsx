@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useUser } from '@/hooks/useUser';
 import UnifiedImageUpload from '@/components/ui/UnifiedImageUpload';
+import DescriptionJobStatus from '@/components/ui/DescriptionJobStatus';
 import { Loader2, Download } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 
@@ -79,6 +80,11 @@ export default function DescribePage() {
           onDownloadAll={downloadAllDescriptions}
           downloadButtonText="Download All Descriptions"
         />
+
+        {/* Latest bulk job, for runs started before this page was opened */}
+        {processedResults.length === 0 && (
+          <DescriptionJobStatus className="mt-8" />
+        )}
         
         {processedResults.length > 0 && (
           <div className="mt-8 space-y-6">
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+import { Card } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface Notification {
+  id: string;
+  type: 'LOW_BALANCE' | 'PAYMENT_NEEDS_INFO';
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface AlertSettings {
+  lowBalanceThreshold: number | null;
+  autoTopUpDraft: boolean;
+}
+
+export default function NotificationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [threshold, setThreshold] = useState('');
+  const [autoTopUpDraft, setAutoTopUpDraft] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session) {
+      router.push('/auth/signin');
+      return;
+    }
+
+    fetchNotifications();
+  }, [session, status, router]);
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await fetch('/api/user/notifications');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load notifications');
+      }
+
+      setNotifications(data.notifications);
+      setUnreadCount(data.unreadCount);
+      setThreshold(data.settings.lowBalanceThreshold === null ? '' : String(data.settings.lowBalanceThreshold));
+      setAutoTopUpDraft(data.settings.autoTopUpDraft);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load notifications' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const response = await fetch('/api/user/notifications', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update notifications');
+      }
+
+      const readAt = new Date().toISOString();
+      setNotifications((current) =>
+        current.map((notification) =>
+          !ids || ids.includes(notification.id) ? { ...notification, readAt: notification.readAt ?? readAt } : notification
+        )
+      );
+      setUnreadCount(data.unreadCount);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update notifications' });
+    }
+  };
+
+  const openNotification = async (notification: Notification) => {
+    if (!notification.readAt) {
+      await markRead([notification.id]);
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/user/notifications', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lowBalanceThreshold: threshold === '' ? null : threshold, autoTopUpDraft }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save alert settings');
+      }
+
+      const settings: AlertSettings = data.settings;
+      setThreshold(settings.lowBalanceThreshold === null ? '' : String(settings.lowBalanceThreshold));
+      setAutoTopUpDraft(settings.autoTopUpDraft);
+      setMessage({ type: 'success', text: data.message });
+    } catch (error) {
+      console.error('Error saving alert settings:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save alert settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-8 text-center">
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-3">
+          Notifications
+        </h1>
+        <p className="text-slate-600 text-lg">Find out your credits are running low before an upload fails</p>
+      </div>
+
+      {message && (
+        <Alert className={`mb-6 ${message.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}`}>
+          <div className={message.type === 'error' ? 'text-red-800' : 'text-green-800'}>{message.text}</div>
+        </Alert>
+      )}
+
+      {/* Alert Settings */}
+      <Card className="p-6 mb-8 border-slate-200 bg-white">
+        <h2 className="text-xl font-bold text-slate-900 mb-1">Low-Balance Alert</h2>
+        <p className="text-sm text-slate-600 mb-4">
+          Get a notification when using credits takes your balance below this number. Leave it empty to turn alerts off.
+        </p>
+        <form onSubmit={handleSaveSettings} className="space-y-4">
+          <div className="max-w-xs">
+            <Label htmlFor="threshold">Alert below (credits)</Label>
+            <Input
+              id="threshold"
+              type="number"
+              min="1"
+              value={threshold}
+              onChange={(e) => {
+                setThreshold(e.target.value);
+                if (e.target.value === '') setAutoTopUpDraft(false);
+              }}
+              placeholder="Off"
+            />
+          </div>
+          <label className="flex items-start gap-3 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={autoTopUpDraft}
+              disabled={threshold === ''}
+              onChange={(e) => setAutoTopUpDraft(e.target.checked)}
+            />
+            <span>
+              Prepare a top-up with the alert: a payment request for the same credits as your last purchase,
+              ready to submit once you have paid and have the transaction ID
+            </span>
+          </label>
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Alert'}
+          </Button>
+        </form>
+      </Card>
+
+      {/* Notification List */}
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-slate-900">
+          Inbox{unreadCount > 0 ? ` (${unreadCount} unread)` : ''}
+        </h2>
+        {unreadCount > 0 && (
+          <Button variant="outline" size="sm" onClick={() => markRead()}>
+            Mark All as Read
+          </Button>
+        )}
+      </div>
+
+      {notifications.length === 0 ? (
+        <p className="text-slate-500 text-center py-8">No notifications yet</p>
+      ) : (
+        <div className="space-y-3">
+          {notifications.map((notification) => (
+            <Card
+              key={notification.id}
+              className={`p-4 border-slate-200 ${notification.readAt ? 'bg-white' : 'bg-blue-50 border-blue-200'}`}
+            >
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <p className="font-semibold text-slate-900">{notification.title}</p>
+                  <p className="text-sm text-slate-600">{notification.message}</p>
+                  <p className="text-xs text-slate-400 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {notification.link && (
+                    <Button size="sm" onClick={() => openNotification(notification)}>
+                      {notification.type === 'PAYMENT_NEEDS_INFO'
+                        ? 'View Request'
+                        : notification.link.includes('draft=') ? 'Complete Top-Up' : 'Top Up'}
+                    </Button>
+                  )}
+                  {!notification.readAt && (
+                    <Button variant="outline" size="sm" onClick={() => markRead([notification.id])}>
+                      Mark Read
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
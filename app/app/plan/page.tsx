@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+import { Card } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/Button';
+import { Progress } from '@/components/ui/progress';
+
+interface SubscriptionPlan {
+  id: string;
+  name: string;
+  description: string | null;
+  location: string;
+  price: number;
+  monthlyCredits: number;
+  rolloverPercent: number;
+  maxRolloverCredits: number | null;
+}
+
+interface Subscription {
+  id: string;
+  status: 'PENDING' | 'ACTIVE' | 'PAST_DUE' | 'CANCELLED';
+  prepaidPeriods: number;
+  currentPeriodStart: string | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  plan: SubscriptionPlan;
+  usage: {
+    allowance: number;
+    rolledOver: number;
+    used: number;
+    remaining: number;
+  } | null;
+}
+
+type LocationType = 'pakistan' | 'international';
+
+const STATUS_LABELS: Record<Subscription['status'], string> = {
+  PENDING: 'Waiting for payment approval',
+  ACTIVE: 'Active',
+  PAST_DUE: 'Renewal payment due',
+  CANCELLED: 'Cancelled'
+};
+
+function formatPrice(plan: SubscriptionPlan): string {
+  return `${plan.location === 'pakistan' ? '₨' : '$'}${plan.price}`;
+}
+
+function describeRollover(plan: SubscriptionPlan): string {
+  if (plan.rolloverPercent === 0) {
+    return 'Unused credits expire at the end of each month';
+  }
+  const cap = plan.maxRolloverCredits !== null ? `, up to ${plan.maxRolloverCredits} credits` : '';
+  return `${plan.rolloverPercent}% of unused credits roll over to the next month${cap}`;
+}
+
+export default function PlanPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [location, setLocation] = useState<LocationType>('pakistan');
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session) {
+      router.push('/auth/signin');
+      return;
+    }
+
+    fetchSubscription(location);
+  }, [session, status, router, location]);
+
+  const fetchSubscription = async (forLocation: LocationType) => {
+    try {
+      const response = await fetch(`/api/user/subscription?location=${forLocation}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load your plan');
+      }
+
+      setSubscription(data.subscription);
+      setPlans(data.plans);
+    } catch (error) {
+      console.error('Error fetching subscription:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load your plan' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRenewal = async (action: 'cancel' | 'resume') => {
+    if (action === 'cancel' && !confirm('Stop renewing your plan? You keep your credits until the end of the current month.')) {
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const response = await fetch('/api/user/subscription', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update your plan');
+      }
+
+      setSubscription(data.subscription);
+      setMessage({ type: 'success', text: data.message });
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update your plan' });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Plans are paid through the usual payment request flow, one month per request
+  const payForPlan = (planId: string) => {
+    router.push(`/app/buy-credits/payment?${new URLSearchParams({ plan: planId }).toString()}`);
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  const usage = subscription?.usage;
+  const canSwitch = !subscription || (subscription.status !== 'ACTIVE' && subscription.prepaidPeriods === 0);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="mb-8 text-center">
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-3">
+          Your Plan
+        </h1>
+        <p className="text-slate-600 text-lg">A monthly credit allowance instead of buying credits every month</p>
+      </div>
+
+      {message && (
+        <Alert className={`mb-6 ${message.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}`}>
+          <div className={message.type === 'error' ? 'text-red-800' : 'text-green-800'}>{message.text}</div>
+        </Alert>
+      )}
+
+      {subscription && (
+        <Card className="p-6 mb-10 border-slate-200 bg-white">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-slate-900">{subscription.plan.name}</h2>
+              <p className="text-slate-600">
+                {subscription.plan.monthlyCredits} credits a month for {formatPrice(subscription.plan)}
+              </p>
+              <p className="text-sm text-slate-500 mt-1">{describeRollover(subscription.plan)}</p>
+            </div>
+            <span className="px-3 py-1 rounded-full text-sm font-medium border border-slate-200 bg-slate-50 text-slate-700 self-start">
+              {STATUS_LABELS[subscription.status]}
+            </span>
+          </div>
+
+          {usage && (
+            <div className="mb-6">
+              <div className="flex justify-between text-sm text-slate-600 mb-2">
+                <span>{usage.used} of {usage.allowance + usage.rolledOver} credits used this month</span>
+                <span>{usage.remaining} left</span>
+              </div>
+              <Progress value={usage.allowance + usage.rolledOver > 0 ? (usage.used / (usage.allowance + usage.rolledOver)) * 100 : 0} />
+              {usage.rolledOver > 0 && (
+                <p className="text-xs text-slate-500 mt-2">
+                  Includes {usage.rolledOver} credits carried over from last month
+                </p>
+              )}
+            </div>
+          )}
+
+          {subscription.status === 'ACTIVE' && subscription.currentPeriodEnd && (
+            <p className="text-sm text-slate-600 mb-4">
+              {subscription.cancelAtPeriodEnd
+                ? `Your plan ends on ${new Date(subscription.currentPeriodEnd).toLocaleDateString()} and will not renew.`
+                : subscription.prepaidPeriods > 0
+                  ? `Renews on ${new Date(subscription.currentPeriodEnd).toLocaleDateString()}; the next month is already paid.`
+                  : `Renews on ${new Date(subscription.currentPeriodEnd).toLocaleDateString()}. Pay for the next month before then to keep your allowance.`}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            {subscription.status !== 'CANCELLED' && !subscription.cancelAtPeriodEnd && (
+              <Button onClick={() => payForPlan(subscription.plan.id)} disabled={updating}>
+                {subscription.status === 'ACTIVE' ? 'Pay for Next Month' : 'Pay Now'}
+              </Button>
+            )}
+            {subscription.status === 'CANCELLED' && (
+              <Button onClick={() => payForPlan(subscription.plan.id)} disabled={updating}>
+                Subscribe Again
+              </Button>
+            )}
+            {subscription.status === 'ACTIVE' && subscription.cancelAtPeriodEnd && (
+              <Button onClick={() => handleRenewal('resume')} disabled={updating}>
+                Keep My Plan
+              </Button>
+            )}
+            {subscription.status !== 'CANCELLED' && !subscription.cancelAtPeriodEnd && (
+              <Button variant="outline" onClick={() => handleRenewal('cancel')} disabled={updating}>
+                Cancel Plan
+              </Button>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Plans */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-slate-900 mb-4 text-center">
+          {subscription ? 'Other Plans' : 'Choose a Plan'}
+        </h2>
+        <div className="flex justify-center gap-4 mb-6">
+          <Button
+            onClick={() => setLocation('pakistan')}
+            className={`px-8 py-3 rounded-lg font-semibold transition-all duration-300 ${
+              location === 'pakistan'
+                ? 'bg-gradient-to-r from-green-600 to-green-700 text-white shadow-lg'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            🇵🇰 Pakistan
+          </Button>
+          <Button
+            onClick={() => setLocation('international')}
+            className={`px-8 py-3 rounded-lg font-semibold transition-all duration-300 ${
+              location === 'international'
+                ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-lg'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            🌍 International
+          </Button>
+        </div>
+
+        {!canSwitch && (
+          <p className="text-sm text-slate-500 text-center mb-4">
+            To switch plans, cancel your current plan and let it run out first.
+          </p>
+        )}
+
+        {plans.length === 0 ? (
+          <p className="text-slate-500 text-center py-8">No plans are offered for this location yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {plans.map((plan) => (
+              <Card key={plan.id} className="p-6 border-slate-200 bg-white flex flex-col">
+                <h3 className="text-xl font-bold text-slate-900 mb-1">{plan.name}</h3>
+                <p className="text-3xl font-bold text-slate-900 mb-1">{formatPrice(plan)}</p>
+                <p className="text-sm text-slate-500 mb-4">per month</p>
+                <p className="font-semibold text-slate-800 mb-2">{plan.monthlyCredits} credits every month</p>
+                <p className="text-sm text-slate-600 mb-2">{describeRollover(plan)}</p>
+                {plan.description && <p className="text-sm text-slate-600 mb-4">{plan.description}</p>}
+                <Button
+                  className="mt-auto"
+                  onClick={() => payForPlan(plan.id)}
+                  disabled={subscription?.plan.id === plan.id || !canSwitch}
+                >
+                  {subscription?.plan.id === plan.id ? 'Current Plan' : 'Subscribe'}
+                </Button>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
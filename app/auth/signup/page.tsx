@@ -15,6 +15,7 @@ export default function SignUpPage() {
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [confirmPassword, setConfirmPassword] = useState("")
+  const [couponCode, setCouponCode] = useState("")
   const [error, setError] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const router = useRouter()
@@ -46,6 +47,7 @@ export default function SignUpPage() {
           name,
           email,
           password,
+          couponCode: couponCode.trim() || undefined,
         }),
       })
 
@@ -154,6 +156,17 @@ export default function SignUpPage() {
                 required
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="couponCode">Promo Code (optional)</Label>
+              <Input
+                id="couponCode"
+                type="text"
+                placeholder="Enter a promo code"
+                value={couponCode}
+                onChange={(e) => setCouponCode(e.target.value)}
+              />
+            </div>
             
             <Button 
               type="submit" 
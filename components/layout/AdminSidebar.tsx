@@ -13,6 +13,12 @@ import {
   CreditCardIcon, 
   Analytics01Icon,
   Settings02Icon,
+  Coins01Icon,
+  PackageIcon,
+  DiscountTag01Icon,
+  RepeatIcon,
+  FileImportIcon,
+  WebhookIcon,
   Logout01Icon 
 } from '@hugeicons/core-free-icons';
 
@@ -41,6 +47,36 @@ const AdminSidebar = () => {
       href: '/admin/payments',
       icon: <HugeiconsIcon icon={Analytics01Icon} size={20} strokeWidth={2} />
     },
+    {
+      name: 'Statements',
+      href: '/admin/statements',
+      icon: <HugeiconsIcon icon={FileImportIcon} size={20} strokeWidth={2} />
+    },
+    {
+      name: 'Webhooks',
+      href: '/admin/webhooks',
+      icon: <HugeiconsIcon icon={WebhookIcon} size={20} strokeWidth={2} />
+    },
+    {
+      name: 'Pricing',
+      href: '/admin/pricing',
+      icon: <HugeiconsIcon icon={Coins01Icon} size={20} strokeWidth={2} />
+    },
+    {
+      name: 'Packages',
+      href: '/admin/packages',
+      icon: <HugeiconsIcon icon={PackageIcon} size={20} strokeWidth={2} />
+    },
+    {
+      name: 'Plans',
+      href: '/admin/plans',
+      icon: <HugeiconsIcon icon={RepeatIcon} size={20} strokeWidth={2} />
+    },
+    {
+      name: 'Coupons',
+      href: '/admin/coupons',
+      icon: <HugeiconsIcon icon={DiscountTag01Icon} size={20} strokeWidth={2} />
+    },
     {
       name: 'Settings',
       href: '/admin/settings',
@@ -1,17 +1,28 @@
 'use client';
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useSession, signOut } from 'next-auth/react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/Button';
 import { HugeiconsIcon } from '@hugeicons/react';
-import { Upload01Icon, Clock01Icon, CreditCardIcon, Logout01Icon } from '@hugeicons/core-free-icons';
+import { Upload01Icon, Clock01Icon, CreditCardIcon, RepeatIcon, Notification01Icon, Logout01Icon } from '@hugeicons/core-free-icons';
 
 const Sidebar = () => {
   const pathname = usePathname();
   const { data: session } = useSession();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // Refresh the unread count on every navigation, so reading notifications clears it
+  useEffect(() => {
+    if (!session) return;
+
+    fetch('/api/user/notifications?countOnly=true')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setUnreadCount(data?.unreadCount ?? 0))
+      .catch((error) => console.error('Error fetching notifications:', error));
+  }, [session, pathname]);
 
   const navigation = [
     {
@@ -29,10 +40,21 @@ const Sidebar = () => {
       href: '/app/buy-credits',
       icon: <HugeiconsIcon icon={CreditCardIcon} size={20} strokeWidth={2} />
     },
+    {
+      name: 'Plan',
+      href: '/app/plan',
+      icon: <HugeiconsIcon icon={RepeatIcon} size={20} strokeWidth={2} />
+    },
     {
       name: 'Payment Requests',
       href: '/app/payment-requests',
       icon: <HugeiconsIcon icon={CreditCardIcon} size={20} strokeWidth={2} />
+    },
+    {
+      name: 'Notifications',
+      href: '/app/notifications',
+      icon: <HugeiconsIcon icon={Notification01Icon} size={20} strokeWidth={2} />,
+      count: unreadCount
     }
   ];
 
@@ -67,6 +89,14 @@ const Sidebar = () => {
                 {item.icon}
               </div>
               <span className="ml-3 font-medium">{item.name}</span>
+              {'count' in item && item.count ? (
+                <span className={cn(
+                  'ml-auto min-w-[1.25rem] px-1.5 py-0.5 text-xs font-semibold rounded-full text-center',
+                  isActive ? 'bg-white text-blue-600' : 'bg-red-500 text-white'
+                )}>
+                  {item.count}
+                </span>
+              ) : null}
             </Link>
           );
         })}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/Button';
+
+interface DescriptionJobItem {
+  id: string;
+  index: number;
+  filename: string;
+  status: 'PENDING' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+  description: string | null;
+  confidence: number | null;
+  source: string | null;
+  error: string | null;
+}
+
+interface DescriptionJob {
+  id: string;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'STOPPED' | 'FAILED';
+  totalItems: number;
+  successful: number;
+  failed: number;
+  creditsUsed: number;
+  stoppedDueToCredits: boolean;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  items: DescriptionJobItem[];
+}
+
+interface DescriptionJobStatusProps {
+  className?: string;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+// Shows the user's most recent bulk job, so a run started in a closed tab can still be followed
+export default function DescriptionJobStatus({ className = '' }: DescriptionJobStatusProps) {
+  const [job, setJob] = useState<DescriptionJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const [retryError, setRetryError] = useState('');
+
+  const fetchJob = useCallback(async (jobId: string) => {
+    const response = await fetch(`/api/describe/jobs/${jobId}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.job as DescriptionJob;
+  }, []);
+
+  useEffect(() => {
+    const loadLatestJob = async () => {
+      try {
+        const response = await fetch('/api/describe/jobs?limit=1');
+        const data = await response.json();
+
+        if (response.ok && data.jobs?.length > 0) {
+          setJob(await fetchJob(data.jobs[0].id));
+        }
+      } catch (error) {
+        console.error('Error fetching description jobs:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLatestJob();
+  }, [fetchJob]);
+
+  const isActive = job?.status === 'PENDING' || job?.status === 'RUNNING';
+
+  useEffect(() => {
+    if (!job || !isActive) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const updated = await fetchJob(job.id);
+        if (updated) setJob(updated);
+      } catch (error) {
+        console.error('Error polling description job:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [job, isActive, fetchJob]);
+
+  const retryJob = async (scope: 'failed' | 'unprocessed') => {
+    if (!job) return;
+
+    setRetrying(true);
+    setRetryError('');
+
+    try {
+      const response = await fetch(`/api/describe/jobs/${job.id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to retry job');
+      }
+    } catch (error) {
+      console.error('Error retrying description job:', error);
+      setRetryError(error instanceof Error ? error.message : 'Failed to retry job');
+    } finally {
+      // The items are queued for the worker; the refreshed job is polled until they finish
+      const updated = await fetchJob(job.id);
+      if (updated) setJob(updated);
+      setRetrying(false);
+    }
+  };
+
+  const getStatusBadgeClass = (status: DescriptionJob['status']) => {
+    switch (status) {
+      case 'PENDING':
+      case 'RUNNING':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
+      case 'COMPLETED':
+        return 'bg-green-100 text-green-800 border-green-200';
+      case 'STOPPED':
+        return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'FAILED':
+        return 'bg-red-100 text-red-800 border-red-200';
+      default:
+        return 'bg-gray-100 text-gray-800 border-gray-200';
+    }
+  };
+
+  if (loading || !job) {
+    return null;
+  }
+
+  const processed = job.successful + job.failed;
+  const percentage = job.totalItems > 0 ? Math.round((processed / job.totalItems) * 100) : 0;
+  const finishedItems = job.items.filter(item => item.status === 'SUCCEEDED' || item.status === 'FAILED');
+  const failedCount = job.items.filter(item => item.status === 'FAILED').length;
+  const unprocessedCount = job.items.filter(item => item.status === 'SKIPPED').length;
+
+  return (
+    <div className={className}>
+      <Card className="p-6 border-slate-200 bg-white space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            {isActive && <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />}
+            <h2 className="text-xl font-bold text-slate-900">Latest Bulk Job</h2>
+            <span className={`px-2 py-1 text-xs font-medium rounded-full border ${getStatusBadgeClass(job.status)}`}>
+              {job.status}
+            </span>
+          </div>
+          <div className="text-sm text-slate-600">
+            {processed} of {job.totalItems} processed
+          </div>
+        </div>
+
+        <div className="w-full bg-slate-200 rounded-full h-2 overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-blue-500 to-purple-500 rounded-full transition-all"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm">
+          <span className="text-green-700">{job.successful} successful</span>
+          <span className="text-red-700">{job.failed} failed</span>
+          <span className="text-slate-600">{job.creditsUsed} credits used</span>
+          {job.stoppedDueToCredits && (
+            <span className="text-yellow-700">Stopped: insufficient credits</span>
+          )}
+          {job.error && <span className="text-red-700">{job.error}</span>}
+        </div>
+
+        {!isActive && (failedCount > 0 || unprocessedCount > 0) && (
+          <div className="flex flex-wrap gap-3">
+            {failedCount > 0 && (
+              <Button variant="outline" size="sm" disabled={retrying} onClick={() => retryJob('failed')}>
+                Retry {failedCount} Failed Item{failedCount !== 1 ? 's' : ''}
+              </Button>
+            )}
+            {unprocessedCount > 0 && (
+              <Button variant="outline" size="sm" disabled={retrying} onClick={() => retryJob('unprocessed')}>
+                Resume {unprocessedCount} Remaining Item{unprocessedCount !== 1 ? 's' : ''}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {retryError && <p className="text-sm text-red-700">{retryError}</p>}
+
+        {finishedItems.length > 0 && (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {finishedItems.map(item => (
+              <div key={item.id} className="flex items-start space-x-3 p-3 border rounded-lg">
+                {item.status === 'SUCCEEDED' ? (
+                  <CheckCircle className="w-4 h-4 text-green-500 mt-1 flex-shrink-0" />
+                ) : (
+                  <AlertCircle className="w-4 h-4 text-red-500 mt-1 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-800 text-sm">{item.filename}</p>
+                  <p className="text-sm text-slate-600">
+                    {item.status === 'SUCCEEDED' ? item.description : item.error}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,28 @@
 import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+type PaymentStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'PARTIALLY_APPROVED'
+  | 'REJECTED'
+  | 'CANCELLED'
+  | 'NEEDS_INFO'
+  | 'RESUBMITTED';
+
+interface PaymentRequestEvent {
+  id: string;
+  fromStatus: PaymentStatus | 'DRAFT' | null;
+  toStatus: PaymentStatus;
+  note: string | null;
+  createdAt: string;
+  actor: { role: 'USER' | 'ADMIN' } | null;
+}
 
 interface PaymentRequest {
   id: string;
@@ -12,13 +34,27 @@ interface PaymentRequest {
   location: string;
   paymentMethod: string;
   transactionId: string | null;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  status: PaymentStatus;
   adminNotes: string | null;
+  creditsGranted: number | null;
+  adjustmentReason: string | null;
+  couponRedemption: {
+    credits: number;
+    status: 'PENDING' | 'REDEEMED' | 'VOID';
+    coupon: { code: string };
+  } | null;
+  subscription: {
+    plan: { name: string };
+  } | null;
+  events: PaymentRequestEvent[];
   createdAt: string;
   updatedAt: string;
   processedAt: string | null;
 }
 
+// Requests the user can still correct or withdraw
+const OPEN_STATUSES: PaymentStatus[] = ['PENDING', 'NEEDS_INFO', 'RESUBMITTED'];
+
 interface PaymentRequestsStatusProps {
   className?: string;
 }
@@ -27,6 +63,12 @@ export default function PaymentRequestsStatus({ className = '' }: PaymentRequest
   const [paymentRequests, setPaymentRequests] = useState<PaymentRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTransactionId, setEditTransactionId] = useState('');
+  const [editScreenshot, setEditScreenshot] = useState<File | null>(null);
+  const [editNote, setEditNote] = useState('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
 
   useEffect(() => {
     fetchPaymentRequests();
@@ -51,14 +93,99 @@ export default function PaymentRequestsStatus({ className = '' }: PaymentRequest
     }
   };
 
+  const startEditing = (request: PaymentRequest) => {
+    setEditingId(request.id);
+    setEditTransactionId(request.transactionId || '');
+    setEditScreenshot(null);
+    setEditNote('');
+    setError('');
+  };
+
+  const handleResubmit = async (e: React.FormEvent, requestId: string) => {
+    e.preventDefault();
+    setSavingId(requestId);
+    setError('');
+
+    try {
+      const formData = new FormData();
+      formData.append('transactionId', editTransactionId);
+      formData.append('note', editNote);
+      if (editScreenshot) {
+        formData.append('screenshot', editScreenshot);
+      }
+
+      const response = await fetch(`/api/user/payment-requests/${requestId}/resubmit`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resubmit payment request');
+      }
+
+      setEditingId(null);
+      await fetchPaymentRequests();
+    } catch (error) {
+      console.error('Error resubmitting payment request:', error);
+      setError(error instanceof Error ? error.message : 'Failed to resubmit payment request');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCancel = async (requestId: string) => {
+    if (!confirm('Are you sure you want to cancel this payment request?')) {
+      return;
+    }
+
+    setSavingId(requestId);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/user/payment-requests/${requestId}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel payment request');
+      }
+
+      await fetchPaymentRequests();
+    } catch (error) {
+      console.error('Error cancelling payment request:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cancel payment request');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+  const describeActor = (event: PaymentRequestEvent) => {
+    if (!event.actor) return 'System';
+    return event.actor.role === 'ADMIN' ? 'Admin' : 'You';
+  };
+
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'PENDING':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       case 'APPROVED':
         return 'bg-green-100 text-green-800 border-green-200';
+      case 'PARTIALLY_APPROVED':
+        return 'bg-orange-100 text-orange-800 border-orange-200';
       case 'REJECTED':
         return 'bg-red-100 text-red-800 border-red-200';
+      case 'NEEDS_INFO':
+        return 'bg-purple-100 text-purple-800 border-purple-200';
+      case 'RESUBMITTED':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -74,11 +201,6 @@ export default function PaymentRequestsStatus({ className = '' }: PaymentRequest
     });
   };
 
-  // Show all payment requests (pending, approved, and rejected)
-  const relevantRequests = paymentRequests.filter(
-    request => request.status === 'PENDING' || request.status === 'APPROVED' || request.status === 'REJECTED'
-  );
-
   if (loading) {
     return (
       <div className={`${className}`}>
@@ -93,7 +215,7 @@ export default function PaymentRequestsStatus({ className = '' }: PaymentRequest
     );
   }
 
-  if (error) {
+  if (error && paymentRequests.length === 0) {
     return (
       <div className={`${className}`}>
         <Alert className="border-red-200 bg-red-50">
@@ -103,24 +225,35 @@ export default function PaymentRequestsStatus({ className = '' }: PaymentRequest
     );
   }
 
-  if (relevantRequests.length === 0) {
+  if (paymentRequests.length === 0) {
     return null; // Don't show anything if no relevant requests
   }
 
   return (
     <div className={`${className}`}>
       <h2 className="text-xl font-bold text-slate-900 mb-4">Your Payment Requests</h2>
+      {error && (
+        <Alert className="mb-4 border-red-200 bg-red-50">
+          <div className="text-red-800">{error}</div>
+        </Alert>
+      )}
       <div className="space-y-4">
-        {relevantRequests.map((request) => (
+        {paymentRequests.map((request) => (
           <Card key={request.id} className="p-4 border-slate-200 bg-white">
             <div className="flex justify-between items-start mb-3">
               <div>
                 <div className="flex items-center gap-2 mb-1">
                   <span className="font-semibold text-slate-900">
                     {request.creditsRequested} Credits
+                    {request.couponRedemption && request.couponRedemption.status !== 'VOID' && (
+                      <span className="text-green-700"> + {request.couponRedemption.credits} bonus</span>
+                    )}
+                    {request.subscription && (
+                      <span className="text-blue-700"> ({request.subscription.plan.name} plan)</span>
+                    )}
                   </span>
                   <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusBadgeClass(request.status)}`}>
-                    {request.status}
+                    {formatStatus(request.status)}
                   </span>
                 </div>
                 <div className="text-sm text-slate-600">
@@ -142,18 +275,39 @@ export default function PaymentRequestsStatus({ className = '' }: PaymentRequest
               )}
             </div>
 
-            {request.status === 'PENDING' && (
+            {(request.status === 'PENDING' || request.status === 'RESUBMITTED') && (
               <div className="mt-3 p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800">
                 ⏳ Your payment is being reviewed. Credits will be added once approved.
               </div>
             )}
 
+            {request.status === 'NEEDS_INFO' && (
+              <div className="mt-3 p-2 bg-purple-50 border border-purple-200 rounded text-sm text-purple-800">
+                ✉️ We need more information to confirm this payment. See the admin notes below, then edit the request to resubmit it.
+              </div>
+            )}
+
+            {request.status === 'CANCELLED' && (
+              <div className="mt-3 p-2 bg-gray-50 border border-gray-200 rounded text-sm text-gray-700">
+                You cancelled this payment request.
+              </div>
+            )}
+
             {request.status === 'APPROVED' && request.processedAt && (
               <div className="mt-3 p-2 bg-green-50 border border-green-200 rounded text-sm text-green-800">
                 ✅ Payment approved on {formatDate(request.processedAt)}. Credits have been added to your account.
               </div>
             )}
 
+            {request.status === 'PARTIALLY_APPROVED' && request.processedAt && (
+              <div className="mt-3 p-2 bg-orange-50 border border-orange-200 rounded text-sm text-orange-800">
+                ⚠️ Payment partially approved on {formatDate(request.processedAt)}. {request.creditsGranted} of {request.creditsRequested} credits have been added to your account.
+                {request.adjustmentReason && (
+                  <p className="mt-1"><span className="font-medium">Reason:</span> {request.adjustmentReason}</p>
+                )}
+              </div>
+            )}
+
             {request.status === 'REJECTED' && (
               <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-800">
                 ❌ Payment request has been rejected. {request.adminNotes ? 'Please see admin notes below for details.' : 'Please contact support for more information.'}
@@ -166,6 +320,97 @@ export default function PaymentRequestsStatus({ className = '' }: PaymentRequest
                 <p className="text-slate-900 mt-1">{request.adminNotes}</p>
               </div>
             )}
+
+            {OPEN_STATUSES.includes(request.status) && editingId !== request.id && (
+              <div className="mt-3 flex gap-2">
+                <Button
+                  size="sm"
+                  variant={request.status === 'NEEDS_INFO' ? 'primary' : 'outline'}
+                  onClick={() => startEditing(request)}
+                  disabled={savingId === request.id}
+                >
+                  {request.status === 'NEEDS_INFO' ? 'Respond' : 'Edit'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-red-300 text-red-700 hover:bg-red-50"
+                  onClick={() => handleCancel(request.id)}
+                  disabled={savingId === request.id}
+                >
+                  Cancel Request
+                </Button>
+              </div>
+            )}
+
+            {editingId === request.id && (
+              <form onSubmit={(e) => handleResubmit(e, request.id)} className="mt-3 space-y-3 p-3 bg-slate-50 border border-slate-200 rounded">
+                <div>
+                  <Label htmlFor={`transactionId-${request.id}`}>Transaction ID</Label>
+                  <Input
+                    id={`transactionId-${request.id}`}
+                    value={editTransactionId}
+                    onChange={(e) => setEditTransactionId(e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`screenshot-${request.id}`}>New Screenshot (Optional)</Label>
+                  <Input
+                    id={`screenshot-${request.id}`}
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => setEditScreenshot(e.target.files?.[0] || null)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`note-${request.id}`}>Note for the Admin</Label>
+                  <Textarea
+                    id={`note-${request.id}`}
+                    value={editNote}
+                    onChange={(e) => setEditNote(e.target.value)}
+                    placeholder="Explain what you changed..."
+                    rows={2}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" size="sm" disabled={savingId === request.id}>
+                    {savingId === request.id ? 'Submitting...' : 'Resubmit'}
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                    Close
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {request.events.length > 0 && (
+              <div className="mt-3 text-sm">
+                <button
+                  type="button"
+                  className="text-blue-600 hover:underline"
+                  onClick={() => setExpandedHistory(expandedHistory === request.id ? null : request.id)}
+                >
+                  {expandedHistory === request.id ? 'Hide history' : `Show history (${request.events.length})`}
+                </button>
+                {expandedHistory === request.id && (
+                  <ol className="mt-2 space-y-2 border-l-2 border-slate-200 pl-3">
+                    {request.events.map((event) => (
+                      <li key={event.id}>
+                        <p className="text-slate-900">
+                          <span className="font-medium">{describeActor(event)}</span>
+                          {event.fromStatus && event.fromStatus !== 'DRAFT'
+                            ? ` changed it from ${formatStatus(event.fromStatus)} to ${formatStatus(event.toStatus)}`
+                            : ' submitted it'}
+                          <span className="text-slate-500"> • {formatDate(event.createdAt)}</span>
+                        </p>
+                        {event.note && <p className="text-slate-700 whitespace-pre-wrap">{event.note}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            )}
           </Card>
         ))}
       </div>
@@ -0,0 +1,300 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type StatementRowStatus = 'MATCHED' | 'AMOUNT_MISMATCH' | 'CURRENCY_MISMATCH' | 'NOT_FOUND' | 'AMBIGUOUS' | 'INVALID';
+
+interface StatementMapping {
+  id: string;
+  provider: string;
+  name: string;
+}
+
+interface StatementImport {
+  id: string;
+  fileName: string;
+  rowCount: number;
+  matchedCount: number;
+  createdAt: string;
+  mapping: { name: string };
+}
+
+interface StatementMatch {
+  rowId: string;
+  rowNumber: number;
+  fileName: string;
+  provider: string;
+  paymentRequest: {
+    id: string;
+    creditsRequested: number;
+    amount: number;
+    currency: string;
+    paymentMethod: string;
+    transactionId: string | null;
+    createdAt: string;
+    user: { name: string | null; email: string };
+  };
+}
+
+interface ImportResult {
+  message: string;
+  rowCount: number;
+  counts: Partial<Record<StatementRowStatus, number>>;
+  issues: {
+    rowNumber: number;
+    transactionId: string | null;
+    status: StatementRowStatus;
+    detail: string | null;
+  }[];
+}
+
+interface StatementImportPanelProps {
+  onApproved?: () => void;
+}
+
+export default function StatementImportPanel({ onApproved }: StatementImportPanelProps) {
+  const [mappings, setMappings] = useState<StatementMapping[]>([]);
+  const [imports, setImports] = useState<StatementImport[]>([]);
+  const [matches, setMatches] = useState<StatementMatch[]>([]);
+  const [mappingId, setMappingId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0); // Changed to clear the file input
+  const [selectedRows, setSelectedRows] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchImports();
+  }, []);
+
+  const fetchImports = async () => {
+    try {
+      const response = await fetch('/api/admin/payments/statement-imports');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load statement imports');
+      }
+
+      setMappings(data.mappings);
+      setImports(data.imports);
+      setMatches(data.matches);
+      setSelectedRows(data.matches.map((match: StatementMatch) => match.rowId));
+    } catch (error) {
+      console.error('Error fetching statement imports:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load statement imports' });
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setImporting(true);
+    setMessage(null);
+    setResult(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('mappingId', mappingId);
+      formData.append('file', file);
+
+      const response = await fetch('/api/admin/payments/statement-imports', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import statement');
+      }
+
+      setResult(data);
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      await fetchImports();
+    } catch (error) {
+      console.error('Error importing statement:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to import statement' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!confirm(`Approve ${selectedRows.length} matched payment request(s) and add their credits?`)) {
+      return;
+    }
+
+    setApproving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/admin/payments/statement-imports/approve', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rowIds: selectedRows }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to approve payment requests');
+      }
+
+      setMessage({ type: data.failed.length > 0 ? 'error' : 'success', text: data.message });
+      await fetchImports();
+      onApproved?.();
+    } catch (error) {
+      console.error('Error approving payment requests:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to approve payment requests' });
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const toggleRow = (rowId: string) => {
+    setSelectedRows((current) =>
+      current.includes(rowId) ? current.filter((id) => id !== rowId) : [...current, rowId]
+    );
+  };
+
+  const formatStatus = (status: string) => status.replace(/_/g, ' ').toLowerCase();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Statement Import</CardTitle>
+        <CardDescription>
+          Upload a provider&apos;s CSV statement to match its lines to pending requests by transaction ID, amount and currency.
+          {' '}<Link href="/admin/statements" className="text-blue-600 hover:underline">Manage column mappings</Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <Alert className={message.type === 'error' ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'}>
+            <div className={message.type === 'error' ? 'text-red-800' : 'text-green-800'}>{message.text}</div>
+          </Alert>
+        )}
+
+        {mappings.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No active mappings yet. <Link href="/admin/statements" className="text-blue-600 hover:underline">Add one</Link> for each provider whose statements you import.
+          </p>
+        ) : (
+          <form onSubmit={handleImport} className="flex flex-col md:flex-row md:items-end gap-3">
+            <div>
+              <Label htmlFor="statementMapping">Provider</Label>
+              <select
+                id="statementMapping"
+                value={mappingId}
+                onChange={(e) => setMappingId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              >
+                <option value="">Choose...</option>
+                {mappings.map((mapping) => (
+                  <option key={mapping.id} value={mapping.id}>{mapping.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="statementFile">Statement (CSV)</Label>
+              <Input
+                key={fileInputKey}
+                id="statementFile"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={importing || !file || !mappingId}>
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          </form>
+        )}
+
+        {result && (
+          <div className="text-sm space-y-2">
+            <p className="text-gray-900">{result.message}</p>
+            <p className="text-gray-600">
+              {Object.entries(result.counts).map(([status, count]) => `${count} ${formatStatus(status)}`).join(' · ')}
+            </p>
+            {result.issues.length > 0 && (
+              <ul className="space-y-1 bg-orange-50 border border-orange-200 rounded p-2">
+                {result.issues.map((issue) => (
+                  <li key={issue.rowNumber} className="text-orange-800">
+                    Row {issue.rowNumber}{issue.transactionId ? ` (${issue.transactionId})` : ''}: {issue.detail || formatStatus(issue.status)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Proposed Approvals */}
+        {matches.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-900">Matched and Ready to Approve ({matches.length})</h3>
+              <Button
+                onClick={handleApprove}
+                disabled={approving || selectedRows.length === 0}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {approving ? 'Approving...' : `Approve Selected (${selectedRows.length})`}
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {matches.map((match) => (
+                <label key={match.rowId} className="flex items-start gap-3 p-2 border rounded-lg text-sm hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selectedRows.includes(match.rowId)}
+                    onChange={() => toggleRow(match.rowId)}
+                  />
+                  <span className="flex-1">
+                    <span className="font-medium text-gray-900">
+                      {match.paymentRequest.user.name || match.paymentRequest.user.email}
+                    </span>
+                    {' · '}{match.paymentRequest.creditsRequested} credits
+                    {' · '}{match.paymentRequest.amount} {match.paymentRequest.currency}
+                    {' · '}<span className="font-mono text-xs">{match.paymentRequest.transactionId}</span>
+                    <span className="block text-xs text-gray-500">
+                      {match.provider} statement {match.fileName}, row {match.rowNumber}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {imports.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-600">Recent imports</summary>
+            <ul className="mt-2 space-y-1">
+              {imports.map((statementImport) => (
+                <li key={statementImport.id} className="text-gray-700">
+                  {new Date(statementImport.createdAt).toLocaleString()} · {statementImport.mapping.name} · {statementImport.fileName}
+                  {' · '}{statementImport.matchedCount} of {statementImport.rowCount} row(s) matched
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -27,22 +27,40 @@ interface ProcessResult {
   source?: string;
   error?: string;
   index: number;
+  creditsCharged?: number;
   remainingCredits?: number;
 }
 
-interface ProgressUpdate {
-  type: 'progress' | 'result' | 'complete' | 'error';
-  index?: number;
-  total?: number;
-  result?: ProcessResult;
-  summary?: {
-    total: number;
-    successful: number;
-    failed: number;
-    creditsUsed: number;
-    remainingCredits: number;
-  };
-  error?: string;
+interface BatchQuote {
+  providerId: string;
+  totalCredits: number;
+  affordableItems: number;
+  items: { filename: string; credits: number }[];
+}
+
+// Extra outputs offered by the describe API; providers that cannot produce one neither return nor charge it
+const OUTPUT_OPTIONS = [
+  { value: 'long_description', label: 'Long description' },
+  { value: 'keywords', label: 'Keywords' },
+  { value: 'translation', label: 'Translation' }
+];
+
+interface JobItem {
+  index: number;
+  filename: string;
+  status: 'PENDING' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+  imageDescriptionId: string | null;
+  description: string | null;
+  confidence: number | null;
+  source: string | null;
+  error: string | null;
+  creditsCharged: number;
+}
+
+interface DescriptionJob {
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'STOPPED' | 'FAILED';
+  error: string | null;
+  items: JobItem[];
 }
 
 interface FileWithPreview extends File {
@@ -228,6 +246,36 @@ class ProgressManager {
   }
 }
 
+const JOB_POLL_INTERVAL_MS = 3000;
+
+// Poll a queued job until the background worker is done with it
+const pollJob = async (jobId: string, onUpdate?: (job: DescriptionJob) => void): Promise<DescriptionJob> => {
+  let job: DescriptionJob;
+  do {
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    const jobResponse = await fetch(`/api/describe/jobs/${jobId}`);
+    const jobData = await jobResponse.json();
+    if (!jobResponse.ok) {
+      throw new Error(jobData.error || 'Failed to fetch job status');
+    }
+    job = jobData.job;
+    onUpdate?.(job);
+  } while (job.status === 'PENDING' || job.status === 'RUNNING');
+  return job;
+};
+
+const toProcessResult = (item: JobItem): ProcessResult => ({
+  success: item.status === 'SUCCEEDED',
+  imageId: item.imageDescriptionId ?? undefined,
+  filename: item.filename,
+  description: item.description ?? undefined,
+  confidence: item.confidence ?? undefined,
+  source: item.source ?? undefined,
+  error: item.error ?? undefined,
+  index: item.index,
+  creditsCharged: item.creditsCharged
+});
+
 const formatTime = (ms: number): string => {
   if (ms < 1000) return 'Less than a second';
   const seconds = Math.floor(ms / 1000);
@@ -279,6 +327,11 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
   });
   const [errors, setErrors] = useState<string[]>([]);
   const [results, setResults] = useState<ProcessResult[]>([]);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [outputs, setOutputs] = useState<string[]>([]);
+  const [language, setLanguage] = useState('');
+  const [quote, setQuote] = useState<BatchQuote | null>(null);
 
   const fileManagerRef = useRef<FileManager | null>(null);
   const progressManagerRef = useRef<ProgressManager | null>(null);
@@ -292,6 +345,46 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
     };
   }, []);
 
+  // Re-quote whenever the set of files or the requested outputs change, not on status updates
+  const quoteKey = files.map((file) => `${file.id}:${file.size}`).join('|');
+  useEffect(() => {
+    const currentFiles = fileManagerRef.current?.getFiles() || [];
+    if (currentFiles.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const fetchQuote = async () => {
+      try {
+        const response = await fetch('/api/v1/describe/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            files: currentFiles.map((file) => ({ name: file.name, size: file.size })),
+            outputs,
+            language
+          }),
+          signal: controller.signal
+        });
+        const data = await response.json();
+        setQuote(response.ok ? data : null);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error fetching quote:', error);
+          setQuote(null);
+        }
+      }
+    };
+    fetchQuote();
+
+    return () => controller.abort();
+  }, [quoteKey, outputs, language]);
+
+  const toggleOutput = useCallback((value: string) => {
+    setOutputs(prev => prev.includes(value) ? prev.filter(output => output !== value) : [...prev, value]);
+  }, []);
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (!fileManagerRef.current) return;
     
@@ -299,6 +392,8 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
     if (result.errors.length > 0) {
       setErrors(prev => [...prev, ...result.errors]);
     }
+    // New files start a new run, so the previous job can no longer be retried from here
+    setJobId(null);
   }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -312,23 +407,34 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
 
   const removeFile = useCallback((fileId: string) => {
     fileManagerRef.current?.removeFile(fileId);
+    setJobId(null);
   }, []);
 
   const clearAll = useCallback(() => {
     fileManagerRef.current?.clearAll();
     setResults([]);
     setErrors([]);
+    setJobId(null);
     progressManagerRef.current?.reset();
   }, []);
 
+  // Refresh the balance after the worker has charged for a job
+  const refreshCredits = useCallback(async () => {
+    const creditsResponse = await fetch('/api/user/credits');
+    if (creditsResponse.ok && onCreditsUpdate) {
+      const creditsData = await creditsResponse.json();
+      onCreditsUpdate(creditsData.credits);
+    }
+  }, [onCreditsUpdate]);
+
   const processImages = useCallback(async () => {
     if (!fileManagerRef.current || !progressManagerRef.current) return;
     
     const filesToProcess = fileManagerRef.current.getFiles();
     if (filesToProcess.length === 0) return;
 
-    // Upfront credit validation
-    const requiredCredits = filesToProcess.length;
+    // Upfront credit validation against the quote, one credit per image until it arrives
+    const requiredCredits = quote?.totalCredits ?? filesToProcess.length;
     if (userCredits < requiredCredits) {
       setErrors([`Insufficient credits! You need ${requiredCredits} credits but only have ${userCredits}. Please buy more credits to process all images.`]);
       return;
@@ -343,107 +449,123 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
       filesToProcess.forEach((file) => {
         formData.append('images', file);
       });
+      outputs.forEach((output) => {
+        formData.append('outputs', output);
+      });
+      if (outputs.includes('translation')) {
+        formData.append('language', language);
+      }
 
-      // Use the correct bulk processing endpoint that returns SSE stream
-      const response = await fetch('/api/describe/bulk', {
+      // The batch is queued for the background worker, so poll the job for its results
+      const response = await fetch('/api/v1/describe?mode=async-job', {
         method: 'POST',
         body: formData,
       });
+      const data = await response.json();
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to process images');
+        throw new Error(data.error || 'Failed to process images');
       }
 
-      // Handle the response as a stream
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      setJobId(data.jobId);
+      filesToProcess.forEach((_, index) => {
+        fileManagerRef.current?.updateFileStatus(index, 'processing');
+      });
 
-      if (!reader) {
-        throw new Error('Failed to get response stream');
-      }
+      // Show each result as soon as the worker has recorded it
+      const reported = new Set<number>();
+      const job = await pollJob(data.jobId, (update) => {
+        update.items.forEach((item) => {
+          if (reported.has(item.index) || (item.status !== 'SUCCEEDED' && item.status !== 'FAILED')) return;
+          reported.add(item.index);
+          fileManagerRef.current?.updateFileStatus(
+            item.index,
+            item.status === 'SUCCEEDED' ? 'completed' : 'error',
+            toProcessResult(item)
+          );
+          progressManagerRef.current?.updateProgress(reported.size, item.status === 'SUCCEEDED');
+        });
+        setResults(fileManagerRef.current?.exportResults() || []);
+      });
 
-      // Process the stream
-      const processStream = async () => {
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                try {
-                  const data: ProgressUpdate = JSON.parse(line.slice(6));
-                  
-                  if (data.type === 'progress') {
-                    progressManagerRef.current?.updateProgress(data.index || 0);
-                  } else if (data.type === 'result' && data.result) {
-                    const result = data.result;
-                    fileManagerRef.current?.updateFileStatus(
-                      result.index, 
-                      result.success ? 'completed' : 'error', 
-                      result
-                    );
-                    progressManagerRef.current?.updateProgress(
-                      result.index + 1, 
-                      result.success
-                    );
-                    
-                    // Update results in real-time
-                    const currentResults = fileManagerRef.current?.exportResults() || [];
-                    setResults(currentResults);
-                    
-                    // Update credits in real-time after each successful image processing
-                    if (result.remainingCredits !== undefined && onCreditsUpdate) {
-                      onCreditsUpdate(result.remainingCredits);
-                    }
-                    
-                    // Notify parent component of each result
-                    if (onProcessingComplete) {
-                      onProcessingComplete(currentResults);
-                    }
-                  } else if (data.type === 'complete') {
-                    setIsProcessing(false);
-                    if (data.summary && onCreditsUpdate) {
-                      onCreditsUpdate(data.summary.remainingCredits);
-                    }
-                    // Update results for display
-                    const finalResults = fileManagerRef.current?.exportResults() || [];
-                    setResults(finalResults);
-                    // Notify parent component of completion
-                    if (onProcessingComplete) {
-                      onProcessingComplete(finalResults);
-                    }
-                  } else if (data.type === 'error') {
-                    setErrors(prev => [...prev, data.error || 'Unknown error occurred']);
-                    setIsProcessing(false);
-                  }
-                } catch (error) {
-                  console.error('Error parsing SSE data:', error);
-                }
-              }
-            }
-          }
-        } catch (error) {
-          console.error('Stream processing error:', error);
-          setIsProcessing(false);
-        } finally {
-          reader.releaseLock();
+      // Images the job never reached, e.g. because credits ran out, can be retried
+      job.items.forEach((item) => {
+        if (item.status === 'SKIPPED') {
+          fileManagerRef.current?.updateFileStatus(item.index, 'pending');
         }
-      };
+      });
+      if (job.status === 'FAILED') {
+        setErrors(prev => [...prev, job.error || 'Processing failed']);
+      }
+
+      await refreshCredits();
 
-      // Start processing the stream
-      processStream();
+      const finalResults = fileManagerRef.current.exportResults();
+      setResults(finalResults);
+      if (onProcessingComplete) {
+        onProcessingComplete(finalResults);
+      }
 
     } catch (error) {
       console.error('Error processing images:', error);
       setErrors(prev => [...prev, error instanceof Error ? error.message : 'Unknown error occurred']);
+    } finally {
       setIsProcessing(false);
     }
-  }, [onCreditsUpdate]);
+  }, [refreshCredits, onProcessingComplete, quote, outputs, language, userCredits]);
+
+  // Requeue failed and unreached images from the stored job, without re-uploading them
+  const retryFailedImages = useCallback(async () => {
+    if (!jobId || !fileManagerRef.current) return;
+
+    setIsRetrying(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch(`/api/describe/jobs/${jobId}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope: 'all' }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry images');
+      }
+
+      (data.queuedItems as number[]).forEach((index) => {
+        fileManagerRef.current?.updateFileStatus(index, 'processing');
+      });
+
+      // The background worker processes the queued items, so poll the job until it is done
+      const job = await pollJob(jobId);
+
+      job.items.forEach((item) => {
+        if (item.status === 'SUCCEEDED' || item.status === 'FAILED') {
+          fileManagerRef.current?.updateFileStatus(
+            item.index,
+            item.status === 'SUCCEEDED' ? 'completed' : 'error',
+            toProcessResult(item)
+          );
+        } else if (item.status === 'SKIPPED') {
+          fileManagerRef.current?.updateFileStatus(item.index, 'pending');
+        }
+      });
+
+      await refreshCredits();
+
+      const retriedResults = fileManagerRef.current.exportResults();
+      setResults(retriedResults);
+      if (onProcessingComplete) {
+        onProcessingComplete(retriedResults);
+      }
+    } catch (error) {
+      console.error('Error retrying images:', error);
+      setErrors([error instanceof Error ? error.message : 'Failed to retry images']);
+    } finally {
+      setIsRetrying(false);
+    }
+  }, [jobId, refreshCredits, onProcessingComplete]);
 
   const downloadResults = () => {
     if (!fileManagerRef.current) return;
@@ -461,7 +583,10 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
   };
 
   const canProcessImages = files.length > 0 && userCredits > 0 && !isProcessing;
-  const estimatedCreditsNeeded = files.length;
+  const retryableCount = files.filter(file => file.status === 'error' || file.status === 'pending').length;
+  const canRetryImages = jobId !== null && !isProcessing && retryableCount > 0 && userCredits > 0;
+  const estimatedCreditsNeeded = quote?.totalCredits ?? files.length;
+  const needsLanguage = outputs.includes('translation') && language.trim() === '';
   const hasInsufficientCredits = estimatedCreditsNeeded > userCredits;
 
   return (
@@ -708,22 +833,36 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
                 {canProcessImages && (
                   <Button
                     onClick={processImages}
-                    disabled={hasInsufficientCredits}
+                    disabled={hasInsufficientCredits || needsLanguage}
                     className={cn(
                       "px-8 py-3 text-white",
-                      hasInsufficientCredits 
+                      hasInsufficientCredits || needsLanguage 
                         ? "bg-gray-400 cursor-not-allowed" 
                         : "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
                     )}
                   >
                     <Zap className="w-5 h-5 mr-2" />
-                    Process {files.length} Image{files.length !== 1 ? 's' : ''} ({files.length} credit{files.length !== 1 ? 's' : ''})
+                    Process {files.length} Image{files.length !== 1 ? 's' : ''} ({estimatedCreditsNeeded} credit{estimatedCreditsNeeded !== 1 ? 's' : ''})
+                  </Button>
+                )}
+                {canRetryImages && (
+                  <Button
+                    onClick={retryFailedImages}
+                    disabled={isRetrying}
+                    className="px-6 py-3 text-white bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600"
+                  >
+                    {isRetrying ? (
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                    ) : (
+                      <Zap className="w-5 h-5 mr-2" />
+                    )}
+                    Retry {retryableCount} Failed Image{retryableCount !== 1 ? 's' : ''}
                   </Button>
                 )}
                 <Button
                   variant="outline"
                   onClick={clearAll}
-                  disabled={isProcessing}
+                  disabled={isProcessing || isRetrying}
                   className="px-6 py-3 border-slate-300 hover:border-red-400 hover:text-red-600"
                 >
                   Clear All
@@ -731,6 +870,39 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
               </div>
             </div>
 
+            {/* Output Options and Price */}
+            {!isProcessing && (
+              <div className="flex flex-wrap items-center gap-6 bg-slate-50 border border-slate-200 rounded-xl p-4 text-sm">
+                <span className="font-semibold text-slate-700">Extra outputs:</span>
+                {OUTPUT_OPTIONS.map((option) => (
+                  <label key={option.value} className="flex items-center space-x-2 text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={outputs.includes(option.value)}
+                      onChange={() => toggleOutput(option.value)}
+                      className="rounded border-slate-300"
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                ))}
+                {outputs.includes('translation') && (
+                  <input
+                    type="text"
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                    placeholder="Target language, e.g. Spanish"
+                    className="px-3 py-1 border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+                {quote && (
+                  <span className="ml-auto text-slate-600">
+                    Estimated cost: <span className="font-semibold text-slate-800">{quote.totalCredits} credit{quote.totalCredits !== 1 ? 's' : ''}</span>
+                    {quote.items.some((item) => item.credits !== quote.items[0].credits) && ' (varies by file size)'}
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* 8-Column Grid */}
             <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-4">
               {files.map((file, index) => (
@@ -792,6 +964,7 @@ const UnifiedImageUpload: React.FC<UnifiedImageUploadProps> = ({
               <h4 className="text-yellow-800 font-semibold mb-2">Insufficient Credits</h4>
               <p className="text-yellow-700 text-sm">
                 You need {estimatedCreditsNeeded} credits to process these images, but you only have {userCredits} credits available.
+                {quote && quote.affordableItems > 0 && ` Your balance covers the first ${quote.affordableItems} image${quote.affordableItems !== 1 ? 's' : ''}.`}
               </p>
             </div>
           </div>
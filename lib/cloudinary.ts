@@ -1,4 +1,4 @@
-import { v2 as cloudinary } from 'cloudinary';
+import { v2 as cloudinary, UploadApiResponse } from 'cloudinary';
 
 // Configure Cloudinary
 cloudinary.config({
@@ -7,17 +7,25 @@ cloudinary.config({
   api_secret: process.env.CLOUDINARY_API_SECRET,
 });
 
+/**
+ * An uploaded image: its URL, and its public ID for deleting it again
+ */
+export interface CloudinaryUpload {
+  url: string;
+  publicId: string;
+}
+
 export async function uploadToCloudinary(
   file: File,
   folder: string = 'payment-screenshots'
-): Promise<string> {
+): Promise<CloudinaryUpload> {
   try {
     // Convert file to buffer
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
     // Upload to Cloudinary
-    const result = await new Promise((resolve, reject) => {
+    const result = await new Promise<UploadApiResponse>((resolve, reject) => {
       cloudinary.uploader.upload_stream(
         {
           folder: folder,
@@ -27,7 +35,7 @@ export async function uploadToCloudinary(
           fetch_format: 'auto',
         },
         (error, result) => {
-          if (error) {
+          if (error || !result) {
             reject(error);
           } else {
             resolve(result);
@@ -36,12 +44,23 @@ export async function uploadToCloudinary(
       ).end(buffer);
     });
 
-    // Return the secure URL
-    return (result as any).secure_url;
+    return { url: result.secure_url, publicId: result.public_id };
   } catch (error) {
     console.error('Cloudinary upload error:', error);
     throw new Error('Failed to upload image to Cloudinary');
   }
 }
 
+/**
+ * Delete an upload that nothing refers to, e.g. because saving the request it came with failed
+ * Errors are logged rather than thrown, as the caller is already handling a failure of its own.
+ */
+export async function deleteFromCloudinary(publicId: string): Promise<void> {
+  try {
+    await cloudinary.uploader.destroy(publicId, { resource_type: 'image' });
+  } catch (error) {
+    console.error(`Cloudinary delete error for ${publicId}:`, error);
+  }
+}
+
 export default cloudinary;
\ No newline at end of file
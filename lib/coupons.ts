@@ -0,0 +1,360 @@
+import {
+  Coupon,
+  CouponRedemptionStatus,
+  CouponType,
+  CreditTransactionType,
+  Prisma
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { creditExpiryFromDays, grantCredits } from './credit-lots';
+
+/**
+ * Promo codes
+ *
+ * A CREDITS coupon adds its value in credits as soon as it is redeemed, from the
+ * buy-credits page or at signup. A PERCENT_BONUS coupon is entered with a purchase:
+ * the bonus is set aside as a PENDING redemption when the payment request is
+ * submitted and paid out when the request is approved, or voided when it is not.
+ * Every payout is a BONUS credit lot and transaction linked to the coupon, and
+ * expires creditExpiryDays after it is paid out when the coupon sets that.
+ *
+ * Pending and redeemed uses both count against maxRedemptions and perUserLimit,
+ * so a code cannot be oversubscribed by purchases still awaiting review.
+ */
+
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+const MAX_PERCENT_BONUS = 100;
+
+// Redemptions that use up a coupon; VOID ones gave their use back
+const COUNTED_STATUSES = [CouponRedemptionStatus.PENDING, CouponRedemptionStatus.REDEEMED];
+
+/**
+ * Custom error class for codes that cannot be used and invalid admin input
+ */
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+/**
+ * What a code is worth to a user, before it is redeemed
+ */
+export interface CouponPreview {
+  code: string;
+  type: CouponType;
+  value: number;
+  description: string | null;
+  expiresAt: Date | null;
+  bonusCredits: number | null; // Credits the code adds; null for a purchase bonus without a purchase amount
+}
+
+/**
+ * Result of redeeming a CREDITS coupon
+ */
+export interface CouponRedemptionResult {
+  couponId: string;
+  code: string;
+  credits: number;
+  newBalance: number;
+  transactionId: string;
+}
+
+/**
+ * Fields an admin may set on a coupon
+ */
+export interface CouponInput {
+  code: string;
+  type: CouponType;
+  value: number;
+  maxRedemptions: number | null;
+  perUserLimit: number;
+  expiresAt: Date | null;
+  creditExpiryDays: number | null;
+  description: string | null;
+  isActive: boolean;
+}
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Codes are matched case-insensitively and stored upper-case
+ */
+export function normalizeCouponCode(code: unknown): string {
+  const normalized = typeof code === 'string' ? code.trim().toUpperCase() : '';
+  if (!COUPON_CODE_PATTERN.test(normalized)) {
+    throw new CouponError('Promo codes are 3 to 32 letters, numbers, dashes or underscores');
+  }
+  return normalized;
+}
+
+/**
+ * Bonus credits a coupon adds to a purchase of the given size
+ */
+export function couponBonusCredits(coupon: Pick<Coupon, 'type' | 'value'>, purchasedCredits?: number): number | null {
+  if (coupon.type === CouponType.CREDITS) return coupon.value;
+  if (purchasedCredits === undefined) return null;
+  return Math.floor((purchasedCredits * coupon.value) / 100);
+}
+
+/**
+ * Load a coupon and check that this user may still use it
+ */
+async function findUsableCoupon(client: Client, code: string, userId: string | null): Promise<Coupon> {
+  const coupon = await client.coupon.findUnique({ where: { code } });
+
+  if (!coupon || !coupon.isActive) {
+    throw new CouponError('This promo code is not valid');
+  }
+  if (coupon.expiresAt && coupon.expiresAt <= new Date()) {
+    throw new CouponError('This promo code has expired');
+  }
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+    throw new CouponError('This promo code has been fully redeemed');
+  }
+
+  if (userId) {
+    const used = await client.couponRedemption.count({
+      where: { couponId: coupon.id, userId, status: { in: COUNTED_STATUSES } }
+    });
+    if (used >= coupon.perUserLimit) {
+      throw new CouponError(
+        coupon.perUserLimit === 1
+          ? 'You have already used this promo code'
+          : `You have already used this promo code ${used} times`
+      );
+    }
+  }
+
+  return coupon;
+}
+
+/**
+ * Lock the coupon row so concurrent redemptions see each other's counts
+ */
+async function lockUsableCoupon(tx: Prisma.TransactionClient, code: string, userId: string): Promise<Coupon> {
+  await tx.$queryRaw`SELECT "id" FROM "public"."coupons" WHERE "code" = ${code} FOR UPDATE`;
+  return findUsableCoupon(tx, code, userId);
+}
+
+/**
+ * Check a code without using it
+ * Pass `userId` as null before the user exists (signup).
+ */
+export async function previewCoupon(code: unknown, userId: string | null, purchasedCredits?: number): Promise<CouponPreview> {
+  const coupon = await findUsableCoupon(prisma, normalizeCouponCode(code), userId);
+
+  return {
+    code: coupon.code,
+    type: coupon.type,
+    value: coupon.value,
+    description: coupon.description,
+    expiresAt: coupon.expiresAt,
+    bonusCredits: couponBonusCredits(coupon, purchasedCredits)
+  };
+}
+
+async function redeemCreditCouponIn(
+  tx: Prisma.TransactionClient,
+  code: string,
+  userId: string
+): Promise<CouponRedemptionResult> {
+  const coupon = await lockUsableCoupon(tx, code, userId);
+
+  if (coupon.type !== CouponType.CREDITS) {
+    throw new CouponError('This promo code gives bonus credits on a purchase; enter it when you buy credits');
+  }
+
+  await tx.coupon.update({
+    where: { id: coupon.id },
+    data: { redemptionCount: { increment: 1 } }
+  });
+
+  await tx.couponRedemption.create({
+    data: {
+      couponId: coupon.id,
+      userId,
+      credits: coupon.value
+    }
+  });
+
+  const grant = await grantCredits(tx, {
+    userId,
+    amount: coupon.value,
+    type: CreditTransactionType.BONUS,
+    description: `Promo code ${coupon.code}`,
+    expiresAt: creditExpiryFromDays(coupon.creditExpiryDays),
+    couponId: coupon.id
+  });
+
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    credits: coupon.value,
+    newBalance: grant.newBalance,
+    transactionId: grant.transactionId
+  };
+}
+
+/**
+ * Redeem a CREDITS coupon for a user
+ * Pass `tx` to redeem inside a surrounding transaction, e.g. together with creating the user.
+ */
+export async function redeemCreditCoupon(
+  code: unknown,
+  userId: string,
+  tx?: Prisma.TransactionClient
+): Promise<CouponRedemptionResult> {
+  const normalized = normalizeCouponCode(code);
+  return tx
+    ? redeemCreditCouponIn(tx, normalized, userId)
+    : prisma.$transaction((client) => redeemCreditCouponIn(client, normalized, userId));
+}
+
+/**
+ * Set a PERCENT_BONUS coupon aside for a payment request
+ * Call inside the transaction that creates the request. Returns the pending bonus in credits.
+ */
+export async function attachCouponToPurchase(
+  tx: Prisma.TransactionClient,
+  code: unknown,
+  userId: string,
+  paymentRequestId: string,
+  purchasedCredits: number
+): Promise<number> {
+  const coupon = await lockUsableCoupon(tx, normalizeCouponCode(code), userId);
+
+  if (coupon.type !== CouponType.PERCENT_BONUS) {
+    throw new CouponError('This promo code adds free credits; redeem it on the buy credits page instead');
+  }
+
+  const bonusCredits = couponBonusCredits(coupon, purchasedCredits) ?? 0;
+  if (bonusCredits <= 0) {
+    throw new CouponError('This purchase is too small for this promo code to add any credits');
+  }
+
+  await tx.coupon.update({
+    where: { id: coupon.id },
+    data: { redemptionCount: { increment: 1 } }
+  });
+
+  await tx.couponRedemption.create({
+    data: {
+      couponId: coupon.id,
+      userId,
+      paymentRequestId,
+      credits: bonusCredits,
+      status: CouponRedemptionStatus.PENDING
+    }
+  });
+
+  return bonusCredits;
+}
+
+/**
+ * Pay out or void the coupon bonus pending on a payment request
+ * Call inside the transaction that reviews the request. Pass `grantedCredits` when the
+ * request was approved for fewer credits than requested: the bonus is worked out again
+ * on what was granted. Returns the credits paid out.
+ */
+export async function settlePurchaseCoupon(
+  tx: Prisma.TransactionClient,
+  paymentRequestId: string,
+  approved: boolean,
+  grantedCredits?: number
+): Promise<number> {
+  const redemption = await tx.couponRedemption.findUnique({
+    where: { paymentRequestId },
+    include: { coupon: { select: { code: true, creditExpiryDays: true, type: true, value: true } } }
+  });
+
+  if (!redemption || redemption.status !== CouponRedemptionStatus.PENDING) {
+    return 0;
+  }
+
+  const bonusCredits = grantedCredits === undefined
+    ? redemption.credits
+    : Math.min(redemption.credits, couponBonusCredits(redemption.coupon, grantedCredits) ?? 0);
+
+  if (!approved || bonusCredits <= 0) {
+    await tx.couponRedemption.update({
+      where: { id: redemption.id },
+      data: { status: CouponRedemptionStatus.VOID }
+    });
+    // The use goes back to the pool
+    await tx.coupon.update({
+      where: { id: redemption.couponId },
+      data: { redemptionCount: { decrement: 1 } }
+    });
+    return 0;
+  }
+
+  await tx.couponRedemption.update({
+    where: { id: redemption.id },
+    data: { status: CouponRedemptionStatus.REDEEMED, credits: bonusCredits }
+  });
+
+  await grantCredits(tx, {
+    userId: redemption.userId,
+    amount: bonusCredits,
+    type: CreditTransactionType.BONUS,
+    description: `Promo code ${redemption.coupon.code} bonus - Payment Request #${paymentRequestId.slice(-8)}`,
+    expiresAt: creditExpiryFromDays(redemption.coupon.creditExpiryDays),
+    couponId: redemption.couponId
+  });
+
+  return bonusCredits;
+}
+
+function readOptionalInt(value: unknown, field: string, min: number): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new CouponError(`${field} must be a whole number of at least ${min}`);
+  }
+  return number;
+}
+
+/**
+ * Validate a coupon from the admin API
+ * With `existing`, fields missing from the body keep their current values.
+ */
+export function parseCouponInput(body: Record<string, unknown>, existing?: Coupon): CouponInput {
+  const pick = <K extends keyof CouponInput>(key: K): unknown =>
+    key in body ? body[key] : existing?.[key];
+
+  const type = pick('type');
+  if (!Object.values(CouponType).includes(type as CouponType)) {
+    throw new CouponError(`Invalid type. Must be one of: ${Object.values(CouponType).join(', ')}`);
+  }
+
+  const value = readOptionalInt(pick('value'), 'value', 1);
+  if (value === null) {
+    throw new CouponError('value is required');
+  }
+  if (type === CouponType.PERCENT_BONUS && value > MAX_PERCENT_BONUS) {
+    throw new CouponError(`A percent bonus cannot be more than ${MAX_PERCENT_BONUS}%`);
+  }
+
+  const rawExpiresAt = pick('expiresAt');
+  let expiresAt: Date | null = null;
+  if (rawExpiresAt !== undefined && rawExpiresAt !== null && rawExpiresAt !== '') {
+    expiresAt = new Date(rawExpiresAt as string | Date);
+    if (isNaN(expiresAt.getTime())) {
+      throw new CouponError('expiresAt must be a valid date');
+    }
+  }
+
+  return {
+    code: normalizeCouponCode(pick('code')),
+    type: type as CouponType,
+    value,
+    maxRedemptions: readOptionalInt(pick('maxRedemptions'), 'maxRedemptions', 1),
+    perUserLimit: readOptionalInt(pick('perUserLimit'), 'perUserLimit', 1) ?? 1,
+    expiresAt,
+    creditExpiryDays: readOptionalInt(pick('creditExpiryDays'), 'creditExpiryDays', 1),
+    description: typeof pick('description') === 'string' ? (pick('description') as string).trim() || null : null,
+    isActive: pick('isActive') === undefined ? true : Boolean(pick('isActive'))
+  };
+}
@@ -0,0 +1,213 @@
+import { CreditPackage, CreditPriceTier } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * Server-side catalog of what credits cost
+ *
+ * A purchase of exactly a package's credits costs the package price. Any other
+ * amount is a custom purchase priced per credit by the volume tier it falls in
+ * (the active tier with the highest minCredits not above the amount), so larger
+ * purchases can get a lower rate. Amounts below the lowest tier cannot be bought.
+ */
+
+export const PURCHASE_LOCATIONS = {
+  pakistan: {
+    currency: 'PKR',
+    paymentMethod: 'QR_CODE',
+    customQrCode: 'Custom 2pkr for 1 cradit.png'
+  },
+  international: {
+    currency: 'USD',
+    paymentMethod: 'BINANCE',
+    customQrCode: 'Binance 10$ equal to 1000 cradit.png'
+  }
+} as const;
+
+export type PurchaseLocation = keyof typeof PURCHASE_LOCATIONS;
+
+/**
+ * Custom error class for purchases or catalog edits the catalog does not allow
+ */
+export class CreditCatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CreditCatalogError';
+  }
+}
+
+/**
+ * Price of one purchase as the catalog sets it
+ */
+export interface CreditPurchaseQuote {
+  location: PurchaseLocation;
+  currency: string;
+  paymentMethod: string;
+  credits: number;
+  amount: number;
+  unitPrice: number;
+  discountPercent: number; // Saving per credit against the lowest tier's rate
+  packageId: string | null;
+  qrCode: string | null;
+}
+
+/**
+ * Everything the buy page shows for a location
+ */
+export interface CreditCatalog {
+  location: PurchaseLocation;
+  currency: string;
+  minCustomCredits: number | null; // null when custom amounts are not offered
+  packages: CreditPackage[];
+  tiers: Array<CreditPriceTier & { discountPercent: number }>;
+}
+
+export function isPurchaseLocation(value: unknown): value is PurchaseLocation {
+  return typeof value === 'string' && Object.hasOwn(PURCHASE_LOCATIONS, value);
+}
+
+/**
+ * Round to the smallest unit both currencies are quoted in
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Whether a submitted amount is the catalog amount, allowing for float formatting
+ */
+export function amountsMatch(submitted: number, expected: number): boolean {
+  return Math.abs(submitted - expected) < 0.005;
+}
+
+function discountPercent(unitPrice: number, baseUnitPrice: number): number {
+  if (baseUnitPrice <= 0 || unitPrice >= baseUnitPrice) return 0;
+  return Math.round((1 - unitPrice / baseUnitPrice) * 100);
+}
+
+async function loadLocation(location: PurchaseLocation) {
+  const [packages, tiers] = await Promise.all([
+    prisma.creditPackage.findMany({
+      where: { location, isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { credits: 'asc' }]
+    }),
+    prisma.creditPriceTier.findMany({
+      where: { location, isActive: true },
+      orderBy: { minCredits: 'asc' }
+    })
+  ]);
+  return { packages, tiers };
+}
+
+/**
+ * Load the active packages and tiers for a location
+ */
+export async function getCreditCatalog(location: PurchaseLocation): Promise<CreditCatalog> {
+  const { packages, tiers } = await loadLocation(location);
+  const baseUnitPrice = tiers[0]?.unitPrice ?? 0;
+
+  return {
+    location,
+    currency: PURCHASE_LOCATIONS[location].currency,
+    minCustomCredits: tiers[0]?.minCredits ?? null,
+    packages,
+    tiers: tiers.map((tier) => ({ ...tier, discountPercent: discountPercent(tier.unitPrice, baseUnitPrice) }))
+  };
+}
+
+/**
+ * Price a purchase of the given number of credits
+ */
+export async function priceCreditPurchase(location: PurchaseLocation, credits: number): Promise<CreditPurchaseQuote> {
+  if (!Number.isInteger(credits) || credits <= 0) {
+    throw new CreditCatalogError('Credits must be a positive whole number');
+  }
+
+  const { packages, tiers } = await loadLocation(location);
+  const { currency, paymentMethod, customQrCode } = PURCHASE_LOCATIONS[location];
+  const baseUnitPrice = tiers[0]?.unitPrice ?? 0;
+
+  const creditPackage = packages.find((pkg) => pkg.credits === credits);
+  if (creditPackage) {
+    const unitPrice = creditPackage.price / credits;
+    return {
+      location,
+      currency,
+      paymentMethod,
+      credits,
+      amount: roundAmount(creditPackage.price),
+      unitPrice,
+      discountPercent: discountPercent(unitPrice, baseUnitPrice),
+      packageId: creditPackage.id,
+      qrCode: creditPackage.qrCode
+    };
+  }
+
+  const tier = [...tiers].reverse().find((candidate) => candidate.minCredits <= credits);
+  if (!tier) {
+    throw new CreditCatalogError(
+      tiers.length > 0
+        ? `Minimum ${tiers[0].minCredits} credits required for a custom purchase`
+        : `Custom purchases are not available for ${location}; please choose a package`
+    );
+  }
+
+  return {
+    location,
+    currency,
+    paymentMethod,
+    credits,
+    amount: roundAmount(credits * tier.unitPrice),
+    unitPrice: tier.unitPrice,
+    discountPercent: discountPercent(tier.unitPrice, baseUnitPrice),
+    packageId: null,
+    qrCode: customQrCode
+  };
+}
+
+function readLocation(value: unknown): PurchaseLocation {
+  if (!isPurchaseLocation(value)) {
+    throw new CreditCatalogError(`Invalid location. Must be one of: ${Object.keys(PURCHASE_LOCATIONS).join(', ')}`);
+  }
+  return value;
+}
+
+function readPositiveNumber(value: unknown, field: string, integer: boolean): number {
+  const number = Number(value);
+  if (value === '' || value === null || !Number.isFinite(number) || number <= 0 || (integer && !Number.isInteger(number))) {
+    throw new CreditCatalogError(`${field} must be a positive ${integer ? 'whole ' : ''}number`);
+  }
+  return number;
+}
+
+/**
+ * Validate a package from the admin API
+ * With `existing`, fields missing from the body keep their current values.
+ */
+export function parseCreditPackageInput(body: Record<string, unknown>, existing?: CreditPackage) {
+  const pick = (key: keyof CreditPackage): unknown => (key in body ? body[key] : existing?.[key]);
+
+  return {
+    location: readLocation(pick('location')),
+    credits: readPositiveNumber(pick('credits'), 'credits', true),
+    price: roundAmount(readPositiveNumber(pick('price'), 'price', false)),
+    qrCode: typeof pick('qrCode') === 'string' ? (pick('qrCode') as string).trim() || null : null,
+    popular: Boolean(pick('popular')),
+    sortOrder: Number.isInteger(Number(pick('sortOrder'))) ? Number(pick('sortOrder')) : 0,
+    isActive: pick('isActive') === undefined ? true : Boolean(pick('isActive'))
+  };
+}
+
+/**
+ * Validate a volume tier from the admin API
+ * With `existing`, fields missing from the body keep their current values.
+ */
+export function parseCreditPriceTierInput(body: Record<string, unknown>, existing?: CreditPriceTier) {
+  const pick = (key: keyof CreditPriceTier): unknown => (key in body ? body[key] : existing?.[key]);
+
+  return {
+    location: readLocation(pick('location')),
+    minCredits: readPositiveNumber(pick('minCredits'), 'minCredits', true),
+    unitPrice: readPositiveNumber(pick('unitPrice'), 'unitPrice', false),
+    isActive: pick('isActive') === undefined ? true : Boolean(pick('isActive'))
+  };
+}
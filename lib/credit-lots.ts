@@ -0,0 +1,317 @@
+import { CreditLotSource, CreditTransactionType, Prisma, SubscriptionStatus } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * Credit lots
+ *
+ * Every grant of credits (a purchase, a bonus, an admin top-up) is a lot with its own
+ * optional expiry. Spending takes credits from the lots that expire soonest, lots that
+ * never expire last and older lots before newer ones. The expiry script takes what is
+ * left of an expired lot with a CREDIT_EXPIRY ledger entry.
+ *
+ * User.credits is kept as a cache of the lots' remaining credits. Every function here
+ * changes both in the caller's transaction with the user row locked, so the two cannot
+ * drift apart and concurrent spends are serialised per user.
+ */
+
+/**
+ * Credits taken from one lot
+ */
+export type LotConsumption = {
+  lotId: string;
+  amount: number;
+};
+
+/**
+ * A grant of credits as a lot plus its ledger entry
+ */
+export interface CreditGrant {
+  userId: string;
+  amount: number;
+  type: CreditTransactionType;
+  description: string;
+  expiresAt?: Date | null;
+  couponId?: string;
+}
+
+/**
+ * Result of granting credits
+ */
+export interface CreditGrantResult {
+  lotId: string;
+  transactionId: string;
+  newBalance: number;
+}
+
+/**
+ * Result of one expiry run
+ */
+export interface CreditExpiryResult {
+  lotsExpired: number;
+  creditsExpired: number;
+}
+
+const LOT_SOURCE_BY_TYPE: Partial<Record<CreditTransactionType, CreditLotSource>> = {
+  [CreditTransactionType.PURCHASE]: CreditLotSource.PURCHASE,
+  [CreditTransactionType.BONUS]: CreditLotSource.BONUS,
+  [CreditTransactionType.ADMIN_ADJUSTMENT]: CreditLotSource.ADMIN_ADJUSTMENT,
+  [CreditTransactionType.SUBSCRIPTION]: CreditLotSource.SUBSCRIPTION
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expiry date for credits granted now that should last the given number of days
+ */
+export function creditExpiryFromDays(days: number | null | undefined): Date | null {
+  return days ? new Date(Date.now() + days * DAY_MS) : null;
+}
+
+/**
+ * Lock the user row for the rest of the transaction
+ * Returns the cached balance, or null when the user does not exist.
+ */
+export async function lockUserCredits(tx: Prisma.TransactionClient, userId: string): Promise<number | null> {
+  const [user] = await tx.$queryRaw<{ credits: number }[]>`
+    SELECT "credits" FROM "public"."users" WHERE "id" = ${userId} FOR UPDATE
+  `;
+  return user ? user.credits : null;
+}
+
+/**
+ * Lots credits can still be taken from, in the order they are spent
+ */
+function spendableLots(tx: Prisma.TransactionClient, userId: string) {
+  return tx.creditLot.findMany({
+    where: {
+      userId,
+      remaining: { gt: 0 },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    },
+    orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+    select: { id: true, remaining: true }
+  });
+}
+
+/**
+ * Credits the user can spend: the cached balance less lots that expired but were not yet swept
+ */
+export async function getSpendableCredits(tx: Prisma.TransactionClient, userId: string): Promise<number> {
+  const total = await tx.creditLot.aggregate({
+    where: {
+      userId,
+      remaining: { gt: 0 },
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    },
+    _sum: { remaining: true }
+  });
+  return total._sum.remaining ?? 0;
+}
+
+/**
+ * Take up to `amount` credits from the user's lots and the cached balance
+ * The caller locks the user row and checks the spendable balance first.
+ */
+export async function consumeCreditLots(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number
+): Promise<{ consumed: LotConsumption[]; newBalance: number }> {
+  const consumed: LotConsumption[] = [];
+  let left = amount;
+
+  for (const lot of await spendableLots(tx, userId)) {
+    if (left === 0) break;
+    const take = Math.min(lot.remaining, left);
+    await tx.creditLot.update({
+      where: { id: lot.id },
+      data: { remaining: { decrement: take } }
+    });
+    consumed.push({ lotId: lot.id, amount: take });
+    left -= take;
+  }
+
+  const taken = amount - left;
+  const user = await tx.user.update({
+    where: { id: userId },
+    data: { credits: { decrement: taken } },
+    select: { credits: true }
+  });
+
+  return { consumed, newBalance: user.credits };
+}
+
+/**
+ * Put `amount` credits back into the lots they were taken from, last taken first
+ * Anything that cannot be matched to a lot (e.g. holds made before lots existed)
+ * goes into a new lot that never expires. Returns the new cached balance.
+ */
+export async function restoreCreditLots(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  consumed: LotConsumption[],
+  amount: number
+): Promise<number> {
+  let left = amount;
+
+  for (const entry of [...consumed].reverse()) {
+    if (left === 0) break;
+    const give = Math.min(entry.amount, left);
+    const restored = await tx.creditLot.updateMany({
+      where: { id: entry.lotId, userId },
+      data: { remaining: { increment: give } }
+    });
+    if (restored.count > 0) {
+      left -= give;
+    }
+  }
+
+  if (left > 0) {
+    await tx.creditLot.create({
+      data: {
+        userId,
+        source: CreditLotSource.LEGACY,
+        amount: left,
+        remaining: left
+      }
+    });
+  }
+
+  const user = await tx.user.update({
+    where: { id: userId },
+    data: { credits: { increment: amount } },
+    select: { credits: true }
+  });
+  return user.credits;
+}
+
+/**
+ * What is left of a consumption list after `amount` credits were restored from it
+ * Mirrors restoreCreditLots, which gives back the last credits taken first.
+ */
+export function withoutRestoredLots(consumed: LotConsumption[], amount: number): LotConsumption[] {
+  const kept = consumed.map((entry) => ({ ...entry }));
+  let left = amount;
+
+  while (left > 0 && kept.length > 0) {
+    const last = kept[kept.length - 1];
+    const give = Math.min(last.amount, left);
+    last.amount -= give;
+    left -= give;
+    if (last.amount === 0) {
+      kept.pop();
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Add credits as a new lot with a ledger entry
+ * Call inside a transaction; the user row is locked here.
+ */
+export async function grantCredits(tx: Prisma.TransactionClient, grant: CreditGrant): Promise<CreditGrantResult> {
+  if (await lockUserCredits(tx, grant.userId) === null) {
+    throw new Error('User not found');
+  }
+
+  const lot = await tx.creditLot.create({
+    data: {
+      userId: grant.userId,
+      source: LOT_SOURCE_BY_TYPE[grant.type] ?? CreditLotSource.ADMIN_ADJUSTMENT,
+      amount: grant.amount,
+      remaining: grant.amount,
+      expiresAt: grant.expiresAt ?? null
+    }
+  });
+
+  const user = await tx.user.update({
+    where: { id: grant.userId },
+    data: { credits: { increment: grant.amount } },
+    select: { credits: true }
+  });
+
+  const transaction = await tx.creditTransaction.create({
+    data: {
+      userId: grant.userId,
+      amount: grant.amount,
+      type: grant.type,
+      description: grant.description,
+      couponId: grant.couponId,
+      lotId: lot.id
+    }
+  });
+
+  return {
+    lotId: lot.id,
+    transactionId: transaction.id,
+    newBalance: user.credits
+  };
+}
+
+/**
+ * Take the remainder of expired lots, one lot per transaction
+ * Handles at most `limit` lots per call so a backlog is worked off in batches. The
+ * allowance of a subscription that is due for renewal is left until it has renewed,
+ * so the unused part can still be carried over whichever job runs first.
+ */
+export async function expireCreditLots(limit: number = 500): Promise<CreditExpiryResult> {
+  const now = new Date();
+  const awaitingRenewal = await prisma.userSubscription.findMany({
+    where: { status: SubscriptionStatus.ACTIVE, currentPeriodEnd: { lte: now } },
+    select: { allowanceLotId: true, rolloverLotId: true }
+  });
+  const heldLotIds = awaitingRenewal
+    .flatMap((subscription) => [subscription.allowanceLotId, subscription.rolloverLotId])
+    .filter((id): id is string => id !== null);
+
+  const due = await prisma.creditLot.findMany({
+    where: { remaining: { gt: 0 }, expiresAt: { lte: now }, id: { notIn: heldLotIds } },
+    orderBy: { expiresAt: 'asc' },
+    take: limit,
+    select: { id: true, userId: true }
+  });
+
+  const result: CreditExpiryResult = { lotsExpired: 0, creditsExpired: 0 };
+
+  for (const { id, userId } of due) {
+    const expired = await prisma.$transaction(async (tx) => {
+      await lockUserCredits(tx, userId);
+
+      // Re-read under the lock: the lot may have been spent from since it was listed
+      const lot = await tx.creditLot.findUniqueOrThrow({ where: { id } });
+      if (lot.remaining <= 0) {
+        return 0;
+      }
+
+      await tx.creditLot.update({
+        where: { id },
+        data: { remaining: 0, expiredAt: new Date() }
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: { credits: { decrement: lot.remaining } }
+      });
+
+      await tx.creditTransaction.create({
+        data: {
+          userId,
+          amount: -lot.remaining,
+          type: CreditTransactionType.CREDIT_EXPIRY,
+          description: `${lot.remaining} of ${lot.amount} ${lot.source.toLowerCase().replace('_', ' ')} credit(s) expired`,
+          lotId: id
+        }
+      });
+
+      return lot.remaining;
+    });
+
+    if (expired > 0) {
+      result.lotsExpired++;
+      result.creditsExpired += expired;
+    }
+  }
+
+  return result;
+}
@@ -1,5 +1,15 @@
 import { prisma } from './prisma';
-import { CreditTransactionType } from '@prisma/client';
+import { CreditReservationStatus, CreditTransactionType, Prisma } from '@prisma/client';
+import {
+  LotConsumption,
+  consumeCreditLots,
+  getSpendableCredits,
+  grantCredits,
+  lockUserCredits,
+  restoreCreditLots,
+  withoutRestoredLots
+} from './credit-lots';
+import { checkLowBalance } from './low-balance-alerts';
 
 /**
  * Custom error classes for better error handling
@@ -39,6 +49,43 @@ export interface CreditTransactionResult {
   error?: string;
 }
 
+/**
+ * Interface for credit reservation results
+ */
+export interface CreditReservationResult {
+  reservationId: string;
+  amount: number; // Credits actually held, may be less than requested with allowPartial
+  newBalance: number;
+  transactionId: string;
+}
+
+/**
+ * Options for holding credits
+ */
+export interface CreditReservationOptions {
+  jobId?: string;
+  description?: string;
+  allowPartial?: boolean;
+  expiresInMs?: number;
+}
+
+/**
+ * Interface for credit reservation release results
+ */
+export interface CreditReleaseResult {
+  reservationId: string;
+  captured: number;
+  released: number;
+  newBalance: number;
+}
+
+/**
+ * What a refund gives back: a direct debit by its transaction ID, or credits captured from a reservation
+ */
+export type CreditRefundSource =
+  | { chargeTransactionId: string; reservationId?: never }
+  | { reservationId: string; chargeTransactionId?: never };
+
 /**
  * Interface for credit validation results
  */
@@ -126,6 +173,8 @@ export class CreditManager {
 
   /**
    * Deduct credits with atomic transaction
+   * Every debit locks the user row and takes the credits from the soonest-expiring
+   * lots, so parallel requests can never take the balance below zero.
    */
   async deductCredits(
     amount: number,
@@ -137,49 +186,106 @@ export class CreditManager {
     }
 
     try {
-      // Validate credits before deduction
-      const validation = await this.validateCredits(amount);
-      if (!validation.isValid) {
-        throw new InsufficientCreditsError(amount, validation.available);
+      const result = await prisma.$transaction((tx) => this.deductCreditsWithin(tx, amount, description, transactionType));
+      await this.debitCommitted(amount, result);
+      return result;
+
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError || error instanceof UserNotFoundError) {
+        throw error;
       }
+      
+      return {
+        success: false,
+        newBalance: this.currentBalance || 0,
+        transactionId: '',
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
 
-      // Perform atomic transaction
-      const result = await prisma.$transaction(async (tx) => {
-        // Get current user with lock
-        const user = await tx.user.findUnique({
-          where: { id: this.userId },
-          select: { credits: true }
-        });
+  /**
+   * Deduct credits inside the caller's transaction, e.g. together with the record of what they paid for
+   * Unlike deductCredits every failure is thrown; pass the result to debitCommitted once the transaction has committed.
+   */
+  async deductCreditsWithin(
+    tx: Prisma.TransactionClient,
+    amount: number,
+    description?: string,
+    transactionType: CreditTransactionType = CreditTransactionType.IMAGE_DESCRIPTION
+  ): Promise<CreditTransactionResult> {
+    if (amount <= 0) {
+      throw new CreditTransactionError('Credit amount must be positive');
+    }
 
-        if (!user) {
-          throw new UserNotFoundError(this.userId);
-        }
+    if (await lockUserCredits(tx, this.userId) === null) {
+      throw new UserNotFoundError(this.userId);
+    }
 
-        // Double-check credits in transaction
-        if (user.credits < amount) {
-          throw new InsufficientCreditsError(amount, user.credits);
-        }
+    // Lots that expired but were not swept yet still count in User.credits, not here
+    const available = await getSpendableCredits(tx, this.userId);
+    if (available < amount) {
+      throw new InsufficientCreditsError(amount, available);
+    }
 
-        // Update user credits
-        const updatedUser = await tx.user.update({
-          where: { id: this.userId },
-          data: { credits: user.credits - amount }
-        });
+    const { consumed, newBalance } = await consumeCreditLots(tx, this.userId, amount);
 
-        // Create transaction record
-        const transaction = await tx.creditTransaction.create({
-          data: {
-            userId: this.userId,
-            amount: -amount,
-            type: transactionType,
-            description: description || `Deducted ${amount} credit(s)`
-          }
-        });
+    // Create transaction record
+    const transaction = await tx.creditTransaction.create({
+      data: {
+        userId: this.userId,
+        amount: -amount,
+        type: transactionType,
+        description: description || `Deducted ${amount} credit(s)`,
+        lots: consumed
+      }
+    });
 
-        return {
-          newBalance: updatedUser.credits,
-          transactionId: transaction.id
-        };
+    return {
+      success: true,
+      newBalance,
+      transactionId: transaction.id
+    };
+  }
+
+  /**
+   * Update the cached balance and check for a low balance once a debit has been committed
+   */
+  async debitCommitted(amount: number, result: CreditTransactionResult): Promise<void> {
+    // Update cache
+    this.currentBalance = result.newBalance;
+    this.lastUpdated = new Date();
+
+    await this.alertOnLowBalance(result.newBalance + amount, result.newBalance);
+  }
+
+  /**
+   * Add credits with atomic transaction
+   * The credits form a new lot; pass `expiresAt` for credits that should lapse.
+   */
+  async addCredits(
+    amount: number,
+    description?: string,
+    transactionType: CreditTransactionType = CreditTransactionType.ADMIN_ADJUSTMENT,
+    expiresAt: Date | null = null
+  ): Promise<CreditTransactionResult> {
+    if (amount <= 0) {
+      throw new CreditTransactionError('Credit amount must be positive');
+    }
+
+    try {
+      const result = await prisma.$transaction(async (tx) => {
+        if (await lockUserCredits(tx, this.userId) === null) {
+          throw new UserNotFoundError(this.userId);
+        }
+
+        return grantCredits(tx, {
+          userId: this.userId,
+          amount,
+          type: transactionType,
+          description: description || `Added ${amount} credit(s)`,
+          expiresAt
+        });
       });
 
       // Update cache
@@ -193,7 +299,7 @@ export class CreditManager {
       };
 
     } catch (error) {
-      if (error instanceof InsufficientCreditsError || error instanceof UserNotFoundError) {
+      if (error instanceof UserNotFoundError) {
         throw error;
       }
       
@@ -207,12 +313,15 @@ export class CreditManager {
   }
 
   /**
-   * Add credits with atomic transaction
+   * Give back credits charged for an image that did not produce a result, as a REFUND entry
+   * A direct debit is refunded at most once, into the lots it was taken from. Credits
+   * captured from a reservation are un-captured and returned to the balance straight
+   * away, so a later release does not count them again.
    */
-  async addCredits(
+  async refundCredits(
     amount: number,
-    description?: string,
-    transactionType: CreditTransactionType = CreditTransactionType.ADMIN_ADJUSTMENT
+    source: CreditRefundSource,
+    description?: string
   ): Promise<CreditTransactionResult> {
     if (amount <= 0) {
       throw new CreditTransactionError('Credit amount must be positive');
@@ -220,34 +329,68 @@ export class CreditManager {
 
     try {
       const result = await prisma.$transaction(async (tx) => {
-        // Get current user
-        const user = await tx.user.findUnique({
-          where: { id: this.userId },
-          select: { credits: true }
-        });
-
-        if (!user) {
+        if (await lockUserCredits(tx, this.userId) === null) {
           throw new UserNotFoundError(this.userId);
         }
 
-        // Update user credits
-        const updatedUser = await tx.user.update({
-          where: { id: this.userId },
-          data: { credits: user.credits + amount }
-        });
+        let lots: LotConsumption[];
+        if (source.chargeTransactionId) {
+          const charge = await tx.creditTransaction.findFirst({
+            where: { id: source.chargeTransactionId, userId: this.userId, amount: { lt: 0 } },
+            select: { amount: true, lots: true }
+          });
+          if (!charge || -charge.amount < amount) {
+            throw new CreditTransactionError(`Charge ${source.chargeTransactionId} cannot be refunded ${amount} credit(s)`);
+          }
+          lots = (charge.lots as LotConsumption[] | null) ?? [];
+        } else {
+          // A held reservation also shrinks, so its release still returns only what was never captured
+          const [reservation] = await tx.$queryRaw<Array<{
+            status: CreditReservationStatus;
+            amount: number;
+            captured: number;
+            lots: LotConsumption[] | null;
+          }>>`
+            UPDATE "public"."credit_reservations"
+            SET "captured" = "captured" - ${amount},
+                "amount" = CASE WHEN "status" = 'HELD' THEN "amount" - ${amount} ELSE "amount" END,
+                "updatedAt" = ${new Date()}
+            WHERE "id" = ${source.reservationId}
+              AND "userId" = ${this.userId}
+              AND "captured" >= ${amount}
+            RETURNING "status", "amount", "captured", "lots"
+          `;
+          if (!reservation) {
+            throw new CreditTransactionError(`Reservation ${source.reservationId} has not captured ${amount} credit(s)`);
+          }
+          lots = reservation.lots ?? [];
+          if (reservation.status === CreditReservationStatus.HELD) {
+            await tx.creditReservation.update({
+              where: { id: source.reservationId },
+              data: { lots: withoutRestoredLots(lots, amount) }
+            });
+          } else {
+            // The release and any earlier refunds already gave back everything not captured before
+            // this refund, without shrinking the list; skip those so no lot is credited twice
+            lots = withoutRestoredLots(lots, reservation.amount - reservation.captured - amount);
+          }
+        }
+
+        const newBalance = await restoreCreditLots(tx, this.userId, lots, amount);
 
-        // Create transaction record
         const transaction = await tx.creditTransaction.create({
           data: {
             userId: this.userId,
-            amount: amount,
-            type: transactionType,
-            description: description || `Added ${amount} credit(s)`
+            amount,
+            type: CreditTransactionType.REFUND,
+            description: description || `Refunded ${amount} credit(s)`,
+            refundOfId: source.chargeTransactionId,
+            reservationId: source.reservationId
           }
         });
 
         return {
-          newBalance: updatedUser.credits,
+          newBalance,
           transactionId: transaction.id
         };
       });
@@ -266,14 +409,296 @@ export class CreditManager {
       if (error instanceof UserNotFoundError) {
         throw error;
       }
-      
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new CreditTransactionError(`Charge ${source.chargeTransactionId} has already been refunded`);
+      }
+      if (error instanceof CreditTransactionError) {
+        throw error;
+      }
+      throw new CreditTransactionError(`Failed to refund credits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Hold credits for a bulk run
+   * The held amount leaves the balance immediately and is recorded as a CREDIT_HOLD
+   * ledger entry, so parallel requests cannot spend it. With allowPartial, as much
+   * as is available (at least one credit) is held instead of failing. The lots the
+   * credits came from are kept on the reservation for the release. With expiresInMs
+   * the hold is released by the sweep unless the run extends it in time.
+   */
+  async reserveCredits(
+    amount: number,
+    options: CreditReservationOptions = {}
+  ): Promise<CreditReservationResult> {
+    if (amount <= 0) {
+      throw new CreditTransactionError('Credit amount must be positive');
+    }
+
+    try {
+      const result = await prisma.$transaction((tx) => this.reserveCreditsWithin(tx, amount, options));
+      await this.reservationCommitted(result);
+      return result;
+
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError || error instanceof UserNotFoundError) {
+        throw error;
+      }
+      throw new CreditTransactionError(`Failed to reserve credits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Hold credits inside the caller's transaction, e.g. together with the work they pay for
+   * Works like reserveCredits; pass the result to reservationCommitted once the transaction has committed.
+   */
+  async reserveCreditsWithin(
+    tx: Prisma.TransactionClient,
+    amount: number,
+    options: CreditReservationOptions = {}
+  ): Promise<CreditReservationResult> {
+    if (amount <= 0) {
+      throw new CreditTransactionError('Credit amount must be positive');
+    }
+
+    // Lock the user row so concurrent holds and debits see each other
+    if (await lockUserCredits(tx, this.userId) === null) {
+      throw new UserNotFoundError(this.userId);
+    }
+
+    const available = await getSpendableCredits(tx, this.userId);
+    const held = options.allowPartial ? Math.min(amount, available) : amount;
+    if (held <= 0 || available < held) {
+      throw new InsufficientCreditsError(amount, available);
+    }
+
+    const { consumed, newBalance } = await consumeCreditLots(tx, this.userId, held);
+
+    const reservation = await tx.creditReservation.create({
+      data: {
+        userId: this.userId,
+        jobId: options.jobId,
+        amount: held,
+        lots: consumed,
+        expiresAt: options.expiresInMs ? new Date(Date.now() + options.expiresInMs) : undefined
+      }
+    });
+
+    const transaction = await tx.creditTransaction.create({
+      data: {
+        userId: this.userId,
+        amount: -held,
+        type: CreditTransactionType.CREDIT_HOLD,
+        description: options.description || `Reserved ${held} credit(s)`,
+        reservationId: reservation.id
+      }
+    });
+
+    return {
+      reservationId: reservation.id,
+      amount: held,
+      newBalance,
+      transactionId: transaction.id
+    };
+  }
+
+  /**
+   * Update the cached balance and check for a low balance once a hold has been committed
+   */
+  async reservationCommitted(result: CreditReservationResult): Promise<void> {
+    // Update cache
+    this.currentBalance = result.newBalance;
+    this.lastUpdated = new Date();
+
+    await this.alertOnLowBalance(result.newBalance + result.amount, result.newBalance);
+  }
+
+  /**
+   * Capture held credits for a successful image
+   * The credits already left the balance when they were held, so only the reservation changes.
+   * Pass a transaction client to capture together with the record of what was paid for.
+   * Returns the number of credits still held.
+   */
+  async captureReservedCredits(
+    reservationId: string,
+    amount: number = 1,
+    client: Prisma.TransactionClient | typeof prisma = prisma
+  ): Promise<number> {
+    if (amount <= 0) {
+      throw new CreditTransactionError('Credit amount must be positive');
+    }
+
+    const updated = await client.$executeRaw`
+      UPDATE "public"."credit_reservations"
+      SET "captured" = "captured" + ${amount}, "updatedAt" = ${new Date()}
+      WHERE "id" = ${reservationId}
+        AND "userId" = ${this.userId}
+        AND "status" = 'HELD'
+        AND "captured" + ${amount} <= "amount"
+    `;
+
+    if (updated === 0) {
+      throw new InsufficientCreditsError(amount, await this.getReservedCredits(reservationId, client));
+    }
+
+    return this.getReservedCredits(reservationId, client);
+  }
+
+  /**
+   * Push back the expiry of a held reservation while the run using it is still making progress
+   * Reservations without an expiry are left alone.
+   */
+  async extendReservation(reservationId: string, expiresInMs: number): Promise<void> {
+    await prisma.creditReservation.updateMany({
+      where: {
+        id: reservationId,
+        userId: this.userId,
+        status: CreditReservationStatus.HELD,
+        expiresAt: { not: null }
+      },
+      data: { expiresAt: new Date(Date.now() + expiresInMs) }
+    });
+  }
+
+  /**
+   * Credits still held by a reservation, 0 once it is used up or released
+   */
+  async getReservedCredits(
+    reservationId: string,
+    client: Prisma.TransactionClient | typeof prisma = prisma
+  ): Promise<number> {
+    const reservation = await client.creditReservation.findFirst({
+      where: { id: reservationId, userId: this.userId },
+      select: { amount: true, captured: true, status: true }
+    });
+
+    if (!reservation || reservation.status !== CreditReservationStatus.HELD) {
+      return 0;
+    }
+    return reservation.amount - reservation.captured;
+  }
+
+  /**
+   * Return the uncaptured part of a reservation to the balance as a CREDIT_RELEASE entry
+   * The credits go back to the lots they were held from, so they keep their expiry.
+   * Safe to call more than once; only the first call releases anything.
+   * With expiredBefore, only a reservation that expired before then is released.
+   */
+  async releaseReservation(
+    reservationId: string,
+    options: { expiredBefore?: Date } = {}
+  ): Promise<CreditReleaseResult | null> {
+    const result = await prisma.$transaction(async (tx) => {
+      // The user row is locked before the reservation, in the same order as every other credit change
+      const balance = await lockUserCredits(tx, this.userId);
+
+      const closed = await tx.creditReservation.updateMany({
+        where: {
+          id: reservationId,
+          userId: this.userId,
+          status: CreditReservationStatus.HELD,
+          ...(options.expiredBefore && { expiresAt: { lt: options.expiredBefore } })
+        },
+        data: { status: CreditReservationStatus.RELEASED, releasedAt: new Date() }
+      });
+
+      if (closed.count === 0) {
+        return null;
+      }
+
+      const reservation = await tx.creditReservation.findUniqueOrThrow({
+        where: { id: reservationId },
+        select: { amount: true, captured: true, lots: true }
+      });
+      const released = reservation.amount - reservation.captured;
+
+      const newBalance = released > 0
+        ? await restoreCreditLots(tx, this.userId, (reservation.lots as LotConsumption[] | null) ?? [], released)
+        : balance ?? 0;
+
+      if (released > 0) {
+        await tx.creditTransaction.create({
+          data: {
+            userId: this.userId,
+            amount: released,
+            type: CreditTransactionType.CREDIT_RELEASE,
+            description: `Released ${released} unused credit(s), ${reservation.captured} used`,
+            reservationId
+          }
+        });
+      }
+
       return {
-        success: false,
-        newBalance: this.currentBalance || 0,
-        transactionId: '',
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        reservationId,
+        captured: reservation.captured,
+        released,
+        newBalance
       };
+    });
+
+    if (result) {
+      // Update cache
+      this.currentBalance = result.newBalance;
+      this.lastUpdated = new Date();
+    }
+
+    return result;
+  }
+
+  /**
+   * Notify the user when a debit took their balance below their alert threshold
+   * The debit is already committed, so a failed alert is logged rather than thrown.
+   */
+  private async alertOnLowBalance(previousBalance: number, newBalance: number): Promise<void> {
+    try {
+      await checkLowBalance(this.userId, previousBalance, newBalance);
+    } catch (error) {
+      console.error(`Failed to check low balance for user ${this.userId}:`, error);
+    }
+  }
+
+  /**
+   * Static method to find the reservation still held for a description job
+   */
+  static async findJobReservation(jobId: string): Promise<{ id: string; userId: string } | null> {
+    return prisma.creditReservation.findFirst({
+      where: { jobId, status: CreditReservationStatus.HELD },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, userId: true }
+    });
+  }
+
+  /**
+   * Static method to release every reservation still held for a description job
+   */
+  static async releaseJobReservations(jobId: string): Promise<void> {
+    const reservations = await prisma.creditReservation.findMany({
+      where: { jobId, status: CreditReservationStatus.HELD },
+      select: { id: true, userId: true }
+    });
+
+    for (const reservation of reservations) {
+      await new CreditManager(reservation.userId).releaseReservation(reservation.id);
+    }
+  }
+
+  /**
+   * Static method to release held reservations whose expiry passed, e.g. of a run whose function was killed
+   * Returns the number of reservations released.
+   */
+  static async releaseExpiredReservations(now: Date = new Date()): Promise<number> {
+    const reservations = await prisma.creditReservation.findMany({
+      where: { status: CreditReservationStatus.HELD, expiresAt: { lt: now } },
+      select: { id: true, userId: true }
+    });
+
+    let released = 0;
+    for (const reservation of reservations) {
+      if (await new CreditManager(reservation.userId).releaseReservation(reservation.id, { expiredBefore: now })) {
+        released++;
+      }
     }
+    return released;
   }
 
   /**
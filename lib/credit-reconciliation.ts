@@ -0,0 +1,149 @@
+import { CreditLotSource, CreditTransactionType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { lockUserCredits } from './credit-lots';
+
+/**
+ * Ledger reconciliation
+ *
+ * A user's cached balance (User.credits) should equal both the sum of their
+ * CreditTransaction rows and the credits remaining in their lots. A difference means
+ * some path changed one without the other. Repairing treats the cached balance as
+ * the truth, since it is what the user has been shown and spent against: the ledger
+ * gets a LEDGER_ADJUSTMENT entry for the difference and the lots are topped up or
+ * trimmed to match.
+ */
+
+/**
+ * One user whose balance, ledger and lots disagree
+ */
+export interface BalanceDrift {
+  userId: string;
+  email: string;
+  balance: number;
+  ledgerBalance: number;
+  lotBalance: number;
+  ledgerDrift: number; // balance - ledgerBalance
+  lotDrift: number; // balance - lotBalance
+}
+
+/**
+ * What a repair changed for one user
+ */
+export interface BalanceRepair {
+  userId: string;
+  ledgerAdjustment: number;
+  lotAdjustment: number;
+  transactionId: string | null;
+}
+
+type BalanceRow = {
+  userId: string;
+  email: string;
+  balance: number;
+  ledgerBalance: number;
+  lotBalance: number;
+};
+
+function toDrift(row: BalanceRow): BalanceDrift {
+  return {
+    ...row,
+    ledgerDrift: row.balance - row.ledgerBalance,
+    lotDrift: row.balance - row.lotBalance
+  };
+}
+
+// One statement, so the three totals come from the same snapshot even while credits are being spent
+async function queryBalances(client: Prisma.TransactionClient | typeof prisma, userId?: string): Promise<BalanceRow[]> {
+  return client.$queryRaw<BalanceRow[]>`
+    SELECT "userId", "email", "balance", "ledgerBalance", "lotBalance"
+    FROM (
+      SELECT
+        u."id" AS "userId",
+        u."email",
+        u."credits" AS "balance",
+        COALESCE((SELECT SUM(t."amount") FROM "public"."credit_transactions" t WHERE t."userId" = u."id"), 0)::int AS "ledgerBalance",
+        COALESCE((SELECT SUM(l."remaining") FROM "public"."credit_lots" l WHERE l."userId" = u."id"), 0)::int AS "lotBalance"
+      FROM "public"."users" u
+      ${userId ? Prisma.sql`WHERE u."id" = ${userId}` : Prisma.empty}
+    ) balances
+    WHERE "balance" <> "ledgerBalance" OR "balance" <> "lotBalance"
+    ORDER BY "email"
+  `;
+}
+
+/**
+ * Users whose balance does not match their ledger or lots, optionally just one user
+ */
+export async function findBalanceDrift(userId?: string): Promise<BalanceDrift[]> {
+  return (await queryBalances(prisma, userId)).map(toDrift);
+}
+
+/**
+ * Bring one user's ledger and lots in line with their balance
+ * `actor` is recorded on the adjustment entry, e.g. the admin's email or "reconcile script".
+ * Returns null when there was nothing to repair by the time the user row was locked.
+ */
+export async function repairBalanceDrift(userId: string, actor: string): Promise<BalanceRepair | null> {
+  return prisma.$transaction(async (tx) => {
+    // Recheck under the lock so an in-flight spend is not mistaken for drift
+    if (await lockUserCredits(tx, userId) === null) {
+      return null;
+    }
+
+    const [row] = await queryBalances(tx, userId);
+    if (!row) {
+      return null;
+    }
+    const drift = toDrift(row);
+
+    let transactionId: string | null = null;
+    if (drift.ledgerDrift !== 0) {
+      const transaction = await tx.creditTransaction.create({
+        data: {
+          userId,
+          amount: drift.ledgerDrift,
+          type: CreditTransactionType.LEDGER_ADJUSTMENT,
+          description: `Ledger reconciliation by ${actor}: balance ${drift.balance}, ledger ${drift.ledgerBalance}`
+        }
+      });
+      transactionId = transaction.id;
+    }
+
+    if (drift.lotDrift > 0) {
+      // Credits in the balance that no lot accounts for; they have no known expiry
+      await tx.creditLot.create({
+        data: {
+          userId,
+          source: CreditLotSource.LEGACY,
+          amount: drift.lotDrift,
+          remaining: drift.lotDrift
+        }
+      });
+    } else if (drift.lotDrift < 0) {
+      // Lots hold more than the balance; take the excess in spending order
+      const lots = await tx.creditLot.findMany({
+        where: { userId, remaining: { gt: 0 } },
+        orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+        select: { id: true, remaining: true }
+      });
+
+      let excess = -drift.lotDrift;
+      for (const lot of lots) {
+        if (excess === 0) break;
+        const take = Math.min(lot.remaining, excess);
+        await tx.creditLot.update({
+          where: { id: lot.id },
+          data: { remaining: { decrement: take } }
+        });
+        excess -= take;
+      }
+    }
+
+    return {
+      userId,
+      ledgerAdjustment: drift.ledgerDrift,
+      lotAdjustment: drift.lotDrift,
+      transactionId
+    };
+  });
+}
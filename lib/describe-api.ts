@@ -0,0 +1,382 @@
+import { NextResponse } from 'next/server';
+import { DescriptionJobItemStatus, DescriptionJobStatus } from '@prisma/client';
+import { DescriptionJobTracker, getDescriptionJob } from './description-job';
+import { CreditManager, InsufficientCreditsError } from './credit-manager';
+import { UsageCapExceededError, assertWithinUsageCaps } from './usage-caps';
+import { DESCRIPTION_OUTPUT_OPTIONS, DescriptionOutputOption, DescriptionOutputs } from './description-providers';
+import { ImageDescriptionProcessor, ImageProcessResult } from './image-description-processor';
+
+/**
+ * Shared implementation of the versioned describe API (/api/v1/describe)
+ *
+ * Credit policy, the same for every mode: a request needs at least one credit
+ * to start, each image is charged its quoted price (see lib/pricing.ts) only
+ * after it was described successfully, and a batch stops once the balance no
+ * longer covers the next image. Batches hold the quoted total when they are queued
+ * and release whatever they did not use. The user's usage caps (lib/usage-caps.ts)
+ * are checked the same way: before the request starts and before each image.
+ *
+ * Only sync-single describes within the request. Batches in every mode are run by
+ * the background worker (lib/description-queue.ts), so a request that is cut off
+ * never leaves half a batch behind; streamed-bulk only reports the job's progress.
+ *
+ * Extra outputs are requested with repeated `outputs` form fields
+ * (long_description, keywords, translation) plus `language` for translations.
+ */
+
+export const DESCRIBE_MODES = ['sync-single', 'streamed-bulk', 'async-job'] as const;
+export type DescribeMode = typeof DESCRIBE_MODES[number];
+
+export const MAX_FILES_PER_REQUEST = 100;
+export const DESCRIBE_API_PATH = '/api/v1/describe';
+
+// How long a streamed-bulk response follows its job, under the 30 second function limit
+const STREAM_FOLLOW_MS = 25 * 1000;
+const STREAM_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Custom error class for requests rejected before any image is processed
+ */
+export class DescribeRequestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'DescribeRequestError';
+  }
+}
+
+/**
+ * Result for one image, identical across all modes
+ */
+export interface ProcessResult {
+  index: number;
+  filename: string;
+  success: boolean;
+  imageId?: string;
+  description?: string;
+  confidence?: number;
+  source?: string;
+  attemptedProviders?: string[];
+  error?: string;
+  creditsCharged?: number;
+  remainingCredits?: number;
+  usageCapResetsAt?: Date; // Set when one of the user's usage caps stopped the image
+}
+
+export interface DescribeSummary {
+  total: number;
+  successful: number;
+  failed: number;
+  creditsUsed: number;
+  remainingCredits: number;
+  stoppedDueToCredits: boolean;
+}
+
+/**
+ * Server-Sent Events emitted in streamed-bulk mode
+ * `pending` ends a stream whose job is still running; poll its status URL for the rest.
+ */
+export type DescribeStreamEvent =
+  | { type: 'job'; jobId: string; statusUrl: string }
+  | { type: 'pending'; jobId: string; statusUrl: string }
+  | { type: 'progress'; index: number; total: number }
+  | { type: 'result'; result: ProcessResult }
+  | { type: 'stopped'; message: string; remainingCredits: number }
+  | { type: 'complete'; jobId: string; summary: DescribeSummary }
+  | { type: 'error'; error: string };
+
+export function isDescribeMode(value: unknown): value is DescribeMode {
+  return typeof value === 'string' && (DESCRIBE_MODES as readonly string[]).includes(value);
+}
+
+export function toProcessResult(result: ImageProcessResult): ProcessResult {
+  return {
+    index: result.index,
+    filename: result.filename,
+    success: result.success,
+    imageId: result.imageId,
+    description: result.description,
+    confidence: result.confidence,
+    source: result.source,
+    attemptedProviders: result.attemptedProviders,
+    error: result.error,
+    creditsCharged: result.creditsCharged,
+    remainingCredits: result.remainingCredits,
+    usageCapResetsAt: result.usageCapResetsAt
+  };
+}
+
+/**
+ * Read the uploaded files for a mode: `image` for sync-single, `images` otherwise
+ */
+export function readDescribeFiles(formData: FormData, mode: DescribeMode): File[] {
+  if (mode === 'sync-single') {
+    const image = formData.get('image');
+    if (!(image instanceof File)) {
+      throw new DescribeRequestError('No image file provided');
+    }
+    return [image];
+  }
+
+  const images = formData.getAll('images').filter((value): value is File => value instanceof File);
+  if (images.length === 0) {
+    throw new DescribeRequestError('No image files provided');
+  }
+  if (images.length > MAX_FILES_PER_REQUEST) {
+    throw new DescribeRequestError(`Too many files. Maximum ${MAX_FILES_PER_REQUEST} files allowed per request.`);
+  }
+  return images;
+}
+
+/**
+ * Validate requested extra outputs, e.g. from repeated `outputs` form fields
+ * Values may also be comma-separated. `translation` needs a target language.
+ */
+export function parseDescribeOutputs(values: unknown[], language: unknown): DescriptionOutputs | undefined {
+  const options = values
+    .flatMap((value) => (typeof value === 'string' ? value.split(',') : []))
+    .map((value) => value.trim())
+    .filter((value, index, all) => value && all.indexOf(value) === index);
+
+  const invalid = options.filter((option) => !(DESCRIPTION_OUTPUT_OPTIONS as readonly string[]).includes(option));
+  if (invalid.length > 0) {
+    throw new DescribeRequestError(
+      `Invalid output option(s): ${invalid.join(', ')}. Must be one of: ${DESCRIPTION_OUTPUT_OPTIONS.join(', ')}`
+    );
+  }
+
+  if (options.length === 0) {
+    return undefined;
+  }
+
+  const outputs: DescriptionOutputs = { options: options as DescriptionOutputOption[] };
+  if (options.includes('translation')) {
+    const target = typeof language === 'string' ? language.trim() : '';
+    if (!/^[\p{L} ()-]{2,40}$/u.test(target)) {
+      throw new DescribeRequestError('A target language is required for the translation output');
+    }
+    outputs.language = target;
+  }
+  return outputs;
+}
+
+export function readDescribeOutputs(formData: FormData): DescriptionOutputs | undefined {
+  return parseDescribeOutputs(formData.getAll('outputs'), formData.get('language'));
+}
+
+export async function assertCanStart(userId: string, credits: number): Promise<void> {
+  if (credits < 1) {
+    throw new DescribeRequestError('Insufficient credits. Please purchase more credits to continue.', 402);
+  }
+  await assertWithinUsageCaps(userId, { images: 1, credits: 1 });
+}
+
+/**
+ * sync-single: describe one image within the request
+ */
+export async function describeSingle(userId: string, file: File, outputs?: DescriptionOutputs): Promise<ProcessResult> {
+  const processor = new ImageDescriptionProcessor(userId, { outputs });
+  return toProcessResult(await processor.processImage(file, 0));
+}
+
+/**
+ * async-job: queue the batch for the background worker
+ * A job that cannot be queued is closed with the error, so it is not left open.
+ */
+export async function enqueueDescribeJob(
+  userId: string,
+  files: File[],
+  outputs?: DescriptionOutputs
+): Promise<{ jobId: string; statusUrl: string; quotedCredits: number }> {
+  const job = await DescriptionJobTracker.create(userId, files, { outputs });
+  try {
+    const quote = await job.enqueue(userId);
+    return { jobId: job.jobId, statusUrl: `/api/describe/jobs/${job.jobId}`, quotedCredits: quote.totalCredits };
+  } catch (error) {
+    await job.finish({ error: error instanceof Error ? error.message : 'Failed to queue job' });
+    throw error;
+  }
+}
+
+/**
+ * streamed-bulk: queue the batch like async-job, then report each result as a Server-Sent Event
+ * The stream follows the job for up to STREAM_FOLLOW_MS; if the worker is not done by then it
+ * ends with a `pending` event and the rest can be read from the status URL.
+ */
+export async function streamDescribeBatch(
+  userId: string,
+  files: File[],
+  outputs?: DescriptionOutputs
+): Promise<Response> {
+  const { jobId, statusUrl } = await enqueueDescribeJob(userId, files, outputs);
+  const encoder = new TextEncoder();
+  let clientConnected = true;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: DescribeStreamEvent) => {
+        if (!clientConnected) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          clientConnected = false;
+        }
+      };
+
+      send({ type: 'job', jobId, statusUrl });
+
+      try {
+        await followJob(userId, jobId, statusUrl, send, () => clientConnected);
+      } catch (error) {
+        // The job carries on in the worker; only the report stops
+        console.error('Error following streamed bulk job:', error);
+        send({ type: 'error', error: 'Failed to report job progress' });
+      } finally {
+        if (clientConnected) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      clientConnected = false;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Job-Id': jobId,
+    },
+  });
+}
+
+type DescriptionJobWithItems = Awaited<ReturnType<typeof getDescriptionJob>>;
+
+function toItemResult(item: DescriptionJobWithItems['items'][number]): ProcessResult {
+  return {
+    index: item.index,
+    filename: item.filename,
+    success: item.status === DescriptionJobItemStatus.SUCCEEDED,
+    imageId: item.imageDescriptionId ?? undefined,
+    description: item.description ?? undefined,
+    confidence: item.confidence ?? undefined,
+    source: item.source ?? undefined,
+    attemptedProviders: item.attemptedProviders,
+    error: item.error ?? undefined,
+    creditsCharged: item.creditsCharged
+  };
+}
+
+/**
+ * Send the results of a queued job as the worker records them, until it finishes,
+ * the client goes away or STREAM_FOLLOW_MS has passed
+ */
+async function followJob(
+  userId: string,
+  jobId: string,
+  statusUrl: string,
+  send: (event: DescribeStreamEvent) => void,
+  isConnected: () => boolean
+): Promise<void> {
+  const startedAt = Date.now();
+  const reported = new Set<number>();
+
+  while (isConnected()) {
+    const job = await getDescriptionJob(userId, jobId);
+
+    for (const item of job.items) {
+      const finished = item.status === DescriptionJobItemStatus.SUCCEEDED || item.status === DescriptionJobItemStatus.FAILED;
+      if (!finished || reported.has(item.index)) continue;
+
+      reported.add(item.index);
+      send({ type: 'progress', index: reported.size, total: job.totalItems });
+      send({ type: 'result', result: toItemResult(item) });
+    }
+
+    if (job.status !== DescriptionJobStatus.PENDING && job.status !== DescriptionJobStatus.RUNNING) {
+      if (job.status === DescriptionJobStatus.FAILED) {
+        send({ type: 'error', error: job.error || 'Processing failed' });
+        return;
+      }
+
+      const remainingCredits = await new CreditManager(userId).getCurrentBalance();
+      if (job.status === DescriptionJobStatus.STOPPED) {
+        send({
+          type: 'stopped',
+          message: job.error
+            ? `Processing stopped: ${job.error}`
+            : job.stoppedDueToCredits ? 'Processing stopped due to insufficient credits' : 'Processing stopped',
+          remainingCredits
+        });
+      }
+      send({
+        type: 'complete',
+        jobId,
+        summary: {
+          total: job.totalItems,
+          successful: job.successful,
+          failed: job.failed,
+          creditsUsed: job.creditsUsed,
+          remainingCredits,
+          stoppedDueToCredits: job.stoppedDueToCredits
+        }
+      });
+      return;
+    }
+
+    if (Date.now() - startedAt >= STREAM_FOLLOW_MS) {
+      send({ type: 'pending', jobId, statusUrl });
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, STREAM_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Mark a response from a legacy describe route as deprecated in favour of the versioned API
+ */
+export function withDeprecation<T extends Response>(response: T, mode: DescribeMode): T {
+  if (response.headers.has('Deprecation')) {
+    return response;
+  }
+  response.headers.set('Deprecation', 'true');
+  response.headers.set('Link', `<${DESCRIBE_API_PATH}?mode=${mode}>; rel="successor-version"`);
+  return response;
+}
+
+/**
+ * Map errors thrown while handling a describe request to a JSON response
+ */
+export function describeErrorResponse(error: unknown): NextResponse {
+  if (error instanceof DescribeRequestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof InsufficientCreditsError) {
+    return NextResponse.json({ error: error.message }, { status: 402 });
+  }
+
+  if (error instanceof UsageCapExceededError) {
+    return NextResponse.json(
+      { error: error.message, resetsAt: error.resetsAt.toISOString() },
+      {
+        status: 429,
+        headers: { 'Retry-After': String(Math.max(1, Math.ceil((error.resetsAt.getTime() - Date.now()) / 1000))) }
+      }
+    );
+  }
+
+  // Check if it's an authentication error
+  if (error instanceof Error && (error.message === 'User not authenticated' || error.message === 'User not found')) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: 'Failed to process image(s)' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,490 @@
+import { prisma } from './prisma';
+import { CreditManager, CreditReservationResult, InsufficientCreditsError } from './credit-manager';
+import { lockUserCredits } from './credit-lots';
+import { DescriptionOutputs } from './description-providers';
+import { BatchQuote, quoteDescriptionBatch } from './pricing';
+import { DescriptionJobItemStatus, DescriptionJobStatus, DescriptionQueueStatus, Prisma } from '@prisma/client';
+
+/**
+ * Custom error classes for job lookups
+ */
+export class DescriptionJobNotFoundError extends Error {
+  constructor(jobId: string) {
+    super(`Description job with ID ${jobId} not found`);
+    this.name = 'DescriptionJobNotFoundError';
+  }
+}
+
+export class DescriptionJobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DescriptionJobStateError';
+  }
+}
+
+/**
+ * Which items a retry should pick up
+ * - failed: items that ran and failed
+ * - unprocessed: items never reached, e.g. because credits ran out
+ * - all: both of the above
+ */
+export type JobRetryScope = 'failed' | 'unprocessed' | 'all';
+
+const RETRY_SCOPE_STATUSES: Record<JobRetryScope, DescriptionJobItemStatus[]> = {
+  failed: [DescriptionJobItemStatus.FAILED],
+  unprocessed: [DescriptionJobItemStatus.SKIPPED],
+  all: [DescriptionJobItemStatus.FAILED, DescriptionJobItemStatus.SKIPPED]
+};
+
+/**
+ * How long a finished job keeps the uploads of its failed and skipped items for a retry
+ */
+export const JOB_FILE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * How long an open job may go without progress before its run is taken to be gone,
+ * e.g. because the function serving the request was killed. Each image finishes well within it.
+ */
+export const STALE_JOB_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Open jobs that nothing is working on any more: no progress for STALE_JOB_MS
+ * and no queue entry waiting or in progress (the worker's lease covers those)
+ */
+function staleJobWhere(now: Date): Prisma.DescriptionJobWhereInput {
+  return {
+    status: { in: [DescriptionJobStatus.PENDING, DescriptionJobStatus.RUNNING] },
+    updatedAt: { lt: new Date(now.getTime() - STALE_JOB_MS) },
+    queueEntries: {
+      none: { status: { in: [DescriptionQueueStatus.QUEUED, DescriptionQueueStatus.PROCESSING] } }
+    }
+  };
+}
+
+const STALE_JOB_ERROR = 'Processing stopped before the job finished';
+
+/**
+ * Hold the quoted price of items and put them on the work queue in the same transaction,
+ * so no worker can pick an item up before its credits are held. When nothing can be held
+ * the worker's per-item credit check stops the job instead.
+ */
+async function queueItems(
+  tx: Prisma.TransactionClient,
+  credits: CreditManager,
+  jobId: string,
+  itemIndexes: number[],
+  quote: BatchQuote
+): Promise<CreditReservationResult | null> {
+  let reservation: CreditReservationResult | null = null;
+  if (quote.totalCredits > 0) {
+    try {
+      reservation = await credits.reserveCreditsWithin(tx, quote.totalCredits, {
+        jobId,
+        allowPartial: true,
+        description: `Reserved credits for ${itemIndexes.length} queued image(s)`
+      });
+    } catch (error) {
+      if (!(error instanceof InsufficientCreditsError)) {
+        throw error;
+      }
+    }
+  }
+
+  await tx.descriptionQueueEntry.createMany({
+    data: itemIndexes.map((itemIndex) => ({ jobId, itemIndex, status: DescriptionQueueStatus.QUEUED }))
+  });
+
+  return reservation;
+}
+
+/**
+ * Per-item outcome recorded against a job
+ */
+export interface JobItemResult {
+  index: number;
+  success: boolean;
+  imageId?: string;
+  description?: string;
+  confidence?: number;
+  source?: string;
+  attemptedProviders?: string[];
+  creditsCharged?: number;
+  error?: string;
+}
+
+/**
+ * Final state written when a job ends
+ */
+export interface JobCompletion {
+  stoppedDueToCredits?: boolean;
+  usageCap?: string; // Message of the usage cap that stopped the job
+  cancelled?: boolean;
+  error?: string;
+}
+
+/**
+ * DescriptionJobTracker persists the progress of a bulk description run
+ * so it survives the HTTP stream that started it. Tracking failures are
+ * logged rather than thrown, so they never abort the images being processed.
+ */
+export class DescriptionJobTracker {
+  readonly jobId: string;
+
+  private constructor(jobId: string) {
+    this.jobId = jobId;
+  }
+
+  /**
+   * Create a job with one pending item per file
+   * The uploaded bytes are stored with each item so failed items can be retried without a re-upload;
+   * they are dropped once the item succeeds or the job has been finished for JOB_FILE_RETENTION_MS.
+   * Requested outputs are stored so queued and retried items get the same ones.
+   */
+  static async create(
+    userId: string,
+    files: File[],
+    options: { outputs?: DescriptionOutputs } = {}
+  ): Promise<DescriptionJobTracker> {
+    const items = await Promise.all(
+      files.map(async (file, index) => ({
+        index,
+        filename: file.name,
+        fileSize: file.size,
+        mimeType: file.type,
+        fileData: Buffer.from(await file.arrayBuffer())
+      }))
+    );
+
+    const job = await prisma.descriptionJob.create({
+      data: {
+        userId,
+        totalItems: files.length,
+        outputs: options.outputs,
+        items: {
+          create: items
+        }
+      },
+      select: { id: true }
+    });
+
+    return new DescriptionJobTracker(job.id);
+  }
+
+  /**
+   * Track an existing job, e.g. one picked up by the background worker
+   */
+  static attach(jobId: string): DescriptionJobTracker {
+    return new DescriptionJobTracker(jobId);
+  }
+
+  /**
+   * Reopen a finished job for its failed and/or unreached items and queue them again
+   * A job left open by a run that died (see STALE_JOB_MS) is failed first, so it can be retried too.
+   * Returns the item indexes that were queued, in item order, and the quote held for them.
+   */
+  static async reopen(
+    userId: string,
+    jobId: string,
+    scope: JobRetryScope = 'all'
+  ): Promise<{ tracker: DescriptionJobTracker; itemIndexes: number[]; quote: BatchQuote }> {
+    const statuses = RETRY_SCOPE_STATUSES[scope];
+
+    const stale = await prisma.descriptionJob.findFirst({
+      where: { id: jobId, userId, ...staleJobWhere(new Date()) },
+      select: { id: true }
+    });
+    if (stale) {
+      await DescriptionJobTracker.attach(jobId).finish({ error: STALE_JOB_ERROR });
+    }
+
+    const credits = new CreditManager(userId);
+    const reopened = await prisma.$transaction(async (tx) => {
+      // The hold below locks the user row; take it first, in the same order as every other credit change
+      await lockUserCredits(tx, userId);
+
+      const job = await tx.descriptionJob.findFirst({
+        where: { id: jobId, userId },
+        select: { id: true, outputs: true }
+      });
+
+      if (!job) {
+        throw new DescriptionJobNotFoundError(jobId);
+      }
+
+      // Claim the job; only one retry may run at a time
+      const claimed = await tx.descriptionJob.updateMany({
+        where: {
+          id: jobId,
+          status: { notIn: [DescriptionJobStatus.PENDING, DescriptionJobStatus.RUNNING] }
+        },
+        data: {
+          status: DescriptionJobStatus.PENDING,
+          stoppedDueToCredits: false,
+          error: null,
+          completedAt: null
+        }
+      });
+
+      if (claimed.count === 0) {
+        throw new DescriptionJobStateError('Job is still running');
+      }
+
+      const items = await tx.descriptionJobItem.findMany({
+        where: { jobId, status: { in: statuses } },
+        orderBy: { index: 'asc' }
+      });
+
+      const retryable = items.filter((item) => item.fileData);
+      if (retryable.length === 0) {
+        throw new DescriptionJobStateError(
+          items.length > 0 ? 'The uploaded files are no longer kept for this job' : 'No items to retry'
+        );
+      }
+
+      const failedCount = retryable.filter((item) => item.status === DescriptionJobItemStatus.FAILED).length;
+      const itemIndexes = retryable.map((item) => item.index);
+
+      await tx.descriptionJobItem.updateMany({
+        where: { jobId, index: { in: itemIndexes } },
+        data: {
+          status: DescriptionJobItemStatus.PENDING,
+          error: null,
+          startedAt: null,
+          completedAt: null
+        }
+      });
+
+      // Retried failures are counted again when they finish
+      await tx.descriptionJob.update({
+        where: { id: jobId },
+        data: { failed: { decrement: failedCount } }
+      });
+
+      const quote = await quoteDescriptionBatch(
+        retryable.map((item) => ({ filename: item.filename, fileSize: item.fileSize ?? 0 })),
+        (job.outputs as DescriptionOutputs | null) ?? undefined
+      );
+
+      // Replace any earlier queue entries so the retried items are picked up fresh
+      await tx.descriptionQueueEntry.deleteMany({
+        where: { jobId, itemIndex: { in: itemIndexes } }
+      });
+      const reservation = await queueItems(tx, credits, jobId, itemIndexes, quote);
+
+      return { itemIndexes, quote, reservation };
+    });
+
+    if (reopened.reservation) {
+      await credits.reservationCommitted(reopened.reservation);
+    }
+    return { tracker: new DescriptionJobTracker(jobId), itemIndexes: reopened.itemIndexes, quote: reopened.quote };
+  }
+
+  private async safely(action: string, operation: () => Promise<unknown>): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      console.error(`Failed to ${action} for description job ${this.jobId}:`, error);
+    }
+  }
+
+  /**
+   * Quote the job's items (all of them, or the given indexes) against the current pricing rules
+   */
+  async quote(itemIndexes?: number[]): Promise<BatchQuote> {
+    const job = await prisma.descriptionJob.findUniqueOrThrow({
+      where: { id: this.jobId },
+      select: {
+        outputs: true,
+        items: {
+          where: itemIndexes ? { index: { in: itemIndexes } } : undefined,
+          orderBy: { index: 'asc' },
+          select: { filename: true, fileSize: true }
+        }
+      }
+    });
+
+    return quoteDescriptionBatch(
+      job.items.map((item) => ({ filename: item.filename, fileSize: item.fileSize ?? 0 })),
+      (job.outputs as DescriptionOutputs | null) ?? undefined
+    );
+  }
+
+  /**
+   * Put every item of a new job on the work queue for the background worker, holding
+   * their quoted price; the worker captures each item's price on success and the rest
+   * is released when the job finishes
+   */
+  async enqueue(userId: string): Promise<BatchQuote> {
+    const [quote, items] = await Promise.all([
+      this.quote(),
+      prisma.descriptionJobItem.findMany({
+        where: { jobId: this.jobId },
+        orderBy: { index: 'asc' },
+        select: { index: true }
+      })
+    ]);
+
+    const credits = new CreditManager(userId);
+    const reservation = await prisma.$transaction((tx) =>
+      queueItems(tx, credits, this.jobId, items.map((item) => item.index), quote)
+    );
+    if (reservation) {
+      await credits.reservationCommitted(reservation);
+    }
+    return quote;
+  }
+
+  async markRunning(): Promise<void> {
+    await this.safely('mark job running', () =>
+      prisma.descriptionJob.update({
+        where: { id: this.jobId },
+        data: { status: DescriptionJobStatus.RUNNING, startedAt: new Date() }
+      })
+    );
+  }
+
+  async markItemProcessing(index: number): Promise<void> {
+    await this.safely('mark item processing', () =>
+      prisma.descriptionJobItem.update({
+        where: { jobId_index: { jobId: this.jobId, index } },
+        data: { status: DescriptionJobItemStatus.PROCESSING, startedAt: new Date() }
+      })
+    );
+  }
+
+  /**
+   * Record the outcome of one item and keep the job counters in step
+   */
+  async recordResult(result: JobItemResult): Promise<void> {
+    await this.safely('record item result', () =>
+      prisma.$transaction([
+        prisma.descriptionJobItem.update({
+          where: { jobId_index: { jobId: this.jobId, index: result.index } },
+          data: {
+            status: result.success ? DescriptionJobItemStatus.SUCCEEDED : DescriptionJobItemStatus.FAILED,
+            // The stored bytes are only needed while the item may still be retried
+            fileData: result.success ? null : undefined,
+            imageDescriptionId: result.imageId,
+            description: result.description,
+            confidence: result.confidence,
+            source: result.source,
+            attemptedProviders: result.attemptedProviders || [],
+            creditsCharged: result.creditsCharged ?? 0,
+            error: result.error,
+            completedAt: new Date()
+          }
+        }),
+        prisma.descriptionJob.update({
+          where: { id: this.jobId },
+          data: result.success
+            ? { successful: { increment: 1 }, creditsUsed: { increment: result.creditsCharged ?? 0 } }
+            : { failed: { increment: 1 } }
+        })
+      ])
+    );
+  }
+
+  /**
+   * Close the job, marking any items that were never reached as skipped
+   * and releasing credits still held for it
+   */
+  async finish(completion: JobCompletion = {}): Promise<void> {
+    const status = completion.error
+      ? DescriptionJobStatus.FAILED
+      : completion.stoppedDueToCredits || completion.usageCap || completion.cancelled
+        ? DescriptionJobStatus.STOPPED
+        : DescriptionJobStatus.COMPLETED;
+
+    await this.safely('finish job', () =>
+      prisma.$transaction([
+        prisma.descriptionJobItem.updateMany({
+          where: {
+            jobId: this.jobId,
+            status: { in: [DescriptionJobItemStatus.PENDING, DescriptionJobItemStatus.PROCESSING] }
+          },
+          data: { status: DescriptionJobItemStatus.SKIPPED }
+        }),
+        prisma.descriptionJob.update({
+          where: { id: this.jobId },
+          data: {
+            status,
+            stoppedDueToCredits: completion.stoppedDueToCredits || false,
+            error: completion.error ?? completion.usageCap,
+            completedAt: new Date()
+          }
+        })
+      ])
+    );
+
+    await this.safely('release held credits', () => CreditManager.releaseJobReservations(this.jobId));
+  }
+}
+
+/**
+ * Get a job with its items, scoped to the owning user
+ */
+export async function getDescriptionJob(userId: string, jobId: string) {
+  const job = await prisma.descriptionJob.findFirst({
+    where: { id: jobId, userId },
+    include: {
+      items: {
+        orderBy: { index: 'asc' },
+        omit: { fileData: true }
+      }
+    }
+  });
+
+  if (!job) {
+    throw new DescriptionJobNotFoundError(jobId);
+  }
+
+  return job;
+}
+
+/**
+ * Drop the stored uploads of jobs finished longer than JOB_FILE_RETENTION_MS ago
+ * Their failed and skipped items can no longer be retried. Returns the number of items cleared.
+ */
+export async function purgeExpiredJobFiles(now: Date = new Date()): Promise<number> {
+  const result = await prisma.descriptionJobItem.updateMany({
+    where: {
+      fileData: { not: null },
+      job: {
+        status: { notIn: [DescriptionJobStatus.PENDING, DescriptionJobStatus.RUNNING] },
+        completedAt: { lt: new Date(now.getTime() - JOB_FILE_RETENTION_MS) }
+      }
+    },
+    data: { fileData: null }
+  });
+
+  return result.count;
+}
+
+/**
+ * Fail open jobs whose run stopped without finishing them
+ * Their unfinished items are skipped and their held credits released, so they can be retried.
+ * Returns the number of jobs failed.
+ */
+export async function failStaleJobs(now: Date = new Date()): Promise<number> {
+  const jobs = await prisma.descriptionJob.findMany({
+    where: staleJobWhere(now),
+    select: { id: true }
+  });
+
+  for (const job of jobs) {
+    await DescriptionJobTracker.attach(job.id).finish({ error: STALE_JOB_ERROR });
+  }
+  return jobs.length;
+}
+
+/**
+ * List a user's most recent jobs, newest first
+ */
+export async function listDescriptionJobs(userId: string, limit: number = 10) {
+  return prisma.descriptionJob.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+}
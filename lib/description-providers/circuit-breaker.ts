@@ -0,0 +1,49 @@
+/**
+ * Configuration for the per-provider circuit breaker
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  windowMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  windowMs: 60 * 1000 // 1 minute
+};
+
+/**
+ * Tracks recent failures per provider and opens the circuit for a provider
+ * once it has failed `failureThreshold` times within the rolling window.
+ * State is kept in memory, so each server instance has its own view.
+ */
+export class CircuitBreaker {
+  private failures = new Map<string, number[]>();
+
+  private prune(providerId: string, config: CircuitBreakerConfig, now: number): number[] {
+    const recent = (this.failures.get(providerId) || []).filter(
+      (timestamp) => now - timestamp < config.windowMs
+    );
+    this.failures.set(providerId, recent);
+    return recent;
+  }
+
+  isOpen(providerId: string, config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG): boolean {
+    return this.prune(providerId, config, Date.now()).length >= config.failureThreshold;
+  }
+
+  recordFailure(providerId: string, config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG): void {
+    const now = Date.now();
+    const recent = this.prune(providerId, config, now);
+    recent.push(now);
+  }
+
+  recordSuccess(providerId: string): void {
+    this.failures.delete(providerId);
+  }
+
+  reset(): void {
+    this.failures.clear();
+  }
+}
+
+export const circuitBreaker = new CircuitBreaker();
@@ -0,0 +1,184 @@
+import { getSettings } from '@/lib/settings';
+import {
+  CircuitBreakerConfig,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  circuitBreaker
+} from './circuit-breaker';
+import { createRequestSignal } from './http';
+import { getActiveProviderId, providerRegistry } from './registry';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from './retry';
+import {
+  DescribeOptions,
+  DescriptionProvider,
+  DescriptionResult,
+  ProviderError,
+  ProviderNotConfiguredError
+} from './types';
+
+// Settings key holding the ordered, comma-separated list of provider ids to try
+export const PROVIDER_CHAIN_SETTING = 'DESCRIPTION_PROVIDER_CHAIN';
+
+/**
+ * Description result annotated with every provider that was tried
+ */
+export interface ChainDescriptionResult extends DescriptionResult {
+  attemptedProviders: string[];
+}
+
+/**
+ * Options for a fallback chain call
+ */
+export interface FallbackOptions extends DescribeOptions {
+  retry?: RetryPolicy;
+  deadlineMs?: number; // Time for the whole chain, retries and backoff included; timeoutMs still caps each attempt
+}
+
+/**
+ * Error raised when every provider in the chain failed or was skipped
+ */
+export class ProviderChainError extends Error {
+  constructor(
+    message: string,
+    public attemptedProviders: string[],
+    public errors: ProviderError[] = []
+  ) {
+    super(message);
+    this.name = 'ProviderChainError';
+  }
+}
+
+/**
+ * Only upstream outages count against a provider's circuit:
+ * timeouts, network errors, rate limits and 5xx responses.
+ */
+function isCircuitFailure(error: ProviderError): boolean {
+  if (error instanceof ProviderNotConfiguredError) return false;
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+}
+
+async function loadChainSettings(): Promise<{ chain: string[]; breaker: CircuitBreakerConfig }> {
+  const settings = await getSettings([
+    PROVIDER_CHAIN_SETTING,
+    'PROVIDER_FAILURE_THRESHOLD',
+    'PROVIDER_FAILURE_WINDOW_MS'
+  ]);
+
+  const chain = (settings[PROVIDER_CHAIN_SETTING] || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id, index, ids) => id && providerRegistry.has(id) && ids.indexOf(id) === index);
+
+  const threshold = parseInt(settings.PROVIDER_FAILURE_THRESHOLD || '');
+  const windowMs = parseInt(settings.PROVIDER_FAILURE_WINDOW_MS || '');
+
+  return {
+    chain,
+    breaker: {
+      failureThreshold: threshold > 0 ? threshold : DEFAULT_CIRCUIT_BREAKER_CONFIG.failureThreshold,
+      windowMs: windowMs > 0 ? windowMs : DEFAULT_CIRCUIT_BREAKER_CONFIG.windowMs
+    }
+  };
+}
+
+/**
+ * Resolve the ordered list of providers to try
+ * The active provider always goes first, followed by the configured fallbacks.
+ */
+export async function resolveProviderChain(): Promise<DescriptionProvider[]> {
+  const { chain } = await loadChainSettings();
+  const activeId = await getActiveProviderId();
+  const ids = [activeId, ...chain.filter((id) => id !== activeId)];
+  return Promise.all(ids.map((id) => providerRegistry.resolve(id)));
+}
+
+/**
+ * Describe an image, trying each provider in the configured chain in turn
+ * and skipping providers whose circuit is open. Each provider is retried
+ * according to the retry policy before moving on to the next one, until the
+ * chain's deadline passes.
+ */
+export async function describeWithFallback(
+  file: File,
+  options: FallbackOptions = {}
+): Promise<ChainDescriptionResult> {
+  const { retry = DEFAULT_RETRY_POLICY, deadlineMs, ...describeOptions } = options;
+  const startedAt = Date.now();
+  const deadline = createRequestSignal({ timeoutMs: deadlineMs, signal: options.signal });
+  try {
+    return await runChain(file, describeOptions, retry, deadline.signal, () =>
+      deadlineMs ? Math.max(0, deadlineMs - (Date.now() - startedAt)) : undefined
+    );
+  } finally {
+    deadline.cleanup();
+  }
+}
+
+async function runChain(
+  file: File,
+  describeOptions: DescribeOptions,
+  retry: RetryPolicy,
+  signal: AbortSignal,
+  remainingMs: () => number | undefined
+): Promise<ChainDescriptionResult> {
+  const { breaker } = await loadChainSettings();
+  const providers = await resolveProviderChain();
+  const attemptedProviders: string[] = [];
+  const errors: ProviderError[] = [];
+  let skippedOpenCircuit = false;
+
+  // Each attempt gets its own timeout, but never more than what is left of the deadline
+  const attemptOptions = (): DescribeOptions => {
+    const remaining = remainingMs();
+    const timeoutMs = remaining === undefined
+      ? describeOptions.timeoutMs
+      : Math.min(describeOptions.timeoutMs ?? remaining, remaining);
+    return { ...describeOptions, timeoutMs, signal };
+  };
+
+  for (const provider of providers) {
+    if (signal.aborted) break;
+
+    if (circuitBreaker.isOpen(provider.id, breaker)) {
+      skippedOpenCircuit = true;
+      continue;
+    }
+
+    attemptedProviders.push(provider.id);
+
+    try {
+      const result = await withRetry(
+        () => provider.describe(file, attemptOptions()),
+        retry,
+        signal
+      );
+      circuitBreaker.recordSuccess(provider.id);
+      return { ...result, attemptedProviders };
+    } catch (error) {
+      const providerError = error instanceof ProviderError
+        ? error
+        : new ProviderError(provider.id, error instanceof Error ? error.message : 'Unknown API error');
+
+      console.error(`${provider.name} API error:`, providerError);
+      errors.push(providerError);
+
+      if (isCircuitFailure(providerError)) {
+        circuitBreaker.recordFailure(provider.id, breaker);
+      }
+    }
+  }
+
+  // Nothing was configured at all: surface the same error a single provider would
+  if (!skippedOpenCircuit && errors.length > 0 && errors.every((e) => e instanceof ProviderNotConfiguredError)) {
+    throw errors[errors.length - 1];
+  }
+
+  if (errors.length === 0) {
+    throw new ProviderChainError('All description providers are temporarily unavailable', attemptedProviders);
+  }
+
+  if (signal.aborted && remainingMs() === 0) {
+    throw new ProviderChainError('Description providers did not respond in time', attemptedProviders, errors);
+  }
+
+  throw new ProviderChainError(errors[errors.length - 1].message, attemptedProviders, errors);
+}
@@ -0,0 +1,29 @@
+import { DescribeOptions } from './types';
+
+/**
+ * Combine a provider call's timeout and caller abort signal into one signal
+ * A caller signal that is already aborted aborts the new one straight away.
+ */
+export function createRequestSignal(options: DescribeOptions): {
+  signal: AbortSignal;
+  cleanup: () => void;
+} {
+  const controller = new AbortController();
+  const timeoutId = options.timeoutMs
+    ? setTimeout(() => controller.abort(), options.timeoutMs)
+    : undefined;
+  const onAbort = () => controller.abort();
+  if (options.signal?.aborted) {
+    controller.abort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort);
+  }
+
+  return {
+    signal: controller.signal,
+    cleanup: () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
@@ -0,0 +1,107 @@
+import { getSetting } from '@/lib/settings';
+import { createRequestSignal } from './http';
+import { parseRetryAfter } from './retry';
+import {
+  DescribeOptions,
+  DescriptionOutputOption,
+  DescriptionProvider,
+  DescriptionResult,
+  ProviderError,
+  ProviderNotConfiguredError
+} from './types';
+
+const IDEOGRAM_API_URL = 'https://api.ideogram.ai/describe';
+
+/**
+ * Ideogram /describe adapter
+ */
+export class IdeogramProvider implements DescriptionProvider {
+  readonly id = 'ideogram';
+  readonly name = 'Ideogram';
+  // The /describe endpoint only returns plain descriptions
+  readonly supportedOutputs: readonly DescriptionOutputOption[] = [];
+
+  async isConfigured(): Promise<boolean> {
+    return Boolean(await getSetting('IDEOGRAM_API_KEY', 'IDEOGRAM_API_KEY'));
+  }
+
+  async describe(file: File, options: DescribeOptions = {}): Promise<DescriptionResult> {
+    const apiKey = await getSetting('IDEOGRAM_API_KEY', 'IDEOGRAM_API_KEY');
+    if (!apiKey) {
+      throw new ProviderNotConfiguredError(this.id);
+    }
+
+    const formData = new FormData();
+    formData.append('image_file', file);
+
+    const { signal, cleanup } = createRequestSignal(options);
+
+    try {
+      const response = await fetch(IDEOGRAM_API_URL, {
+        method: 'POST',
+        headers: {
+          'Api-Key': apiKey,
+        },
+        body: formData,
+        signal
+      });
+
+      if (!response.ok) {
+        throw new ProviderError(
+          this.id,
+          await this.readErrorMessage(response),
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      const responseText = await response.text();
+
+      // Check if it looks like JSON (starts with { or [)
+      if (!responseText.trim().startsWith('{') && !responseText.trim().startsWith('[')) {
+        console.error('Ideogram API returned non-JSON response:', responseText.substring(0, 200));
+        throw new ProviderError(this.id, 'Ideogram API returned invalid response format', response.status);
+      }
+
+      let result;
+      try {
+        result = JSON.parse(responseText);
+      } catch {
+        throw new ProviderError(this.id, 'Invalid JSON response from Ideogram API', response.status);
+      }
+
+      return {
+        description: result.descriptions?.[0]?.text || result.description || 'No description available',
+        confidence: 95,
+        source: this.id
+      };
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error;
+      }
+      throw new ProviderError(this.id, error instanceof Error ? error.message : 'Unknown API error');
+    } finally {
+      cleanup();
+    }
+  }
+
+  private async readErrorMessage(response: Response): Promise<string> {
+    const contentType = response.headers.get('content-type');
+    let errorMessage = 'Ideogram API request failed';
+
+    try {
+      if (contentType && contentType.includes('application/json')) {
+        const errorData = await response.json();
+        errorMessage = errorData.message || errorData.error || errorMessage;
+      } else {
+        const errorText = await response.text();
+        console.error('Ideogram API error response:', errorText);
+        errorMessage = `API error (${response.status}): ${errorText.substring(0, 100)}`;
+      }
+    } catch (parseError) {
+      console.error('Failed to parse error response:', parseError);
+    }
+
+    return errorMessage;
+  }
+}
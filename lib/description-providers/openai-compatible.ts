@@ -0,0 +1,143 @@
+import { getSettings } from '@/lib/settings';
+import { createRequestSignal } from './http';
+import { parseRetryAfter } from './retry';
+import {
+  DESCRIPTION_OUTPUT_OPTIONS,
+  DescribeOptions,
+  DescriptionOutputOption,
+  DescriptionOutputs,
+  DescriptionProvider,
+  DescriptionResult,
+  ProviderError,
+  ProviderNotConfiguredError
+} from './types';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+const DESCRIBE_PROMPT =
+  'Describe this image in one detailed paragraph. Cover the subject, setting, style, colors and composition.';
+const LONG_DESCRIBE_PROMPT =
+  'Describe this image in three to five detailed paragraphs. Cover the subject, setting, style, colors, lighting, composition and mood.';
+
+/**
+ * Build the prompt for the requested outputs; extras are appended as labelled lines
+ */
+function buildPrompt(outputs?: DescriptionOutputs): { prompt: string; maxTokens: number } {
+  const options = outputs?.options || [];
+  const parts = [options.includes('long_description') ? LONG_DESCRIBE_PROMPT : DESCRIBE_PROMPT];
+
+  if (options.includes('keywords')) {
+    parts.push('Then add a line starting with "Keywords:" followed by 10 to 15 comma-separated keywords.');
+  }
+  if (options.includes('translation') && outputs?.language) {
+    parts.push(`Then repeat the description translated into ${outputs.language}, starting with "Translation (${outputs.language}):".`);
+  }
+
+  const isLong = options.includes('long_description') || options.includes('translation');
+  return { prompt: parts.join(' '), maxTokens: isLong ? 1500 : 500 };
+}
+
+/**
+ * Adapter for any OpenAI-compatible chat-completions endpoint with vision support
+ * The base URL and model come from settings, so it can point at OpenAI or a local stand-in server.
+ */
+export class OpenAICompatibleProvider implements DescriptionProvider {
+  readonly id = 'openai';
+  readonly name = 'OpenAI-compatible';
+  readonly supportedOutputs: readonly DescriptionOutputOption[] = DESCRIPTION_OUTPUT_OPTIONS;
+
+  private async loadConfig(): Promise<{ apiKey: string | null; baseUrl: string; model: string }> {
+    const settings = await getSettings(['OPENAI_API_KEY', 'OPENAI_BASE_URL', 'OPENAI_MODEL']);
+    return {
+      apiKey: settings.OPENAI_API_KEY,
+      baseUrl: (settings.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, ''),
+      model: settings.OPENAI_MODEL || DEFAULT_OPENAI_MODEL
+    };
+  }
+
+  async isConfigured(): Promise<boolean> {
+    const config = await this.loadConfig();
+    // A custom base URL (e.g. a local server) may not need a key
+    return Boolean(config.apiKey) || config.baseUrl !== DEFAULT_OPENAI_BASE_URL;
+  }
+
+  async describe(file: File, options: DescribeOptions = {}): Promise<DescriptionResult> {
+    const config = await this.loadConfig();
+    if (!config.apiKey && config.baseUrl === DEFAULT_OPENAI_BASE_URL) {
+      throw new ProviderNotConfiguredError(this.id);
+    }
+
+    const imageBase64 = Buffer.from(await file.arrayBuffer()).toString('base64');
+    const { signal, cleanup } = createRequestSignal(options);
+    const { prompt, maxTokens } = buildPrompt(options.outputs);
+
+    try {
+      const response = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+        },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: maxTokens,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: prompt },
+                { type: 'image_url', image_url: { url: `data:${file.type};base64,${imageBase64}` } }
+              ]
+            }
+          ]
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        let errorMessage = `API error (${response.status}): ${errorText.substring(0, 100)}`;
+        try {
+          const errorData = JSON.parse(errorText);
+          errorMessage = errorData.error?.message || errorData.message || errorMessage;
+        } catch {
+          // Not JSON, keep the raw text
+        }
+        throw new ProviderError(
+          this.id,
+          errorMessage,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      let result;
+      try {
+        result = await response.json();
+      } catch {
+        throw new ProviderError(this.id, 'Invalid JSON response from OpenAI-compatible API', response.status);
+      }
+
+      const content = result.choices?.[0]?.message?.content;
+      const description = typeof content === 'string' ? content.trim() : '';
+
+      if (!description) {
+        throw new ProviderError(this.id, 'No description found in API response', response.status);
+      }
+
+      return {
+        description,
+        confidence: 90,
+        source: this.id
+      };
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        throw error;
+      }
+      throw new ProviderError(this.id, error instanceof Error ? error.message : 'Unknown API error');
+    } finally {
+      cleanup();
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { getSetting } from '@/lib/settings';
+import { IdeogramProvider } from './ideogram';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { DescriptionProvider } from './types';
+
+export const DEFAULT_PROVIDER_ID = 'ideogram';
+
+// Settings key holding the id of the provider admins picked as active
+export const ACTIVE_PROVIDER_SETTING = 'DESCRIPTION_PROVIDER';
+
+/**
+ * Registry of available description providers
+ * Every route resolves its provider through here, so adding a backend
+ * only means writing an adapter and registering it below.
+ */
+export class DescriptionProviderRegistry {
+  private providers = new Map<string, DescriptionProvider>();
+
+  register(provider: DescriptionProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): DescriptionProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): DescriptionProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Resolve the provider to use for a request
+   */
+  async resolve(id: string = DEFAULT_PROVIDER_ID): Promise<DescriptionProvider> {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown description provider: ${id}`);
+    }
+    return provider;
+  }
+}
+
+export const providerRegistry = new DescriptionProviderRegistry();
+providerRegistry.register(new IdeogramProvider());
+providerRegistry.register(new OpenAICompatibleProvider());
+
+/**
+ * Get the id of the provider selected in admin settings
+ */
+export async function getActiveProviderId(): Promise<string> {
+  const activeId = await getSetting(ACTIVE_PROVIDER_SETTING);
+
+  if (activeId && !providerRegistry.has(activeId)) {
+    console.error(`Unknown description provider "${activeId}" in settings, using ${DEFAULT_PROVIDER_ID}`);
+    return DEFAULT_PROVIDER_ID;
+  }
+
+  return activeId || DEFAULT_PROVIDER_ID;
+}
+
+/**
+ * Resolve the active description provider
+ */
+export async function resolveDescriptionProvider(): Promise<DescriptionProvider> {
+  return providerRegistry.resolve(await getActiveProviderId());
+}
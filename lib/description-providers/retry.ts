@@ -0,0 +1,104 @@
+import { ProviderError, ProviderNotConfiguredError } from './types';
+
+/**
+ * Retry policy for provider calls
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // Fraction of the delay to randomize, 0-1
+  retryableStatusCodes: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000, // 10 seconds
+  jitter: 0.2,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504]
+};
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a failed provider call is worth retrying
+ * Timeouts and network errors have no status and are always retried.
+ */
+export function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  if (!(error instanceof ProviderError) || error instanceof ProviderNotConfiguredError) {
+    return false;
+  }
+  return error.status === undefined || policy.retryableStatusCodes.includes(error.status);
+}
+
+/**
+ * Delay before the next attempt: the server's Retry-After when given,
+ * otherwise exponential backoff with jitter, capped at maxDelayMs.
+ */
+export function getRetryDelay(attempt: number, error: unknown, policy: RetryPolicy): number {
+  if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+
+  const exponential = policy.baseDelayMs * Math.pow(2, attempt - 1);
+  const jitter = exponential * policy.jitter * (Math.random() * 2 - 1);
+  return Math.min(Math.max(0, Math.round(exponential + jitter)), policy.maxDelayMs);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request aborted'));
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new Error('Request aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a provider call, retrying retryable failures according to the policy
+ */
+export async function withRetry<T>(
+  call: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error, policy) || signal?.aborted) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt, error, policy), signal);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Result returned by a description provider for a single image
+ */
+export interface DescriptionResult {
+  description: string;
+  confidence: number;
+  source: string;
+}
+
+/**
+ * Extra outputs a caller may ask for on top of the standard description
+ */
+export const DESCRIPTION_OUTPUT_OPTIONS = ['long_description', 'keywords', 'translation'] as const;
+export type DescriptionOutputOption = typeof DESCRIPTION_OUTPUT_OPTIONS[number];
+
+export type DescriptionOutputs = {
+  options: DescriptionOutputOption[];
+  language?: string; // Target language for 'translation'
+};
+
+/**
+ * Per-call options passed to a description provider
+ */
+export interface DescribeOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  outputs?: DescriptionOutputs;
+}
+
+/**
+ * Contract every image description backend must implement
+ */
+export interface DescriptionProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly supportedOutputs: readonly DescriptionOutputOption[]; // Requested outputs outside this list are ignored
+  isConfigured(): Promise<boolean>;
+  describe(file: File, options?: DescribeOptions): Promise<DescriptionResult>;
+}
+
+/**
+ * Error raised when a provider call fails
+ */
+export class ProviderError extends Error {
+  constructor(
+    public providerId: string,
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Error raised when a provider is missing its credentials or endpoint
+ */
+export class ProviderNotConfiguredError extends ProviderError {
+  constructor(providerId: string) {
+    super(providerId, 'Image description service is not available - API key not configured');
+    this.name = 'ProviderNotConfiguredError';
+  }
+}
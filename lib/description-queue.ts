@@ -0,0 +1,265 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { DescriptionJobItemStatus, DescriptionJobStatus, DescriptionQueueStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { DescriptionJobTracker } from './description-job';
+import { ImageDescriptionProcessor } from './image-description-processor';
+import { CreditManager } from './credit-manager';
+import { DescriptionOutputs } from './description-providers';
+
+/**
+ * Interface for worker configuration
+ */
+export interface WorkerConfig {
+  batchSize: number;        // Entries claimed per poll
+  pollIntervalMs: number;   // Wait between polls when the queue is empty
+  leaseMs: number;          // How long a claim holds before another worker may take the entry over
+  maxAttempts: number;      // Claims per entry before it is given up on
+  retryDelayMs: number;     // Delay before an entry that hit an unexpected error is retried
+}
+
+export const DEFAULT_WORKER_CONFIG: WorkerConfig = {
+  batchSize: 1,
+  pollIntervalMs: 2000,
+  leaseMs: 5 * 60 * 1000, // 5 minutes
+  maxAttempts: 3,
+  retryDelayMs: 30 * 1000
+};
+
+// Items with an outcome that a claim must not overwrite, and what their entry is closed as
+const FINISHED_ENTRY_STATUS: Partial<Record<DescriptionJobItemStatus, DescriptionQueueStatus>> = {
+  SUCCEEDED: DescriptionQueueStatus.DONE,
+  FAILED: DescriptionQueueStatus.FAILED,
+  SKIPPED: DescriptionQueueStatus.CANCELLED
+};
+
+interface ClaimedEntry {
+  id: string;
+  jobId: string;
+  itemIndex: number;
+  attempts: number;
+}
+
+/**
+ * Jobs queued with `DescriptionJobTracker.enqueue(userId)` or reopened for retry
+ * are drained here, outside any HTTP request.
+ *
+ * Entries are claimed with FOR UPDATE SKIP LOCKED, so several workers can poll
+ * the same table without picking up the same item. A worker renews its claim while
+ * it describes an item; a claim that is not renewed or released within the lease
+ * (e.g. the worker crashed) becomes claimable again.
+ */
+export class DescriptionWorker {
+  readonly workerId: string;
+  private config: WorkerConfig;
+  private running: boolean = false;
+
+  constructor(config?: Partial<WorkerConfig>, workerId?: string) {
+    this.config = { ...DEFAULT_WORKER_CONFIG, ...config };
+    this.workerId = workerId || `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Claim the next queued entries, plus any whose lease expired
+   */
+  async claim(): Promise<ClaimedEntry[]> {
+    const now = new Date();
+    const leaseExpiredBefore = new Date(now.getTime() - this.config.leaseMs);
+
+    return prisma.$queryRaw<ClaimedEntry[]>`
+      UPDATE "public"."description_queue"
+      SET "status" = 'PROCESSING',
+          "lockedBy" = ${this.workerId},
+          "lockedAt" = ${now},
+          "attempts" = "attempts" + 1,
+          "updatedAt" = ${now}
+      WHERE "id" IN (
+        SELECT "id" FROM "public"."description_queue"
+        WHERE ("status" = 'QUEUED' AND "availableAt" <= ${now})
+           OR ("status" = 'PROCESSING' AND "lockedAt" < ${leaseExpiredBefore})
+        ORDER BY "createdAt" ASC, "itemIndex" ASC
+        LIMIT ${this.config.batchSize}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id", "jobId", "itemIndex", "attempts"
+    `;
+  }
+
+  /**
+   * Claim and process one batch
+   * Returns the number of entries handled, 0 when the queue is empty.
+   */
+  async runOnce(): Promise<number> {
+    const entries = await this.claim();
+
+    for (const entry of entries) {
+      try {
+        await this.processEntry(entry);
+      } catch (error) {
+        console.error(`Worker ${this.workerId} failed on queue entry ${entry.id}:`, error);
+        await this.releaseEntry(entry, error instanceof Error ? error.message : 'Unknown error occurred');
+      }
+    }
+
+    return entries.length;
+  }
+
+  /**
+   * Poll the queue until stop() is called
+   */
+  async start(): Promise<void> {
+    this.running = true;
+
+    while (this.running) {
+      const handled = await this.runOnce().catch((error) => {
+        console.error(`Worker ${this.workerId} failed to poll the queue:`, error);
+        return 0;
+      });
+
+      if (handled === 0 && this.running) {
+        await new Promise((resolve) => setTimeout(resolve, this.config.pollIntervalMs));
+      }
+    }
+  }
+
+  /**
+   * Stop polling once the current batch is done
+   */
+  stop(): void {
+    this.running = false;
+  }
+
+  private async processEntry(entry: ClaimedEntry): Promise<void> {
+    const tracker = DescriptionJobTracker.attach(entry.jobId);
+
+    const item = await prisma.descriptionJobItem.findUnique({
+      where: { jobId_index: { jobId: entry.jobId, index: entry.itemIndex } },
+      include: { job: { select: { userId: true, status: true, outputs: true } } }
+    });
+
+    // Already finished, e.g. by a worker whose lease ran out just before it recorded the result
+    const finishedAs = item ? FINISHED_ENTRY_STATUS[item.status] : undefined;
+    if (finishedAs) {
+      await this.completeEntry(entry, finishedAs);
+      await this.finishJobIfDrained(tracker);
+      return;
+    }
+
+    if (entry.attempts > this.config.maxAttempts || !item?.fileData) {
+      const error = entry.attempts > this.config.maxAttempts
+        ? `Gave up after ${this.config.maxAttempts} attempts`
+        : 'Uploaded file is no longer stored for this item';
+      if (item) {
+        await tracker.recordResult({ index: entry.itemIndex, success: false, error });
+      }
+      await this.completeEntry(entry, DescriptionQueueStatus.FAILED, error);
+      await this.finishJobIfDrained(tracker);
+      return;
+    }
+
+    if (item.job.status === DescriptionJobStatus.PENDING) {
+      await tracker.markRunning();
+    }
+    await tracker.markItemProcessing(entry.itemIndex);
+
+    const file = new File([new Uint8Array(item.fileData)], item.filename, {
+      type: item.mimeType || 'application/octet-stream'
+    });
+    // Charge against the credits held for the job when it was queued
+    const reservation = await CreditManager.findJobReservation(entry.jobId);
+    const processor = new ImageDescriptionProcessor(item.job.userId, {
+      outputs: (item.job.outputs as DescriptionOutputs | null) ?? undefined
+    });
+    // Keep the claim alive while the provider works, so no other worker takes the item over and charges it again
+    const stopRenewing = this.renewLeaseWhile(entry);
+    const result = await processor.processImage(file, entry.itemIndex, reservation?.id).finally(stopRenewing);
+
+    await tracker.recordResult(result);
+    await this.completeEntry(
+      entry,
+      result.success ? DescriptionQueueStatus.DONE : DescriptionQueueStatus.FAILED,
+      result.error
+    );
+
+    // Out of credits or over a usage cap: drop the rest of the job, it can be resumed
+    // once the user tops up or the cap resets
+    const outOfCredits = !result.success && Boolean(result.error?.includes('Insufficient credits'));
+    if (outOfCredits || result.usageCapResetsAt) {
+      await prisma.descriptionQueueEntry.updateMany({
+        where: { jobId: entry.jobId, status: DescriptionQueueStatus.QUEUED },
+        data: { status: DescriptionQueueStatus.CANCELLED }
+      });
+      await tracker.finish(outOfCredits ? { stoppedDueToCredits: true } : { usageCap: result.error });
+      return;
+    }
+
+    await this.finishJobIfDrained(tracker);
+  }
+
+  /**
+   * Refresh the claim on an entry every third of the lease until the returned function is called
+   */
+  private renewLeaseWhile(entry: ClaimedEntry): () => void {
+    const timer = setInterval(() => {
+      prisma.descriptionQueueEntry.updateMany({
+        where: { id: entry.id, lockedBy: this.workerId, status: DescriptionQueueStatus.PROCESSING },
+        data: { lockedAt: new Date() }
+      }).catch((error) => {
+        console.error(`Worker ${this.workerId} could not renew its lease on queue entry ${entry.id}:`, error);
+      });
+    }, Math.max(1000, Math.floor(this.config.leaseMs / 3)));
+
+    return () => clearInterval(timer);
+  }
+
+  private async completeEntry(entry: ClaimedEntry, status: DescriptionQueueStatus, error?: string): Promise<void> {
+    await prisma.descriptionQueueEntry.updateMany({
+      where: { id: entry.id, lockedBy: this.workerId },
+      data: { status, lastError: error ?? null, lockedBy: null, lockedAt: null }
+    });
+  }
+
+  /**
+   * Put an entry back on the queue after an unexpected error, with a delay
+   */
+  private async releaseEntry(entry: ClaimedEntry, error: string): Promise<void> {
+    try {
+      await prisma.descriptionQueueEntry.updateMany({
+        where: { id: entry.id, lockedBy: this.workerId },
+        data: {
+          status: DescriptionQueueStatus.QUEUED,
+          lastError: error,
+          lockedBy: null,
+          lockedAt: null,
+          availableAt: new Date(Date.now() + this.config.retryDelayMs)
+        }
+      });
+    } catch (releaseError) {
+      // The lease expires on its own, so the entry is picked up again either way
+      console.error(`Worker ${this.workerId} could not release queue entry ${entry.id}:`, releaseError);
+    }
+  }
+
+  /**
+   * Close the job once none of its entries are waiting or in progress
+   */
+  private async finishJobIfDrained(tracker: DescriptionJobTracker): Promise<void> {
+    const [remaining, job] = await Promise.all([
+      prisma.descriptionQueueEntry.count({
+        where: {
+          jobId: tracker.jobId,
+          status: { in: [DescriptionQueueStatus.QUEUED, DescriptionQueueStatus.PROCESSING] }
+        }
+      }),
+      prisma.descriptionJob.findUnique({
+        where: { id: tracker.jobId },
+        select: { status: true }
+      })
+    ]);
+
+    const isOpen = job?.status === DescriptionJobStatus.PENDING || job?.status === DescriptionJobStatus.RUNNING;
+    if (remaining === 0 && isOpen) {
+      await tracker.finish();
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { IdempotencyKeyStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { getSetting } from './settings';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_TTL_SETTING = 'IDEMPOTENCY_KEY_TTL_HOURS';
+export const DEFAULT_IDEMPOTENCY_TTL_HOURS = 24;
+
+const MAX_KEY_LENGTH = 255;
+
+async function getKeyTtlMs(): Promise<number> {
+  const hours = parseFloat((await getSetting(IDEMPOTENCY_TTL_SETTING)) || '');
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_IDEMPOTENCY_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Claim a key for this request
+ * Returns null when the claim succeeded, otherwise the existing record.
+ */
+async function claimKey(userId: string, scope: string, key: string, requestHash: string) {
+  const expiresAt = new Date(Date.now() + (await getKeyTtlMs()));
+
+  // Expired keys may be reused, so clear them before claiming
+  await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lt: new Date() } }
+  });
+
+  try {
+    await prisma.idempotencyKey.create({
+      data: { userId, scope, key, requestHash, expiresAt }
+    });
+    return null;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.idempotencyKey.findUnique({
+        where: { userId_scope_key: { userId, scope, key } }
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * SHA-256 of a request's payload
+ * Form fields are hashed by name and content rather than as raw bytes, because a client
+ * picks a new multipart boundary each time it sends the same form.
+ */
+async function hashRequestBody(request: Request, formData?: FormData): Promise<string> {
+  const hash = createHash('sha256');
+
+  let form = formData;
+  if (!form && /multipart\/form-data|application\/x-www-form-urlencoded/.test(request.headers.get('content-type') || '')) {
+    form = await request.clone().formData().catch(() => undefined);
+  }
+
+  if (!form) {
+    hash.update(new Uint8Array(await request.clone().arrayBuffer()));
+    return hash.digest('hex');
+  }
+
+  for (const [name, value] of form.entries()) {
+    if (typeof value === 'string') {
+      hash.update(JSON.stringify([name, value]));
+    } else {
+      hash.update(JSON.stringify([name, value.name, value.type, value.size]));
+      hash.update(new Uint8Array(await value.arrayBuffer()));
+    }
+  }
+  return hash.digest('hex');
+}
+
+async function releaseKey(userId: string, scope: string, key: string): Promise<void> {
+  await prisma.idempotencyKey.deleteMany({
+    where: { userId, scope, key, status: IdempotencyKeyStatus.IN_PROGRESS }
+  });
+}
+
+/**
+ * Run a POST handler at most once per Idempotency-Key
+ *
+ * The first request with a key runs the handler and its JSON response is stored;
+ * repeats get the stored response back (marked with `Idempotent-Replayed: true`)
+ * until the key expires. A repeat that arrives while the first is still running
+ * gets 409, as does a repeat of a request whose response was streamed (e.g. an
+ * event stream), which cannot be replayed and must not run twice. Reusing a key
+ * for a different payload gets 422. Server errors are not stored, so the key is
+ * freed and the client may retry. Requests without the header run normally.
+ * Pass `formData` when the route has already read the request body.
+ */
+export async function withIdempotency(
+  request: Request,
+  userId: string,
+  scope: string,
+  handler: () => Promise<Response>,
+  formData?: FormData
+): Promise<Response> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) {
+    return handler();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json(
+      { error: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const requestHash = await hashRequestBody(request, formData);
+  const existing = await claimKey(userId, scope, key, requestHash);
+
+  if (existing) {
+    if (existing.requestHash && existing.requestHash !== requestHash) {
+      return NextResponse.json(
+        { error: `This ${IDEMPOTENCY_HEADER} was already used for a different request` },
+        { status: 422 }
+      );
+    }
+
+    if (existing.status === IdempotencyKeyStatus.IN_PROGRESS) {
+      return NextResponse.json(
+        { error: `A request with this ${IDEMPOTENCY_HEADER} is still being processed` },
+        { status: 409 }
+      );
+    }
+
+    if (existing.streamed) {
+      return NextResponse.json(
+        { error: `The response to this ${IDEMPOTENCY_HEADER} was streamed and cannot be replayed. Use a new key to run the request again.` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(existing.responseBody, {
+      status: existing.responseStatus ?? 200,
+      headers: { 'Idempotent-Replayed': 'true' }
+    });
+  }
+
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (error) {
+    await releaseKey(userId, scope, key);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await releaseKey(userId, scope, key);
+    return response;
+  }
+
+  const isJson = response.headers.get('content-type')?.includes('application/json');
+  try {
+    await prisma.idempotencyKey.update({
+      where: { userId_scope_key: { userId, scope, key } },
+      data: {
+        status: IdempotencyKeyStatus.COMPLETED,
+        responseStatus: response.status,
+        // A stream is still being produced and may charge as it goes; only record that it ran
+        ...(isJson ? { responseBody: await response.clone().json() } : { streamed: true })
+      }
+    });
+  } catch (error) {
+    // The request itself succeeded; only replay protection is lost for this key
+    console.error(`Failed to store response for idempotency key ${key}:`, error);
+    await releaseKey(userId, scope, key).catch(() => undefined);
+  }
+
+  return response;
+}
@@ -1,6 +1,17 @@
-import { CreditManager, InsufficientCreditsError, CreditTransactionResult } from './credit-manager';
-import { getSetting } from './settings';
+import { CreditManager, InsufficientCreditsError, CreditTransactionResult, UserNotFoundError } from './credit-manager';
+import { lockUserCredits } from './credit-lots';
+import {
+  describeWithFallback,
+  getActiveProviderId,
+  ChainDescriptionResult,
+  DescriptionOutputs,
+  ProviderChainError,
+  DEFAULT_RETRY_POLICY
+} from './description-providers';
 import { prisma } from './prisma';
+import { DescriptionJobTracker } from './description-job';
+import { BatchQuote, PriceQuote, PricingEngine } from './pricing';
+import { UsageCapExceededError, findExceededCap } from './usage-caps';
 import { CreditTransactionType } from '@prisma/client';
 
 /**
@@ -13,10 +24,13 @@ export interface ImageProcessResult {
   description?: string;
   confidence?: number;
   source?: string;
+  attemptedProviders?: string[];
   error?: string;
   index: number;
   remainingCredits?: number;
+  creditsCharged?: number;
   creditTransaction?: CreditTransactionResult;
+  usageCapResetsAt?: Date; // Set when one of the user's usage caps stopped the image
 }
 
 /**
@@ -53,6 +67,14 @@ export interface ProcessingConfig {
   maxFileSize: number;
   allowedMimeTypes: string[];
   apiTimeout: number;
+  chainDeadlineMs: number;
+  holdTtlMs: number; // A batch hold not extended within this is released by the job sweep
+  maxRetryAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  retryJitter: number;
+  retryableStatusCodes: number[];
+  outputs?: DescriptionOutputs;
 }
 
 /**
@@ -65,6 +87,10 @@ export class ImageDescriptionProcessor {
   private config: ProcessingConfig;
   private isProcessing: boolean = false;
   private shouldStop: boolean = false;
+  // Credits held for the current batch; successes are captured from it instead of debited one by one
+  private hold: { reservationId: string; remaining: number } | null = null;
+  // Pricing rules and provider snapshotted for the current run
+  private pricing: { engine: PricingEngine; providerId: string } | null = null;
 
   // Default configuration
   private static readonly DEFAULT_CONFIG: ProcessingConfig = {
@@ -72,7 +98,14 @@ export class ImageDescriptionProcessor {
     stopOnInsufficientCredits: true,
     maxFileSize: 10 * 1024 * 1024, // 10MB
     allowedMimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'],
-    apiTimeout: 15000 // 15 seconds
+    apiTimeout: 15000, // 15 seconds
+    chainDeadlineMs: 25000, // Whole provider chain, under the 30 second function limit
+    holdTtlMs: 5 * 60 * 1000, // 5 minutes, extended before each image
+    maxRetryAttempts: DEFAULT_RETRY_POLICY.maxAttempts,
+    retryBaseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs,
+    retryMaxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs,
+    retryJitter: DEFAULT_RETRY_POLICY.jitter,
+    retryableStatusCodes: DEFAULT_RETRY_POLICY.retryableStatusCodes
   };
 
   constructor(userId: string, config?: Partial<ProcessingConfig>) {
@@ -116,7 +149,7 @@ export class ImageDescriptionProcessor {
       success: false,
       filename: file.name,
       index,
-      remainingCredits: await this.creditManager.getCurrentBalance()
+      remainingCredits: await this.getSpendableCredits()
     };
 
     try {
@@ -129,6 +162,19 @@ export class ImageDescriptionProcessor {
         };
       }
 
+      const quote = await this.quoteFor(file);
+
+      // Usage caps are checked before each image, so a batch stops once it reaches one without
+      // calling the provider; the charge below checks them again under the credit lock
+      const capExceeded = await findExceededCap(this.userId, { images: 1, credits: quote.credits });
+      if (capExceeded) {
+        return {
+          ...baseResult,
+          error: capExceeded.message,
+          usageCapResetsAt: capExceeded.resetsAt
+        };
+      }
+
       // Check credits before processing if enabled
       if (this.config.checkCreditsBeforeEach) {
         onProgress?.({
@@ -139,12 +185,12 @@ export class ImageDescriptionProcessor {
           remainingCredits: baseResult.remainingCredits
         });
 
-        const canAfford = await this.creditManager.canAfford(1);
+        const canAfford = await this.canAffordNext(quote.credits);
         if (!canAfford) {
-          const currentBalance = await this.creditManager.getCurrentBalance();
+          const currentBalance = await this.getSpendableCredits();
           return {
             ...baseResult,
-            error: `Insufficient credits. Current balance: ${currentBalance}`,
+            error: `Insufficient credits. Required: ${quote.credits}, current balance: ${currentBalance}`,
             remainingCredits: currentBalance
           };
         }
@@ -160,37 +206,84 @@ export class ImageDescriptionProcessor {
 
       const description = await this.callImageDescriptionAPI(file);
 
-      // Deduct credits after successful processing
-      let creditTransaction: CreditTransactionResult;
+      // Charge after successful processing, from the batch hold when there is one. The charge, the
+      // final usage cap check and the saved description share one transaction under the user's credit
+      // lock, so parallel requests cannot go over a cap and a failed save leaves nothing charged.
+      const creditsCharged = await this.chargeFor(file, quote, description.source);
+      const failedResult = { ...baseResult, source: description.source, attemptedProviders: description.attemptedProviders };
+      let saved;
       try {
-        creditTransaction = await this.creditManager.deductCredits(
-          1,
-          `Image description for ${file.name}`,
-          CreditTransactionType.IMAGE_DESCRIPTION
-        );
+        saved = await prisma.$transaction(async (tx) => {
+          if (await lockUserCredits(tx, this.userId) === null) {
+            throw new UserNotFoundError(this.userId);
+          }
+
+          const exceeded = await findExceededCap(this.userId, { images: 1, credits: creditsCharged }, tx);
+          if (exceeded) {
+            throw exceeded;
+          }
+
+          let creditTransaction: CreditTransactionResult | undefined;
+          let holdRemaining: number | undefined;
+          if (creditsCharged > 0 && this.hold) {
+            holdRemaining = await this.creditManager.captureReservedCredits(this.hold.reservationId, creditsCharged, tx);
+          } else if (creditsCharged > 0) {
+            creditTransaction = await this.creditManager.deductCreditsWithin(
+              tx,
+              creditsCharged,
+              `Image description for ${file.name}`,
+              CreditTransactionType.IMAGE_DESCRIPTION
+            );
+          }
+
+          const imageDescription = await tx.imageDescription.create({
+            data: {
+              userId: this.userId,
+              filename: file.name,
+              description: description.description,
+              confidence: description.confidence,
+              source: description.source,
+              fileSize: file.size,
+              mimeType: file.type,
+              creditsCharged
+            }
+          });
+          await tx.usageRecord.create({
+            data: { userId: this.userId, credits: creditsCharged }
+          });
+
+          return { imageDescription, creditTransaction, holdRemaining };
+        });
       } catch (error) {
+        if (error instanceof UsageCapExceededError) {
+          return { ...failedResult, error: error.message, usageCapResetsAt: error.resetsAt };
+        }
         if (error instanceof InsufficientCreditsError) {
+          if (this.hold) {
+            this.hold.remaining = 0;
+          }
           return {
-            ...baseResult,
+            ...failedResult,
             error: `Credits exhausted during processing. ${error.message}`,
             remainingCredits: error.available
           };
         }
-        throw error;
+        console.error(`Error saving description for ${file.name}:`, error);
+        return {
+          ...failedResult,
+          error: `Failed to save description: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
+          remainingCredits: await this.getSpendableCredits()
+        };
       }
 
-      // Save to database
-      const imageDescription = await prisma.imageDescription.create({
-        data: {
-          userId: this.userId,
-          filename: file.name,
-          description: description.description,
-          confidence: description.confidence,
-          source: description.source,
-          fileSize: file.size,
-          mimeType: file.type
-        }
-      });
+      const { imageDescription, creditTransaction } = saved;
+      if (saved.holdRemaining !== undefined && this.hold) {
+        this.hold.remaining = saved.holdRemaining;
+      }
+      if (creditTransaction) {
+        await this.creditManager.debitCommitted(creditsCharged, creditTransaction);
+      }
+      const remainingCredits = creditTransaction ? creditTransaction.newBalance : await this.getSpendableCredits();
 
       return {
         success: true,
@@ -199,8 +292,10 @@ export class ImageDescriptionProcessor {
         description: description.description,
         confidence: description.confidence,
         source: description.source,
+        attemptedProviders: description.attemptedProviders,
         index,
-        remainingCredits: creditTransaction.newBalance,
+        remainingCredits,
+        creditsCharged,
         creditTransaction
       };
 
@@ -208,66 +303,155 @@ export class ImageDescriptionProcessor {
       console.error(`Error processing image ${file.name}:`, error);
       return {
         ...baseResult,
+        attemptedProviders: error instanceof ProviderChainError ? error.attemptedProviders : undefined,
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       };
     }
   }
 
   /**
-   * Call the image description API
+   * Call the image description API through the configured provider chain
+   * Retries happen inside this call, before any credit is deducted, so a
+   * retried image is still only charged once.
    */
-  private async callImageDescriptionAPI(file: File): Promise<{
-    description: string;
-    confidence: number;
-    source: string;
-  }> {
-    const IDEOGRAM_API_KEY = await getSetting('IDEOGRAM_API_KEY', 'IDEOGRAM_API_KEY');
-    const IDEOGRAM_API_URL = 'https://api.ideogram.ai/describe';
-
-    if (IDEOGRAM_API_KEY) {
-      try {
-        const formData = new FormData();
-        formData.append('image_file', file);
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.config.apiTimeout);
-
-        const response = await fetch(IDEOGRAM_API_URL, {
-          method: 'POST',
-          headers: {
-            'Api-Key': IDEOGRAM_API_KEY,
-          },
-          body: formData,
-          signal: controller.signal
-        });
+  private async callImageDescriptionAPI(file: File): Promise<ChainDescriptionResult> {
+    try {
+      return await describeWithFallback(file, {
+        timeoutMs: this.config.apiTimeout,
+        deadlineMs: this.config.chainDeadlineMs,
+        outputs: this.config.outputs,
+        retry: {
+          maxAttempts: this.config.maxRetryAttempts,
+          baseDelayMs: this.config.retryBaseDelayMs,
+          maxDelayMs: this.config.retryMaxDelayMs,
+          jitter: this.config.retryJitter,
+          retryableStatusCodes: this.config.retryableStatusCodes
+        }
+      });
+    } catch (error) {
+      if (error instanceof ProviderChainError) {
+        throw new ProviderChainError(`Failed to describe image: ${error.message}`, error.attemptedProviders, error.errors);
+      }
+      throw error;
+    }
+  }
 
-        clearTimeout(timeoutId);
+  /**
+   * Process one image on its own, e.g. an item taken off the work queue
+   * Pass the job's reservation to charge the image against credits held for it.
+   */
+  async processImage(file: File, index: number = 0, reservationId?: string): Promise<ImageProcessResult> {
+    if (reservationId) {
+      this.hold = { reservationId, remaining: await this.creditManager.getReservedCredits(reservationId) };
+    }
+    try {
+      return await this.processSingleImage(file, index);
+    } finally {
+      this.hold = null;
+      this.pricing = null;
+    }
+  }
 
-        if (response.ok) {
-          const responseText = await response.text();
-          
-          if (responseText.trim().startsWith('{') || responseText.trim().startsWith('[')) {
-            const result = JSON.parse(responseText);
-            return {
-              description: result.descriptions?.[0]?.text || result.description || 'No description available',
-              confidence: 95,
-              source: 'ideogram'
-            };
-          } else {
-            throw new Error('Invalid response format from Ideogram API');
-          }
-        } else {
-          throw new Error(`Ideogram API error: ${response.status} ${response.statusText}`);
-        }
-      } catch (error) {
-        console.error('Ideogram API error:', error);
-        // Throw the error instead of using fallback description
-        throw new Error(`Failed to describe image: ${error instanceof Error ? error.message : 'Unknown API error'}`);
+  /**
+   * Quote what the files will cost with the current pricing rules, provider and outputs
+   */
+  async quote(files: File[]): Promise<BatchQuote> {
+    const { engine, providerId } = await this.getPricing();
+    return engine.quoteBatch(
+      files.map((file) => ({ filename: file.name, fileSize: file.size })),
+      providerId,
+      this.config.outputs
+    );
+  }
+
+  private async getPricing(): Promise<{ engine: PricingEngine; providerId: string }> {
+    if (!this.pricing) {
+      const [engine, providerId] = await Promise.all([PricingEngine.load(), getActiveProviderId()]);
+      this.pricing = { engine, providerId };
+    }
+    return this.pricing;
+  }
+
+  private async quoteFor(file: File): Promise<PriceQuote> {
+    const { engine, providerId } = await this.getPricing();
+    return engine.quote(providerId, file.size, this.config.outputs);
+  }
+
+  /**
+   * Credits to charge for a described image
+   * When a fallback provider produced the description the cheaper of the two prices applies,
+   * so the user never pays more than they were quoted.
+   */
+  private async chargeFor(file: File, quote: PriceQuote, sourceProviderId: string): Promise<number> {
+    if (sourceProviderId === quote.providerId) {
+      return quote.credits;
+    }
+    const { engine } = await this.getPricing();
+    return Math.min(quote.credits, engine.quote(sourceProviderId, file.size, this.config.outputs).credits);
+  }
+
+  /**
+   * Hold credits for a whole batch so a parallel request cannot spend them mid-run
+   * When nothing can be held the per-image credit checks stop the run as before.
+   */
+  private async holdCreditsForBatch(files: File[], job?: DescriptionJobTracker): Promise<void> {
+    const { totalCredits } = await this.quote(files);
+    if (totalCredits <= 0) return;
+
+    try {
+      const reservation = await this.creditManager.reserveCredits(totalCredits, {
+        jobId: job?.jobId,
+        allowPartial: true,
+        description: `Reserved credits for ${files.length} image(s)`,
+        expiresInMs: this.config.holdTtlMs
+      });
+      this.hold = { reservationId: reservation.reservationId, remaining: reservation.amount };
+    } catch (error) {
+      if (!(error instanceof InsufficientCreditsError)) {
+        throw error;
       }
     }
+  }
+
+  /**
+   * Keep the batch hold from expiring while the run is still going
+   * A failure is only logged; the hold then expires and is released early.
+   */
+  private async extendHold(): Promise<void> {
+    if (!this.hold) return;
+
+    try {
+      await this.creditManager.extendReservation(this.hold.reservationId, this.config.holdTtlMs);
+    } catch (error) {
+      console.error(`Failed to extend credit reservation ${this.hold.reservationId}:`, error);
+    }
+  }
+
+  /**
+   * Return whatever the batch did not use to the balance
+   */
+  private async releaseHold(): Promise<void> {
+    if (!this.hold) return;
 
-    // Throw error if no API key is available
-    throw new Error('Image description service is not available - API key not configured');
+    const { reservationId } = this.hold;
+    this.hold = null;
+    try {
+      await this.creditManager.releaseReservation(reservationId);
+    } catch (error) {
+      // Jobs release their reservations again when they finish
+      console.error(`Failed to release credit reservation ${reservationId}:`, error);
+    }
+  }
+
+  private async canAffordNext(credits: number): Promise<boolean> {
+    return this.hold ? this.hold.remaining >= credits : this.creditManager.canAfford(credits);
+  }
+
+  /**
+   * Balance as the user will see it after the run: credits still held are counted as available
+   */
+  private async getSpendableCredits(): Promise<number> {
+    return (await this.creditManager.getCurrentBalance()) + (this.hold?.remaining ?? 0);
   }
 
   /**
@@ -275,7 +459,8 @@ export class ImageDescriptionProcessor {
    */
   async processImages(
     files: File[],
-    onProgress?: (progress: ProcessingProgress) => void
+    onProgress?: (progress: ProcessingProgress) => void,
+    job?: DescriptionJobTracker
   ): Promise<ProcessingSummary> {
     if (this.isProcessing) {
       throw new Error('Processing is already in progress');
@@ -283,16 +468,21 @@ export class ImageDescriptionProcessor {
 
     this.isProcessing = true;
     this.shouldStop = false;
+    this.pricing = null;
 
     const results: ImageProcessResult[] = [];
     let successful = 0;
     let failed = 0;
     let creditsUsed = 0;
     let stoppedDueToCredits = false;
+    let usageCapMessage: string | undefined;
 
     try {
+      await job?.markRunning();
+      await this.holdCreditsForBatch(files, job);
+
       // Initial credit check
-      const initialBalance = await this.creditManager.getCurrentBalance();
+      const initialBalance = await this.getSpendableCredits();
       
       onProgress?.({
         type: 'started',
@@ -312,7 +502,7 @@ export class ImageDescriptionProcessor {
         
         // Check credits before processing if enabled
         if (this.config.checkCreditsBeforeEach && this.config.stopOnInsufficientCredits) {
-          const canAfford = await this.creditManager.canAfford(1);
+          const canAfford = await this.canAffordNext((await this.quoteFor(file)).credits);
           if (!canAfford) {
             stoppedDueToCredits = true;
             onProgress?.({
@@ -320,20 +510,36 @@ export class ImageDescriptionProcessor {
               index: i,
               total: files.length,
               message: 'Processing stopped due to insufficient credits',
-              remainingCredits: await this.creditManager.getCurrentBalance()
+              remainingCredits: await this.getSpendableCredits()
             });
             break;
           }
         }
 
+        await this.extendHold();
+        await job?.markItemProcessing(i);
         const result = await this.processSingleImage(file, i, onProgress);
         results.push(result);
+        await job?.recordResult(result);
 
         if (result.success) {
           successful++;
-          creditsUsed++;
+          creditsUsed += result.creditsCharged ?? 0;
         } else {
           failed++;
+
+          // A usage cap stops the batch until it resets
+          if (result.usageCapResetsAt) {
+            usageCapMessage = result.error;
+            onProgress?.({
+              type: 'stopped',
+              index: i,
+              total: files.length,
+              message: `Processing stopped: ${result.error}`,
+              remainingCredits: result.remainingCredits || 0
+            });
+            break;
+          }
           
           // Check if we should stop due to credit issues
           if (this.config.stopOnInsufficientCredits && 
@@ -359,7 +565,9 @@ export class ImageDescriptionProcessor {
         });
       }
 
+      await this.releaseHold();
       const finalBalance = await this.creditManager.getCurrentBalance();
+      await job?.finish({ stoppedDueToCredits, usageCap: usageCapMessage, cancelled: this.shouldStop });
 
       return {
         total: files.length,
@@ -372,6 +580,8 @@ export class ImageDescriptionProcessor {
       };
 
     } catch (error) {
+      await job?.finish({ error: error instanceof Error ? error.message : 'Unknown error occurred' });
+
       onProgress?.({
         type: 'error',
         index: 0,
@@ -381,6 +591,8 @@ export class ImageDescriptionProcessor {
 
       throw error;
     } finally {
+      await this.releaseHold();
+      this.pricing = null;
       this.isProcessing = false;
     }
   }
@@ -391,7 +603,8 @@ export class ImageDescriptionProcessor {
   async processImagesWithStreaming(
     files: File[],
     onProgress: (update: any) => void,
-    abortSignal?: AbortSignal
+    abortSignal?: AbortSignal,
+    job?: DescriptionJobTracker
   ): Promise<ProcessingSummary> {
     if (this.isProcessing) {
       throw new Error('Processing is already in progress');
@@ -399,16 +612,21 @@ export class ImageDescriptionProcessor {
 
     this.isProcessing = true;
     this.shouldStop = false;
+    this.pricing = null;
 
     const results: ImageProcessResult[] = [];
     let successful = 0;
     let failed = 0;
     let creditsUsed = 0;
     let stoppedDueToCredits = false;
+    let usageCapMessage: string | undefined;
 
     try {
+      await job?.markRunning();
+      await this.holdCreditsForBatch(files, job);
+
       // Initial credit check
-      const initialBalance = await this.creditManager.getCurrentBalance();
+      const initialBalance = await this.getSpendableCredits();
       
       onProgress({
         type: 'progress',
@@ -432,24 +650,24 @@ export class ImageDescriptionProcessor {
           type: 'credit_check',
           index: i,
           message: `Checking credits for ${file.name}`,
-          remainingCredits: await this.creditManager.getCurrentBalance()
+          remainingCredits: await this.getSpendableCredits()
         });
 
         // Check credits before processing if enabled
         if (this.config.checkCreditsBeforeEach && this.config.stopOnInsufficientCredits) {
-          const canAfford = await this.creditManager.canAfford(1);
+          const canAfford = await this.canAffordNext((await this.quoteFor(file)).credits);
           if (!canAfford) {
             stoppedDueToCredits = true;
             onProgress({
               type: 'stopped',
               message: 'Processing stopped due to insufficient credits',
-              remainingCredits: await this.creditManager.getCurrentBalance(),
+              remainingCredits: await this.getSpendableCredits(),
               summary: {
                 total: files.length,
                 successful,
                 failed,
                 creditsUsed,
-                remainingCredits: await this.creditManager.getCurrentBalance(),
+                remainingCredits: await this.getSpendableCredits(),
                 stoppedDueToCredits: true
               }
             });
@@ -463,17 +681,39 @@ export class ImageDescriptionProcessor {
           index: i + 1,
           total: files.length,
           message: `Processing ${file.name}`,
-          remainingCredits: await this.creditManager.getCurrentBalance()
+          remainingCredits: await this.getSpendableCredits()
         });
 
+        await this.extendHold();
+        await job?.markItemProcessing(i);
         const result = await this.processSingleImage(file, i);
         results.push(result);
+        await job?.recordResult(result);
 
         if (result.success) {
           successful++;
-          creditsUsed++;
+          creditsUsed += result.creditsCharged ?? 0;
         } else {
           failed++;
+
+          // A usage cap stops the batch until it resets
+          if (result.usageCapResetsAt) {
+            usageCapMessage = result.error;
+            onProgress({
+              type: 'stopped',
+              message: `Processing stopped: ${result.error}`,
+              remainingCredits: result.remainingCredits || 0,
+              summary: {
+                total: files.length,
+                successful,
+                failed,
+                creditsUsed,
+                remainingCredits: result.remainingCredits || 0,
+                stoppedDueToCredits: false
+              }
+            });
+            break;
+          }
           
           // Check if we should stop due to credit issues
           if (this.config.stopOnInsufficientCredits && 
@@ -503,7 +743,14 @@ export class ImageDescriptionProcessor {
         });
       }
 
+      await this.releaseHold();
       const finalBalance = await this.creditManager.getCurrentBalance();
+      await job?.finish({
+        stoppedDueToCredits,
+        usageCap: usageCapMessage,
+        cancelled: Boolean(abortSignal?.aborted) || this.shouldStop
+      });
+
       const summary = {
         total: files.length,
         successful,
@@ -523,6 +770,8 @@ export class ImageDescriptionProcessor {
       return summary;
 
     } catch (error) {
+      await job?.finish({ error: error instanceof Error ? error.message : 'Unknown error occurred' });
+
       onProgress({
         type: 'error',
         error: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -530,6 +779,8 @@ export class ImageDescriptionProcessor {
 
       throw error;
     } finally {
+      await this.releaseHold();
+      this.pricing = null;
       this.isProcessing = false;
     }
   }
@@ -556,10 +807,10 @@ export class ImageDescriptionProcessor {
   }
 
   /**
-   * Validate if user can process a specific number of images
+   * Validate if user can afford to process the given images
    */
-  async canProcessImages(count: number): Promise<boolean> {
-    return this.creditManager.canAfford(count);
+  async canProcessImages(files: File[]): Promise<boolean> {
+    return this.creditManager.canAfford((await this.quote(files)).totalCredits);
   }
 
   /**
@@ -0,0 +1,176 @@
+import { Notification, NotificationType, PaymentRequest } from '@prisma/client';
+import { prisma } from './prisma';
+import { CreditCatalogError, isPurchaseLocation, priceCreditPurchase } from './credit-catalog';
+import { createNotification } from './notifications';
+import { OPEN_PAYMENT_STATUSES } from './payment-lifecycle';
+
+/**
+ * Low-balance alerts
+ *
+ * A user may set a threshold; the debit that takes their balance from at or above it
+ * to below it sends a LOW_BALANCE notification. Later debits below the threshold stay
+ * quiet until a top-up lifts the balance back over it.
+ *
+ * With autoTopUpDraft on, the alert also prepares a DRAFT payment request for the
+ * credits of the user's last approved purchase at today's price, so topping up only
+ * needs the transaction ID. Drafts are never shown to admins; submitting one turns it
+ * into a PENDING request, and any purchase the user submits discards their other drafts.
+ */
+
+const MAX_THRESHOLD = 1000000;
+
+/**
+ * Custom error class for invalid alert settings
+ */
+export class LowBalanceAlertError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LowBalanceAlertError';
+  }
+}
+
+/**
+ * A user's alert settings
+ */
+export interface LowBalanceSettings {
+  lowBalanceThreshold: number | null; // null turns alerts off
+  autoTopUpDraft: boolean;
+}
+
+/**
+ * Validate alert settings sent by the user
+ */
+export function parseLowBalanceSettings(body: Record<string, unknown>): LowBalanceSettings {
+  const rawThreshold = body.lowBalanceThreshold;
+  let lowBalanceThreshold: number | null = null;
+
+  if (rawThreshold !== null && rawThreshold !== undefined && rawThreshold !== '') {
+    lowBalanceThreshold = Number(rawThreshold);
+    if (!Number.isInteger(lowBalanceThreshold) || lowBalanceThreshold < 1 || lowBalanceThreshold > MAX_THRESHOLD) {
+      throw new LowBalanceAlertError(`The alert threshold must be a whole number of credits between 1 and ${MAX_THRESHOLD}`);
+    }
+  }
+
+  return {
+    lowBalanceThreshold,
+    autoTopUpDraft: lowBalanceThreshold !== null && body.autoTopUpDraft === true
+  };
+}
+
+/**
+ * A user's alert settings
+ */
+export async function getLowBalanceSettings(userId: string): Promise<LowBalanceSettings> {
+  return prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { lowBalanceThreshold: true, autoTopUpDraft: true }
+  });
+}
+
+/**
+ * Save a user's alert settings
+ */
+export async function updateLowBalanceSettings(userId: string, settings: LowBalanceSettings): Promise<LowBalanceSettings> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: settings,
+    select: { lowBalanceThreshold: true, autoTopUpDraft: true }
+  });
+}
+
+/**
+ * Send the alert when a debit took the balance below the user's threshold
+ * Returns the notification, or null when the debit did not cross the threshold.
+ */
+export async function checkLowBalance(
+  userId: string,
+  previousBalance: number,
+  newBalance: number
+): Promise<Notification | null> {
+  if (newBalance >= previousBalance) {
+    return null;
+  }
+
+  const settings = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { lowBalanceThreshold: true, autoTopUpDraft: true }
+  });
+  const threshold = settings?.lowBalanceThreshold;
+  if (!settings || threshold === null || threshold === undefined) {
+    return null;
+  }
+  if (previousBalance < threshold || newBalance >= threshold) {
+    return null;
+  }
+
+  const draft = settings.autoTopUpDraft ? await prepareTopUpDraft(userId) : null;
+
+  return createNotification({
+    userId,
+    type: NotificationType.LOW_BALANCE,
+    title: `${newBalance} credit${newBalance === 1 ? '' : 's'} left`,
+    message: draft
+      ? `Your balance is below ${threshold} credits. A top-up of ${draft.creditsRequested} credits for ${draft.amount} ${draft.currency} is ready; add your transaction ID to submit it.`
+      : `Your balance is below ${threshold} credits. Top up to keep describing images without interruption.`,
+    link: draft ? topUpDraftLink(draft) : '/app/buy-credits'
+  });
+}
+
+/**
+ * Payment page for a draft top-up
+ */
+export function topUpDraftLink(draft: Pick<PaymentRequest, 'id' | 'creditsRequested' | 'location'>): string {
+  const params = new URLSearchParams({
+    credits: String(draft.creditsRequested),
+    location: draft.location,
+    draft: draft.id
+  });
+  return `/app/buy-credits/payment?${params.toString()}`;
+}
+
+/**
+ * Draft a payment request repeating the user's last approved purchase
+ * Nothing is drafted while a draft or a purchase under review already exists, when the
+ * user has never bought credits, or when the catalog no longer sells that amount.
+ */
+async function prepareTopUpDraft(userId: string): Promise<PaymentRequest | null> {
+  const open = await prisma.paymentRequest.count({
+    where: { userId, subscriptionId: null, status: { in: ['DRAFT', ...OPEN_PAYMENT_STATUSES] } }
+  });
+  if (open > 0) {
+    return null;
+  }
+
+  const lastPurchase = await prisma.paymentRequest.findFirst({
+    where: { userId, subscriptionId: null, status: { in: ['APPROVED', 'PARTIALLY_APPROVED'] } },
+    orderBy: { processedAt: 'desc' },
+    select: { creditsRequested: true, location: true }
+  });
+  if (!lastPurchase || !isPurchaseLocation(lastPurchase.location)) {
+    return null;
+  }
+
+  let quote;
+  try {
+    quote = await priceCreditPurchase(lastPurchase.location, lastPurchase.creditsRequested);
+  } catch (error) {
+    if (error instanceof CreditCatalogError) {
+      return null;
+    }
+    throw error;
+  }
+
+  return prisma.paymentRequest.create({
+    data: {
+      userId,
+      creditsRequested: quote.credits,
+      amount: quote.amount,
+      currency: quote.currency,
+      location: quote.location,
+      paymentMethod: quote.paymentMethod,
+      qrCodeUsed: quote.qrCode,
+      status: 'DRAFT',
+      events: { create: { toStatus: 'DRAFT' } }
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import { Notification, NotificationType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * In-app notifications
+ *
+ * Messages for the user shown on the notifications page, with an unread count in the
+ * sidebar. A notification may link to the page where the user can act on it.
+ */
+
+/**
+ * A notification to send
+ */
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string | null;
+}
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Send a notification to a user
+ */
+export async function createNotification(input: NotificationInput, client: Client = prisma): Promise<Notification> {
+  return client.notification.create({
+    data: {
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      link: input.link ?? null
+    }
+  });
+}
+
+/**
+ * A user's notifications, newest first
+ */
+export async function listNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+  return prisma.notification.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  });
+}
+
+/**
+ * Number of notifications the user has not read yet
+ */
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  return prisma.notification.count({
+    where: { userId, readAt: null }
+  });
+}
+
+/**
+ * Mark the given notifications read, or all of the user's notifications without IDs
+ * Returns how many were marked.
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: {
+      userId,
+      readAt: null,
+      ...(ids ? { id: { in: ids } } : {})
+    },
+    data: { readAt: new Date() }
+  });
+  return result.count;
+}
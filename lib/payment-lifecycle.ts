@@ -0,0 +1,254 @@
+import { NotificationType, PaymentRequest, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { settlePurchaseCoupon } from './coupons';
+import { grantCredits } from './credit-lots';
+import { createNotification } from './notifications';
+import { applySubscriptionPayment } from './subscriptions';
+
+/**
+ * Payment request lifecycle
+ *
+ * A submitted request is PENDING until an admin approves, partially approves or rejects
+ * it. Instead of deciding, the admin may ask the user for more information (NEEDS_INFO);
+ * the user answers by editing the transaction ID or screenshot, which makes the request
+ * RESUBMITTED and puts it back in the review queue. While a request is open the user can
+ * also fix it unprompted, or cancel it (CANCELLED), which releases its transaction ID and
+ * voids any promo code bonus like a rejection does.
+ *
+ * Every change is recorded as a PaymentRequestEvent with who made it and their note, so
+ * the events are both the request's history and the conversation between admin and user.
+ * Changes only apply when the request is still in the status they start from, so an admin
+ * and the user acting at the same time cannot both succeed.
+ */
+
+/**
+ * Statuses a request waits for an admin decision in
+ */
+export const REVIEWABLE_PAYMENT_STATUSES: PaymentStatus[] = ['PENDING', 'RESUBMITTED'];
+
+/**
+ * Statuses the user can still edit or cancel a request in
+ */
+export const OPEN_PAYMENT_STATUSES: PaymentStatus[] = ['PENDING', 'NEEDS_INFO', 'RESUBMITTED'];
+
+const MAX_NOTE_LENGTH = 2000;
+
+/**
+ * Custom error class for status changes that are not allowed
+ */
+export class PaymentLifecycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentLifecycleError';
+  }
+}
+
+/**
+ * A status change to apply to a request
+ */
+export interface PaymentTransition {
+  paymentRequestId: string;
+  from: PaymentStatus[]; // Statuses the change can start from
+  to: PaymentStatus;
+  actorId: string | null;
+  note?: string | null;
+  userId?: string; // Only change the request if it belongs to this user
+  data?: Prisma.PaymentRequestUpdateManyMutationInput; // Other fields to update with the status
+}
+
+/**
+ * An admin's decision on a request waiting for review
+ * A partial approval grants `creditsGranted`, fewer than requested, e.g. for an underpayment.
+ */
+export interface PaymentDecision {
+  action: 'APPROVED' | 'PARTIALLY_APPROVED' | 'REJECTED';
+  adminNotes: string | null;
+  creditsGranted?: number;
+  reason?: string;
+}
+
+/**
+ * Trim a note, treating an empty one as no note
+ */
+export function parsePaymentNote(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new PaymentLifecycleError('The note must be text');
+  }
+
+  const note = value.trim();
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new PaymentLifecycleError(`The note can be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return note || null;
+}
+
+/**
+ * Move a request to a new status and record the change in its history
+ * Call inside a transaction. Throws PaymentLifecycleError when the request does not
+ * exist (or is not the user's) or is no longer in one of the `from` statuses.
+ */
+export async function transitionPaymentRequest(
+  tx: Prisma.TransactionClient,
+  transition: PaymentTransition
+): Promise<PaymentRequest> {
+  const current = await tx.paymentRequest.findFirst({
+    where: { id: transition.paymentRequestId, ...(transition.userId ? { userId: transition.userId } : {}) },
+    select: { status: true }
+  });
+  if (!current) {
+    throw new PaymentLifecycleError('Payment request not found');
+  }
+
+  if (!transition.from.includes(current.status)) {
+    throw new PaymentLifecycleError(describeClosedStatus(current.status));
+  }
+
+  // Conditional on the status read above, so a concurrent change makes this one fail
+  const { count } = await tx.paymentRequest.updateMany({
+    where: { id: transition.paymentRequestId, status: current.status },
+    data: { ...transition.data, status: transition.to }
+  });
+  if (count === 0) {
+    throw new PaymentLifecycleError('Payment request was changed in the meantime. Reload it and try again.');
+  }
+
+  await tx.paymentRequestEvent.create({
+    data: {
+      paymentRequestId: transition.paymentRequestId,
+      actorId: transition.actorId,
+      fromStatus: current.status,
+      toStatus: transition.to,
+      note: transition.note ?? null
+    }
+  });
+
+  return tx.paymentRequest.findUniqueOrThrow({ where: { id: transition.paymentRequestId } });
+}
+
+/**
+ * Approve, partially approve or reject a request waiting for review
+ * Call inside a transaction. Approving adds the credits, or the subscription period for a
+ * plan payment, and settles any promo code bonus entered with the purchase.
+ */
+export async function decidePaymentRequest(
+  tx: Prisma.TransactionClient,
+  paymentRequest: Pick<PaymentRequest, 'id' | 'userId' | 'creditsRequested' | 'paymentMethod' | 'subscriptionId'>,
+  adminId: string | null, // null when approved automatically, e.g. by the payment webhook
+  decision: PaymentDecision
+): Promise<PaymentRequest> {
+  const isPartial = decision.action === 'PARTIALLY_APPROVED';
+  const approved = decision.action !== 'REJECTED';
+  const grantedCredits = isPartial ? decision.creditsGranted as number : paymentRequest.creditsRequested;
+  const reference = `Payment Request #${paymentRequest.id.slice(-8)}`;
+
+  const updatedRequest = await transitionPaymentRequest(tx, {
+    paymentRequestId: paymentRequest.id,
+    from: REVIEWABLE_PAYMENT_STATUSES,
+    to: decision.action,
+    actorId: adminId,
+    note: decision.adminNotes,
+    data: {
+      adminNotes: decision.adminNotes,
+      creditsGranted: approved ? grantedCredits : null,
+      adjustmentReason: isPartial ? decision.reason : null,
+      // A rejected request gives its transaction ID back, so a genuine receipt can be resubmitted
+      ...(approved ? {} : { transactionIdKey: null }),
+      processedBy: adminId,
+      processedAt: new Date()
+    }
+  });
+
+  if (approved && paymentRequest.subscriptionId) {
+    // A plan payment pays for a subscription period, which grants the plan's allowance
+    await applySubscriptionPayment(tx, paymentRequest.subscriptionId);
+  } else if (approved) {
+    // Add the purchased credits as a lot with its credit transaction record
+    await grantCredits(tx, {
+      userId: paymentRequest.userId,
+      amount: grantedCredits,
+      type: 'PURCHASE',
+      description: isPartial
+        ? `Credits purchased via ${paymentRequest.paymentMethod}, partially approved (${grantedCredits} of ${paymentRequest.creditsRequested}) - ${reference}`
+        : `Credits purchased via ${paymentRequest.paymentMethod} - ${reference}`
+    });
+  }
+
+  // Pay out or void a promo code bonus entered with the purchase, scaled to a partial approval
+  await settlePurchaseCoupon(tx, paymentRequest.id, approved, isPartial ? grantedCredits : undefined);
+
+  return updatedRequest;
+}
+
+/**
+ * Ask the user to correct or explain their payment, notifying them
+ */
+export async function requestPaymentInfo(
+  tx: Prisma.TransactionClient,
+  paymentRequestId: string,
+  adminId: string,
+  note: string
+): Promise<PaymentRequest> {
+  const updated = await transitionPaymentRequest(tx, {
+    paymentRequestId,
+    from: REVIEWABLE_PAYMENT_STATUSES,
+    to: 'NEEDS_INFO',
+    actorId: adminId,
+    note,
+    data: { adminNotes: note }
+  });
+
+  await createNotification({
+    userId: updated.userId,
+    type: NotificationType.PAYMENT_NEEDS_INFO,
+    title: 'Your payment needs more information',
+    message: note,
+    link: '/app/payment-requests'
+  }, tx);
+
+  return updated;
+}
+
+/**
+ * Withdraw one of the user's open requests
+ * The transaction ID is released and a promo code bonus set aside for the request is voided.
+ */
+export async function cancelPaymentRequest(
+  userId: string,
+  paymentRequestId: string,
+  note: string | null
+): Promise<PaymentRequest> {
+  return prisma.$transaction(async (tx) => {
+    const cancelled = await transitionPaymentRequest(tx, {
+      paymentRequestId,
+      userId,
+      from: OPEN_PAYMENT_STATUSES,
+      to: 'CANCELLED',
+      actorId: userId,
+      note,
+      data: { transactionIdKey: null }
+    });
+
+    await settlePurchaseCoupon(tx, paymentRequestId, false);
+
+    return cancelled;
+  });
+}
+
+/**
+ * Why a request can no longer change from its current status
+ */
+function describeClosedStatus(status: PaymentStatus): string {
+  switch (status) {
+    case 'DRAFT':
+      return 'Payment request has not been submitted yet';
+    case 'NEEDS_INFO':
+      return 'Payment request is waiting for the user to respond';
+    case 'CANCELLED':
+      return 'Payment request has been cancelled';
+    default:
+      return 'Payment request has already been processed';
+  }
+}
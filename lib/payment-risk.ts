@@ -0,0 +1,170 @@
+import sharp from 'sharp';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * Fraud checks for payment requests
+ *
+ * A transaction ID can back only one open or approved request per payment method. It
+ * is stored normalised (upper case, without spaces or dashes) in transactionIdKey
+ * under a unique index, and cleared when a request is rejected or cancelled so a
+ * genuine receipt can be submitted again.
+ *
+ * Every uploaded screenshot gets a 64-bit difference hash (dHash), which barely changes
+ * when an image is re-encoded, resized or lightly edited. A new request is flagged when
+ * its screenshot is within SIMILAR_SCREENSHOT_DISTANCE bits of an earlier request's, by
+ * any user, or when its transaction ID was used on an earlier rejected or cancelled
+ * request. Flags are stored on the request for the admin reviewing it; they do not block it.
+ */
+
+export const SIMILAR_SCREENSHOT_DISTANCE = 6;
+const MAX_MATCHES = 10;
+
+export type PaymentRiskReason = 'TRANSACTION_ID_REUSED' | 'SIMILAR_SCREENSHOT';
+
+/**
+ * An earlier request a new one matches
+ */
+export type PaymentRiskFlag = {
+  reason: PaymentRiskReason;
+  requestId: string;
+  userId: string;
+  distance?: number; // Bits that differ between the two screenshot hashes
+};
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Thrown when a transaction ID already backs an open or approved request
+ */
+export class DuplicateTransactionIdError extends Error {
+  constructor() {
+    super('This transaction ID has already been submitted. Each payment can only be used for one request.');
+    this.name = 'DuplicateTransactionIdError';
+  }
+}
+
+/**
+ * The form of a transaction ID that uniqueness is checked on
+ */
+export function normalizeTransactionId(transactionId: string): string {
+  return transactionId.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Whether a failed write was the transaction ID unique index
+ */
+export function isDuplicateTransactionId(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002' &&
+    Array.isArray(error.meta?.target) &&
+    (error.meta.target as string[]).includes('transactionIdKey')
+  );
+}
+
+/**
+ * Difference hash of a screenshot as 16 hex digits
+ * Each bit says whether a pixel of the 9x8 greyscale thumbnail is darker than its right
+ * neighbour. Returns null for files the image library cannot read; those are stored
+ * without a hash rather than rejected.
+ */
+export async function hashScreenshot(file: File): Promise<string | null> {
+  try {
+    const pixels = await sharp(Buffer.from(await file.arrayBuffer()))
+      .rotate()
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = '';
+    for (let nibble = 0; nibble < 16; nibble++) {
+      let value = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const index = nibble * 4 + bit;
+        const row = Math.floor(index / 8);
+        const column = index % 8;
+        value = (value << 1) | (pixels[row * 9 + column] < pixels[row * 9 + column + 1] ? 1 : 0);
+      }
+      hash += value.toString(16);
+    }
+    return hash;
+  } catch (error) {
+    console.error(`Failed to hash payment screenshot ${file.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Throw DuplicateTransactionIdError when the transaction ID already backs another request
+ * The unique index enforces this too; checking first avoids uploading the screenshot.
+ */
+export async function assertTransactionIdAvailable(
+  paymentMethod: string,
+  transactionIdKey: string,
+  client: Client = prisma
+): Promise<void> {
+  const existing = await client.paymentRequest.findFirst({
+    where: { paymentMethod, transactionIdKey },
+    select: { id: true }
+  });
+  if (existing) {
+    throw new DuplicateTransactionIdError();
+  }
+}
+
+/**
+ * Earlier requests a new request matches on its transaction ID or screenshot
+ * Pass `excludeId` when the request already exists, e.g. a draft being submitted.
+ */
+export async function findPaymentRiskFlags(
+  client: Client,
+  request: { paymentMethod: string; transactionIdKey: string; screenshotHash: string | null; excludeId?: string }
+): Promise<PaymentRiskFlag[]> {
+  const excludeId = request.excludeId ?? '';
+
+  // Rejected and cancelled requests no longer hold their key, so compare the transaction IDs themselves
+  const reused = await client.$queryRaw<Array<{ id: string; userId: string }>>`
+    SELECT "id", "userId" FROM "public"."payment_requests"
+    WHERE "paymentMethod" = ${request.paymentMethod}
+      AND "status" IN ('REJECTED', 'CANCELLED')
+      AND "id" <> ${excludeId}
+      AND UPPER(REGEXP_REPLACE("transactionId", '[\\s-]', '', 'g')) = ${request.transactionIdKey}
+    ORDER BY "createdAt" ASC
+    LIMIT ${MAX_MATCHES}
+  `;
+
+  const flags: PaymentRiskFlag[] = reused.map((match) => ({
+    reason: 'TRANSACTION_ID_REUSED',
+    requestId: match.id,
+    userId: match.userId
+  }));
+
+  if (request.screenshotHash) {
+    // Hamming distance between the two 64-bit hashes
+    const similar = await client.$queryRaw<Array<{ id: string; userId: string; distance: number }>>`
+      SELECT "id", "userId", "distance" FROM (
+        SELECT "id", "userId", "createdAt",
+               LENGTH(REPLACE(
+                 ((('x' || "screenshotHash")::bit(64)) # (('x' || ${request.screenshotHash})::bit(64)))::text,
+                 '0', ''
+               ))::int AS "distance"
+        FROM "public"."payment_requests"
+        WHERE "screenshotHash" IS NOT NULL AND "id" <> ${excludeId}
+      ) AS compared
+      WHERE "distance" <= ${SIMILAR_SCREENSHOT_DISTANCE}
+      ORDER BY "createdAt" ASC
+      LIMIT ${MAX_MATCHES}
+    `;
+
+    flags.push(...similar.map((match): PaymentRiskFlag => ({
+      reason: 'SIMILAR_SCREENSHOT',
+      requestId: match.id,
+      userId: match.userId,
+      distance: match.distance
+    })));
+  }
+
+  return flags;
+}
@@ -0,0 +1,361 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { PaymentRequest, Prisma, WebhookDeliveryStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { getSetting } from './settings';
+import { amountsMatch } from './credit-catalog';
+import { PaymentLifecycleError, REVIEWABLE_PAYMENT_STATUSES, decidePaymentRequest } from './payment-lifecycle';
+import { normalizeTransactionId } from './payment-risk';
+
+/**
+ * Payment webhook
+ *
+ * A payment provider (or anything standing in for one) posts a notification for each
+ * payment it receives. The notification is matched to a payment request awaiting review
+ * by its transaction ID, the way lib/statement-import.ts matches statement lines, and a
+ * request with the same amount and currency is approved in full without an admin.
+ *
+ * Each delivery carries three headers:
+ * - X-Webhook-Id: the sender's unique ID for the delivery, reused when it retries
+ * - X-Webhook-Timestamp: when it was sent, in Unix seconds
+ * - X-Webhook-Signature: "sha256=" and the hex HMAC-SHA256 of "<id>.<timestamp>.<body>",
+ *   keyed with the shared secret stored as the PAYMENT_WEBHOOK_SECRET setting
+ *
+ * Deliveries sent more than WEBHOOK_TOLERANCE_SECONDS ago are refused, and an ID is only
+ * processed once, so a captured delivery cannot be replayed. Every delivery is logged as a
+ * PaymentWebhookDelivery with its outcome. Refused deliveries could come from anyone, so
+ * only the size and hash of their body are logged, and at most MAX_REFUSED_LOGS_PER_MINUTE.
+ */
+
+export const PAYMENT_WEBHOOK_SECRET_KEY = 'PAYMENT_WEBHOOK_SECRET';
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+const MAX_LOGGED_PAYLOAD = 10000;
+const MAX_DELIVERY_ID_LENGTH = 200;
+const MAX_REFUSED_LOGS_PER_MINUTE = 60;
+const REFUSED_STATUSES: WebhookDeliveryStatus[] = [WebhookDeliveryStatus.INVALID_SIGNATURE, WebhookDeliveryStatus.STALE];
+
+/**
+ * Custom error class for webhooks that cannot be received, e.g. without a secret
+ */
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentWebhookError';
+  }
+}
+
+/**
+ * A delivery as it arrived, before anything is checked
+ */
+export interface PaymentWebhookDeliveryInput {
+  deliveryId: string | null;
+  timestamp: string | null;
+  signature: string | null;
+  body: string;
+}
+
+/**
+ * The payment a delivery reports
+ */
+export interface PaymentNotification {
+  transactionId: string;
+  amount: number;
+  currency: string;
+  paymentMethod: string | null; // Narrows the match when one transaction ID is used with several methods
+}
+
+/**
+ * What became of a delivery
+ */
+export interface PaymentWebhookResult {
+  status: WebhookDeliveryStatus;
+  detail: string | null;
+  paymentRequestId: string | null;
+}
+
+/**
+ * Signature header value for a delivery
+ */
+export function signWebhookPayload(secret: string, deliveryId: string, timestamp: string, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${deliveryId}.${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Whether a signature header was made with the secret, compared in constant time
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  deliveryId: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, deliveryId, timestamp, body));
+  const received = Buffer.from(signature.trim());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Read the payment out of a delivery body
+ * Expects JSON like {"transactionId": "...", "amount": 1500, "currency": "PKR", "paymentMethod": "QR_CODE"},
+ * where paymentMethod is optional.
+ */
+export function parsePaymentNotification(body: string): PaymentNotification {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new PaymentWebhookError('Body is not valid JSON');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new PaymentWebhookError('Body must be a JSON object');
+  }
+
+  const { transactionId, amount, currency, paymentMethod } = data as Record<string, unknown>;
+  if (typeof transactionId !== 'string' || normalizeTransactionId(transactionId).length < 3) {
+    throw new PaymentWebhookError('transactionId must be a transaction ID of at least 3 characters');
+  }
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    throw new PaymentWebhookError('amount must be a positive number');
+  }
+  if (typeof currency !== 'string' || !/^[A-Za-z]{3}$/.test(currency.trim())) {
+    throw new PaymentWebhookError('currency must be a three-letter currency code');
+  }
+  if (paymentMethod !== undefined && paymentMethod !== null && (typeof paymentMethod !== 'string' || !paymentMethod.trim())) {
+    throw new PaymentWebhookError('paymentMethod must be text when given');
+  }
+
+  return {
+    transactionId: transactionId.trim(),
+    amount,
+    currency: currency.trim().toUpperCase(),
+    paymentMethod: typeof paymentMethod === 'string' ? paymentMethod.trim() : null
+  };
+}
+
+/**
+ * Check, log and act on a delivery
+ * Throws PaymentWebhookError when no secret is configured. An unexpected error leaves the
+ * delivery FAILED and is rethrown, so the sender's retry of the same ID is processed again.
+ */
+export async function receivePaymentWebhook(delivery: PaymentWebhookDeliveryInput): Promise<PaymentWebhookResult> {
+  const secret = await getSetting(PAYMENT_WEBHOOK_SECRET_KEY);
+  if (!secret) {
+    throw new PaymentWebhookError('Payment webhook secret is not configured');
+  }
+
+  const payload = delivery.body.slice(0, MAX_LOGGED_PAYLOAD);
+  const deliveryId = delivery.deliveryId?.trim() || '';
+  const timestamp = delivery.timestamp?.trim() || '';
+
+  // Refused deliveries are logged without claiming their ID or keeping their body, which could be forged
+  const refuse = async (status: WebhookDeliveryStatus, detail: string): Promise<PaymentWebhookResult> => {
+    const recentlyRefused = await prisma.paymentWebhookDelivery.count({
+      where: { status: { in: REFUSED_STATUSES }, receivedAt: { gte: new Date(Date.now() - 60 * 1000) } }
+    });
+    if (recentlyRefused < MAX_REFUSED_LOGS_PER_MINUTE) {
+      const digest = createHash('sha256').update(delivery.body).digest('hex');
+      await prisma.paymentWebhookDelivery.create({
+        data: {
+          deliveryId: null,
+          status,
+          detail: `${detail} (body of ${Buffer.byteLength(delivery.body)} bytes, sha256 ${digest})`,
+          payload: null
+        }
+      });
+    }
+    return { status, detail, paymentRequestId: null };
+  };
+
+  if (!deliveryId || deliveryId.length > MAX_DELIVERY_ID_LENGTH) {
+    return refuse(WebhookDeliveryStatus.INVALID_SIGNATURE, 'X-Webhook-Id header is missing or too long');
+  }
+  if (
+    !timestamp ||
+    !delivery.signature ||
+    !verifyWebhookSignature(secret, deliveryId, timestamp, delivery.body, delivery.signature)
+  ) {
+    return refuse(WebhookDeliveryStatus.INVALID_SIGNATURE, `Signature of delivery ${deliveryId} does not match`);
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+    return refuse(
+      WebhookDeliveryStatus.STALE,
+      `Delivery ${deliveryId} was sent more than ${WEBHOOK_TOLERANCE_SECONDS} seconds from now`
+    );
+  }
+
+  const claimed = await claimDelivery(deliveryId, payload);
+  if (!claimed) {
+    const original = await prisma.paymentWebhookDelivery.findUnique({
+      where: { deliveryId },
+      select: { status: true, paymentRequestId: true }
+    });
+    const detail = `Delivery ${deliveryId} was already received${original ? ` (${original.status})` : ''}`;
+    await prisma.paymentWebhookDelivery.create({
+      data: {
+        deliveryId: null,
+        status: WebhookDeliveryStatus.REPLAYED,
+        detail,
+        payload,
+        paymentRequestId: original?.paymentRequestId ?? null
+      }
+    });
+    return { status: WebhookDeliveryStatus.REPLAYED, detail, paymentRequestId: original?.paymentRequestId ?? null };
+  }
+
+  try {
+    return await processDelivery(claimed, deliveryId, delivery.body);
+  } catch (error) {
+    await prisma.paymentWebhookDelivery.update({
+      where: { id: claimed },
+      data: {
+        status: WebhookDeliveryStatus.FAILED,
+        detail: error instanceof Error ? error.message.slice(0, 1000) : 'Unexpected error'
+      }
+    });
+    throw error;
+  }
+}
+
+/**
+ * Record an authentic delivery, returning its log ID
+ * Returns null when the ID was already received, unless that attempt FAILED, in which
+ * case it is taken over for another try.
+ */
+async function claimDelivery(deliveryId: string, payload: string): Promise<string | null> {
+  try {
+    const created = await prisma.paymentWebhookDelivery.create({
+      data: { deliveryId, status: WebhookDeliveryStatus.RECEIVED, payload },
+      select: { id: true }
+    });
+    return created.id;
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error;
+    }
+  }
+
+  // Conditional on FAILED, so only one of two concurrent retries takes it over
+  const { count } = await prisma.paymentWebhookDelivery.updateMany({
+    where: { deliveryId, status: WebhookDeliveryStatus.FAILED },
+    data: { status: WebhookDeliveryStatus.RECEIVED, detail: null, payload, attempts: { increment: 1 } }
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  const retried = await prisma.paymentWebhookDelivery.findUniqueOrThrow({ where: { deliveryId }, select: { id: true } });
+  return retried.id;
+}
+
+/**
+ * Match a claimed delivery to a request and approve it, recording the outcome
+ */
+async function processDelivery(logId: string, deliveryId: string, body: string): Promise<PaymentWebhookResult> {
+  const finish = async (result: PaymentWebhookResult, transactionId: string | null) => {
+    await prisma.paymentWebhookDelivery.update({
+      where: { id: logId },
+      data: { status: result.status, detail: result.detail, transactionId, paymentRequestId: result.paymentRequestId }
+    });
+    return result;
+  };
+
+  let notification: PaymentNotification;
+  try {
+    notification = parsePaymentNotification(body);
+  } catch (error) {
+    if (error instanceof PaymentWebhookError) {
+      return finish({ status: WebhookDeliveryStatus.INVALID_PAYLOAD, detail: error.message, paymentRequestId: null }, null);
+    }
+    throw error;
+  }
+
+  const { transactionId } = notification;
+  const candidates = await prisma.paymentRequest.findMany({
+    where: {
+      transactionIdKey: normalizeTransactionId(transactionId),
+      ...(notification.paymentMethod ? { paymentMethod: notification.paymentMethod } : {})
+    }
+  });
+  const outcome = matchNotification(notification, candidates);
+  if (outcome.status !== WebhookDeliveryStatus.APPROVED) {
+    return finish(outcome, transactionId);
+  }
+
+  const paymentRequest = candidates.find((candidate) => candidate.id === outcome.paymentRequestId) as PaymentRequest;
+  const result: PaymentWebhookResult = {
+    status: WebhookDeliveryStatus.APPROVED,
+    detail: `Approved ${paymentRequest.creditsRequested} credits for ${notification.amount} ${notification.currency}`,
+    paymentRequestId: paymentRequest.id
+  };
+
+  try {
+    // The log is updated with the approval, so it never claims an approval that was rolled back
+    await prisma.$transaction(async (tx) => {
+      await decidePaymentRequest(tx, paymentRequest, null, {
+        action: 'APPROVED',
+        adminNotes: `Approved automatically from payment webhook delivery ${deliveryId}`
+      });
+      await tx.paymentWebhookDelivery.update({
+        where: { id: logId },
+        data: { status: result.status, detail: result.detail, transactionId, paymentRequestId: paymentRequest.id }
+      });
+    });
+  } catch (error) {
+    // Reviewed or cancelled since it was matched
+    if (error instanceof PaymentLifecycleError) {
+      return finish({ status: WebhookDeliveryStatus.MISMATCH, detail: error.message, paymentRequestId: paymentRequest.id }, transactionId);
+    }
+    throw error;
+  }
+
+  return result;
+}
+
+/**
+ * Pick the request a notification pays for, or say why there is none
+ * Returns APPROVED with the request to approve when exactly one awaiting review matches.
+ */
+function matchNotification(
+  notification: PaymentNotification,
+  candidates: Pick<PaymentRequest, 'id' | 'amount' | 'currency' | 'status'>[]
+): PaymentWebhookResult {
+  const requests = candidates.filter((candidate) => REVIEWABLE_PAYMENT_STATUSES.includes(candidate.status));
+
+  if (requests.length === 0) {
+    return {
+      status: WebhookDeliveryStatus.UNMATCHED,
+      detail: candidates.length > 0
+        ? `The request with this transaction ID is ${candidates[0].status}, not awaiting review`
+        : 'No payment request uses this transaction ID',
+      paymentRequestId: candidates.length === 1 ? candidates[0].id : null
+    };
+  }
+  if (requests.length > 1) {
+    return {
+      status: WebhookDeliveryStatus.MISMATCH,
+      detail: `${requests.length} requests paid by different methods use this transaction ID; send paymentMethod to choose one`,
+      paymentRequestId: null
+    };
+  }
+
+  const [request] = requests;
+  if (request.currency !== notification.currency) {
+    return {
+      status: WebhookDeliveryStatus.MISMATCH,
+      detail: `Payment was in ${notification.currency}, the request is in ${request.currency}`,
+      paymentRequestId: request.id
+    };
+  }
+  if (!amountsMatch(notification.amount, request.amount)) {
+    return {
+      status: WebhookDeliveryStatus.MISMATCH,
+      detail: `Payment was ${notification.amount} ${notification.currency}, the request is for ${request.amount} ${request.currency}`,
+      paymentRequestId: request.id
+    };
+  }
+
+  return { status: WebhookDeliveryStatus.APPROVED, detail: null, paymentRequestId: request.id };
+}
@@ -0,0 +1,268 @@
+import { PricingRule, PricingRuleType } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  DESCRIPTION_OUTPUT_OPTIONS,
+  DescriptionOutputs,
+  getActiveProviderId,
+  providerRegistry
+} from './description-providers';
+
+/**
+ * Pricing rules turn a request into a credit cost per image:
+ *
+ *   base price (the active BASE rule, or DEFAULT_IMAGE_CREDITS when there is none)
+ *   + the PROVIDER rule for the provider that describes the image
+ *   + one OUTPUT_OPTION rule per requested output the provider supports
+ *   + the FILE_SIZE rule whose range contains the file size (the narrowest match wins)
+ *
+ * Rules without a match add nothing, so with an empty table every image costs 1 credit as before.
+ */
+
+export const DEFAULT_IMAGE_CREDITS = 1;
+
+/**
+ * Custom error class for invalid rule input from the admin API
+ */
+export class PricingRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingRuleError';
+  }
+}
+
+/**
+ * One priced component of a quote
+ */
+export interface PriceLine {
+  ruleId: string | null; // null for the built-in default base price
+  type: PricingRuleType;
+  label: string;
+  credits: number;
+}
+
+/**
+ * Credit cost of describing one image
+ */
+export interface PriceQuote {
+  providerId: string;
+  credits: number;
+  lines: PriceLine[];
+}
+
+export interface QuoteFile {
+  filename: string;
+  fileSize: number;
+}
+
+/**
+ * Credit cost of a batch, item by item in submission order
+ */
+export interface BatchQuote {
+  providerId: string;
+  totalCredits: number;
+  items: Array<PriceQuote & QuoteFile>;
+}
+
+/**
+ * Fields an admin may set on a rule
+ */
+export interface PricingRuleInput {
+  type: PricingRuleType;
+  match: string | null;
+  minFileSize: number | null;
+  maxFileSize: number | null;
+  credits: number;
+  description: string | null;
+  isActive: boolean;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${+(bytes / 1024 / 1024).toFixed(2)}MB`;
+  if (bytes >= 1024) return `${+(bytes / 1024).toFixed(2)}KB`;
+  return `${bytes}B`;
+}
+
+function describeSizeRange(rule: Pick<PricingRule, 'minFileSize' | 'maxFileSize'>): string {
+  if (rule.maxFileSize === null) return `${formatBytes(rule.minFileSize ?? 0)} and larger`;
+  return `${formatBytes(rule.minFileSize ?? 0)} to ${formatBytes(rule.maxFileSize)}`;
+}
+
+/**
+ * PricingEngine prices images against a snapshot of the active rules
+ * Load it once per run so every image in a batch is priced the same way.
+ */
+export class PricingEngine {
+  private rules: PricingRule[];
+
+  private constructor(rules: PricingRule[]) {
+    this.rules = rules;
+  }
+
+  /**
+   * Snapshot the active rules
+   */
+  static async load(): Promise<PricingEngine> {
+    const rules = await prisma.pricingRule.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: 'asc' }
+    });
+    return new PricingEngine(rules);
+  }
+
+  /**
+   * Price one image described by the given provider
+   */
+  quote(providerId: string, fileSize: number, outputs?: DescriptionOutputs): PriceQuote {
+    const lines: PriceLine[] = [];
+    const ofType = (type: PricingRuleType) => this.rules.filter((rule) => rule.type === type);
+
+    const base = ofType(PricingRuleType.BASE)[0];
+    lines.push({
+      ruleId: base?.id ?? null,
+      type: PricingRuleType.BASE,
+      label: base?.description || 'Base price',
+      credits: base ? base.credits : DEFAULT_IMAGE_CREDITS
+    });
+
+    const providerRule = ofType(PricingRuleType.PROVIDER).find((rule) => rule.match === providerId);
+    if (providerRule) {
+      lines.push({
+        ruleId: providerRule.id,
+        type: PricingRuleType.PROVIDER,
+        label: providerRule.description || `Provider: ${providerId}`,
+        credits: providerRule.credits
+      });
+    }
+
+    // Outputs the provider cannot produce are not delivered, so they are not charged either
+    const supported = providerRegistry.get(providerId)?.supportedOutputs ?? [];
+    for (const option of outputs?.options ?? []) {
+      if (!supported.includes(option)) continue;
+
+      const optionRule = ofType(PricingRuleType.OUTPUT_OPTION).find((rule) => rule.match === option);
+      if (optionRule) {
+        lines.push({
+          ruleId: optionRule.id,
+          type: PricingRuleType.OUTPUT_OPTION,
+          label: optionRule.description || `Output: ${option}`,
+          credits: optionRule.credits
+        });
+      }
+    }
+
+    const sizeRule = ofType(PricingRuleType.FILE_SIZE)
+      .filter((rule) => (rule.minFileSize ?? 0) <= fileSize && (rule.maxFileSize === null || fileSize < rule.maxFileSize))
+      .sort((a, b) => (b.minFileSize ?? 0) - (a.minFileSize ?? 0))[0];
+    if (sizeRule) {
+      lines.push({
+        ruleId: sizeRule.id,
+        type: PricingRuleType.FILE_SIZE,
+        label: sizeRule.description || `File size: ${describeSizeRange(sizeRule)}`,
+        credits: sizeRule.credits
+      });
+    }
+
+    return {
+      providerId,
+      credits: lines.reduce((total, line) => total + line.credits, 0),
+      lines
+    };
+  }
+
+  /**
+   * Price a batch of images described by the given provider
+   */
+  quoteBatch(files: QuoteFile[], providerId: string, outputs?: DescriptionOutputs): BatchQuote {
+    const items = files.map((file) => ({
+      filename: file.filename,
+      fileSize: file.fileSize,
+      ...this.quote(providerId, file.fileSize, outputs)
+    }));
+
+    return {
+      providerId,
+      totalCredits: items.reduce((total, item) => total + item.credits, 0),
+      items
+    };
+  }
+}
+
+/**
+ * Quote a batch against the current rules and the active provider
+ */
+export async function quoteDescriptionBatch(files: QuoteFile[], outputs?: DescriptionOutputs): Promise<BatchQuote> {
+  const [engine, providerId] = await Promise.all([PricingEngine.load(), getActiveProviderId()]);
+  return engine.quoteBatch(files, providerId, outputs);
+}
+
+function readOptionalInt(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new PricingRuleError(`${field} must be a whole number of zero or more`);
+  }
+  return number;
+}
+
+/**
+ * Validate a rule from the admin API
+ * With `existing`, fields missing from the body keep their current values.
+ */
+export function parsePricingRuleInput(body: Record<string, unknown>, existing?: PricingRule): PricingRuleInput {
+  const pick = <K extends keyof PricingRuleInput>(key: K): unknown =>
+    key in body ? body[key] : existing?.[key];
+
+  const type = pick('type');
+  if (!Object.values(PricingRuleType).includes(type as PricingRuleType)) {
+    throw new PricingRuleError(`Invalid type. Must be one of: ${Object.values(PricingRuleType).join(', ')}`);
+  }
+
+  const credits = readOptionalInt(pick('credits'), 'credits');
+  if (credits === null) {
+    throw new PricingRuleError('credits is required');
+  }
+
+  const input: PricingRuleInput = {
+    type: type as PricingRuleType,
+    match: null,
+    minFileSize: null,
+    maxFileSize: null,
+    credits,
+    description: typeof pick('description') === 'string' ? (pick('description') as string).trim() || null : null,
+    isActive: pick('isActive') === undefined ? true : Boolean(pick('isActive'))
+  };
+
+  switch (input.type) {
+    case PricingRuleType.PROVIDER: {
+      const match = String(pick('match') ?? '').trim();
+      if (!providerRegistry.has(match)) {
+        throw new PricingRuleError(`Unknown description provider: ${match || '(none)'}`);
+      }
+      input.match = match;
+      break;
+    }
+
+    case PricingRuleType.OUTPUT_OPTION: {
+      const match = String(pick('match') ?? '').trim();
+      if (!(DESCRIPTION_OUTPUT_OPTIONS as readonly string[]).includes(match)) {
+        throw new PricingRuleError(`Invalid output option. Must be one of: ${DESCRIPTION_OUTPUT_OPTIONS.join(', ')}`);
+      }
+      input.match = match;
+      break;
+    }
+
+    case PricingRuleType.FILE_SIZE: {
+      input.minFileSize = readOptionalInt(pick('minFileSize'), 'minFileSize');
+      input.maxFileSize = readOptionalInt(pick('maxFileSize'), 'maxFileSize');
+      if (input.minFileSize === null && input.maxFileSize === null) {
+        throw new PricingRuleError('A file size rule needs minFileSize, maxFileSize or both');
+      }
+      if (input.maxFileSize !== null && input.maxFileSize <= (input.minFileSize ?? 0)) {
+        throw new PricingRuleError('maxFileSize must be greater than minFileSize');
+      }
+      break;
+    }
+  }
+
+  return input;
+}
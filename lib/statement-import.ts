@@ -0,0 +1,471 @@
+import { PaymentRequest, StatementMapping, StatementRow, StatementRowStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { amountsMatch } from './credit-catalog';
+import { REVIEWABLE_PAYMENT_STATUSES, decidePaymentRequest } from './payment-lifecycle';
+import { normalizeTransactionId } from './payment-risk';
+
+/**
+ * Statement import
+ *
+ * Admins upload the CSV statement their bank or wallet exports, and each line is matched
+ * to a payment request awaiting review by its transaction ID (compared the way
+ * lib/payment-risk.ts normalises it), then checked for the same amount and currency.
+ * Providers lay their exports out differently, so each has a StatementMapping naming the
+ * columns to read. Every line is stored with the outcome, and matched requests are
+ * offered for approval in bulk; nothing is approved until an admin confirms.
+ */
+
+export const MAX_STATEMENT_ROWS = 5000;
+const MAX_REPORTED_ISSUES = 50;
+const DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Custom error class for unusable mappings and statement files
+ */
+export class StatementImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementImportError';
+  }
+}
+
+/**
+ * Fields an admin sets on a mapping
+ */
+export type StatementMappingInput = Pick<
+  StatementMapping,
+  | 'provider'
+  | 'name'
+  | 'delimiter'
+  | 'transactionIdColumn'
+  | 'amountColumn'
+  | 'currencyColumn'
+  | 'defaultCurrency'
+  | 'paymentMethod'
+  | 'dateColumn'
+  | 'isActive'
+>;
+
+/**
+ * Outcome of one imported statement
+ */
+export interface StatementImportResult {
+  importId: string;
+  rowCount: number;
+  counts: Partial<Record<StatementRowStatus, number>>;
+  issues: StatementRowIssue[]; // Lines that need a look, up to MAX_REPORTED_ISSUES
+}
+
+/**
+ * A statement line that found a request but did not match it, or could not be read
+ */
+export interface StatementRowIssue {
+  rowNumber: number;
+  transactionId: string | null;
+  status: StatementRowStatus;
+  detail: string | null;
+}
+
+/**
+ * A statement line matched to a request, ready to approve
+ */
+export interface StatementMatch {
+  rowId: string;
+  rowNumber: number;
+  fileName: string;
+  provider: string;
+  paymentRequest: Pick<PaymentRequest, 'id' | 'creditsRequested' | 'amount' | 'currency' | 'paymentMethod' | 'transactionId' | 'createdAt'> & {
+    user: { name: string | null; email: string };
+  };
+}
+
+/**
+ * Outcome of approving matched requests in bulk
+ */
+export interface StatementApprovalResult {
+  approved: string[]; // Payment request IDs
+  failed: { rowId: string; error: string }[];
+}
+
+interface ParsedRow {
+  rowNumber: number;
+  transactionId: string | null;
+  transactionIdKey: string | null;
+  amount: number | null;
+  currency: string;
+  occurredAt: string | null;
+}
+
+/**
+ * Validate a mapping sent by an admin; fields left out keep their current values
+ */
+export function parseStatementMappingInput(
+  body: Record<string, unknown>,
+  existing?: StatementMapping
+): StatementMappingInput {
+  const pick = <K extends keyof StatementMappingInput>(key: K): unknown =>
+    key in body ? body[key] : existing?.[key];
+  const text = (key: keyof StatementMappingInput, required: boolean): string | null => {
+    const value = pick(key);
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+    if (required && !trimmed) {
+      throw new StatementImportError(`${key} is required`);
+    }
+    return trimmed || null;
+  };
+
+  const provider = (text('provider', true) as string).toLowerCase();
+  if (!/^[a-z0-9_-]+$/.test(provider)) {
+    throw new StatementImportError('provider may only contain letters, numbers, dashes and underscores');
+  }
+
+  const rawDelimiter = pick('delimiter');
+  const delimiter = rawDelimiter === undefined || rawDelimiter === '' ? ',' : rawDelimiter === '\\t' ? '\t' : rawDelimiter;
+  if (typeof delimiter !== 'string' || !DELIMITERS.includes(delimiter)) {
+    throw new StatementImportError('delimiter must be a comma, semicolon, tab or pipe');
+  }
+
+  return {
+    provider,
+    name: text('name', true) as string,
+    delimiter,
+    transactionIdColumn: text('transactionIdColumn', true) as string,
+    amountColumn: text('amountColumn', true) as string,
+    currencyColumn: text('currencyColumn', false),
+    defaultCurrency: (text('defaultCurrency', false) || 'PKR').toUpperCase(),
+    paymentMethod: text('paymentMethod', false),
+    dateColumn: text('dateColumn', false),
+    isActive: pick('isActive') === undefined ? true : Boolean(pick('isActive'))
+  };
+}
+
+/**
+ * Split CSV text into rows of fields
+ * Follows RFC 4180: fields may be quoted, quotes inside them are doubled, and quoted
+ * fields may contain the delimiter and line breaks.
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    // Spaces before an opening quote are dropped, as some exports pad their columns
+    if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Read an amount as statements print it, e.g. "1,500.00" or "PKR 1500"
+ * Returns null for anything that is not a positive number.
+ */
+export function parseStatementAmount(value: string): number | null {
+  const cleaned = value.replace(/[^0-9.-]/g, '');
+  if (!cleaned) {
+    return null;
+  }
+
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * Read a statement with a mapping, match its lines to requests awaiting review and store the result
+ */
+export async function importStatement(
+  mapping: StatementMapping,
+  fileName: string,
+  text: string,
+  adminId: string
+): Promise<StatementImportResult> {
+  const rows = readStatement(mapping, text);
+
+  // Requests awaiting review that the statement's transaction IDs point to
+  const keys = Array.from(new Set(rows.map((row) => row.transactionIdKey).filter((key): key is string => key !== null)));
+  const candidates = keys.length === 0 ? [] : await prisma.paymentRequest.findMany({
+    where: {
+      transactionIdKey: { in: keys },
+      status: { in: REVIEWABLE_PAYMENT_STATUSES },
+      ...(mapping.paymentMethod ? { paymentMethod: mapping.paymentMethod } : {})
+    },
+    select: { id: true, transactionIdKey: true, amount: true, currency: true }
+  });
+
+  const requestsByKey = new Map<string, typeof candidates>();
+  for (const candidate of candidates) {
+    const key = candidate.transactionIdKey as string;
+    requestsByKey.set(key, [...(requestsByKey.get(key) || []), candidate]);
+  }
+
+  const counts: Partial<Record<StatementRowStatus, number>> = {};
+  const data = rows.map((row) => {
+    const outcome = matchRow(row, row.transactionIdKey ? requestsByKey.get(row.transactionIdKey) || [] : []);
+    counts[outcome.status] = (counts[outcome.status] || 0) + 1;
+    return {
+      rowNumber: row.rowNumber,
+      transactionId: row.transactionId,
+      amount: row.amount,
+      currency: row.currency,
+      occurredAt: row.occurredAt,
+      ...outcome
+    };
+  });
+
+  const created = await prisma.statementImport.create({
+    data: {
+      mappingId: mapping.id,
+      fileName,
+      importedBy: adminId,
+      rowCount: data.length,
+      matchedCount: counts.MATCHED || 0,
+      rows: { createMany: { data } }
+    }
+  });
+
+  const issues = data
+    .filter((row) => row.status !== StatementRowStatus.MATCHED && row.status !== StatementRowStatus.NOT_FOUND)
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(({ rowNumber, transactionId, status, detail }) => ({ rowNumber, transactionId, status, detail }));
+
+  return { importId: created.id, rowCount: data.length, counts, issues };
+}
+
+/**
+ * Matched statement lines whose request is still awaiting review, newest import first
+ * A request matched by several lines or imports is listed once. Lines the request no
+ * longer matches, e.g. after the user resubmitted it with another transaction ID, are left out.
+ */
+export async function listStatementMatches(): Promise<StatementMatch[]> {
+  const rows = await prisma.statementRow.findMany({
+    where: {
+      status: StatementRowStatus.MATCHED,
+      paymentRequest: { status: { in: REVIEWABLE_PAYMENT_STATUSES } }
+    },
+    include: {
+      statementImport: { select: { fileName: true, mapping: { select: { provider: true } } } },
+      paymentRequest: {
+        select: {
+          id: true,
+          creditsRequested: true,
+          amount: true,
+          currency: true,
+          paymentMethod: true,
+          transactionId: true,
+          createdAt: true,
+          user: { select: { name: true, email: true } }
+        }
+      }
+    },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  const seen = new Set<string>();
+  const matches: StatementMatch[] = [];
+  for (const row of rows) {
+    if (!row.paymentRequest || seen.has(row.paymentRequest.id) || describeStaleMatch(row, row.paymentRequest)) continue;
+    seen.add(row.paymentRequest.id);
+    matches.push({
+      rowId: row.id,
+      rowNumber: row.rowNumber,
+      fileName: row.statementImport.fileName,
+      provider: row.statementImport.mapping.provider,
+      paymentRequest: row.paymentRequest
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Approve in full the requests that matched statement lines
+ * Each request is approved in its own transaction, so one that changed since the import
+ * (e.g. the user cancelled or resubmitted it, or another admin reviewed it) fails without
+ * holding up the rest.
+ */
+export async function approveStatementMatches(rowIds: string[], adminId: string): Promise<StatementApprovalResult> {
+  const result: StatementApprovalResult = { approved: [], failed: [] };
+
+  for (const rowId of rowIds) {
+    const row = await prisma.statementRow.findUnique({
+      where: { id: rowId },
+      include: {
+        statementImport: { select: { fileName: true, mapping: { select: { provider: true } } } },
+        paymentRequest: true
+      }
+    });
+
+    if (!row || row.status !== StatementRowStatus.MATCHED || !row.paymentRequest) {
+      result.failed.push({ rowId, error: 'Statement line is not matched to a payment request' });
+      continue;
+    }
+
+    const paymentRequest = row.paymentRequest;
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Check the line against the request as it is now, locked so a resubmission cannot slip in
+        await tx.$queryRaw`SELECT "id" FROM "public"."payment_requests" WHERE "id" = ${paymentRequest.id} FOR UPDATE`;
+        const current = await tx.paymentRequest.findUniqueOrThrow({ where: { id: paymentRequest.id } });
+        const stale = describeStaleMatch(row, current);
+        if (stale) {
+          throw new StatementImportError(stale);
+        }
+
+        await decidePaymentRequest(tx, current, adminId, {
+          action: 'APPROVED',
+          adminNotes: `Verified against ${row.statementImport.mapping.provider} statement ${row.statementImport.fileName}, line ${row.rowNumber}`
+        });
+      });
+      result.approved.push(paymentRequest.id);
+    } catch (error) {
+      console.error(`Failed to approve payment request ${paymentRequest.id} from statement line ${rowId}:`, error);
+      result.failed.push({ rowId, error: error instanceof Error ? error.message : 'Failed to approve payment request' });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Why a matched line no longer matches its request, null while it still does
+ */
+function describeStaleMatch(
+  row: Pick<StatementRow, 'transactionId' | 'amount' | 'currency'>,
+  request: Pick<PaymentRequest, 'transactionId' | 'amount' | 'currency'>
+): string | null {
+  if (!row.transactionId || normalizeTransactionId(row.transactionId) !== normalizeTransactionId(request.transactionId || '')) {
+    return 'The request\'s transaction ID has changed since the statement was imported';
+  }
+  if (row.currency !== request.currency) {
+    return `Statement shows ${row.currency}, the request is now in ${request.currency}`;
+  }
+  if (row.amount === null || !amountsMatch(row.amount, request.amount)) {
+    return `Statement shows ${row.amount} ${row.currency}, the request is now for ${request.amount} ${request.currency}`;
+  }
+  return null;
+}
+
+/**
+ * Lines of a statement read with a mapping
+ */
+function readStatement(mapping: StatementMapping, text: string): ParsedRow[] {
+  const [header, ...lines] = parseCsv(text, mapping.delimiter);
+  if (!header) {
+    throw new StatementImportError('The file is empty');
+  }
+  if (lines.length > MAX_STATEMENT_ROWS) {
+    throw new StatementImportError(`A statement can have at most ${MAX_STATEMENT_ROWS} lines; split the file and import each part`);
+  }
+
+  const headings = header.map((heading) => heading.trim().toLowerCase());
+  const column = (name: string | null, required: boolean): number => {
+    if (!name) return -1;
+    const index = headings.indexOf(name.trim().toLowerCase());
+    if (index === -1 && required) {
+      throw new StatementImportError(`Column "${name}" was not found in the file. Check the ${mapping.name} mapping.`);
+    }
+    return index;
+  };
+
+  const transactionIdIndex = column(mapping.transactionIdColumn, true);
+  const amountIndex = column(mapping.amountColumn, true);
+  const currencyIndex = column(mapping.currencyColumn, true);
+  const dateIndex = column(mapping.dateColumn, false);
+
+  return lines.map((fields, index) => {
+    const transactionId = (fields[transactionIdIndex] || '').trim() || null;
+    const key = transactionId ? normalizeTransactionId(transactionId) : '';
+    const currency = currencyIndex === -1 ? '' : (fields[currencyIndex] || '').trim().toUpperCase();
+
+    return {
+      rowNumber: index + 2,
+      transactionId,
+      transactionIdKey: key || null,
+      amount: parseStatementAmount(fields[amountIndex] || ''),
+      currency: currency || mapping.defaultCurrency,
+      occurredAt: dateIndex === -1 ? null : (fields[dateIndex] || '').trim() || null
+    };
+  });
+}
+
+/**
+ * Compare a statement line with the requests holding its transaction ID
+ */
+function matchRow(
+  row: ParsedRow,
+  requests: Pick<PaymentRequest, 'id' | 'amount' | 'currency'>[]
+): { status: StatementRowStatus; detail: string | null; paymentRequestId: string | null } {
+  if (!row.transactionIdKey || row.amount === null) {
+    return {
+      status: StatementRowStatus.INVALID,
+      detail: row.transactionIdKey ? 'Amount is missing or not a positive number' : 'Transaction ID is missing',
+      paymentRequestId: null
+    };
+  }
+
+  if (requests.length === 0) {
+    return { status: StatementRowStatus.NOT_FOUND, detail: null, paymentRequestId: null };
+  }
+  if (requests.length > 1) {
+    return {
+      status: StatementRowStatus.AMBIGUOUS,
+      detail: `${requests.length} requests paid by different methods use this transaction ID`,
+      paymentRequestId: null
+    };
+  }
+
+  const [request] = requests;
+  if (request.currency !== row.currency) {
+    return {
+      status: StatementRowStatus.CURRENCY_MISMATCH,
+      detail: `Statement shows ${row.currency}, the request is in ${request.currency}`,
+      paymentRequestId: request.id
+    };
+  }
+  if (!amountsMatch(row.amount, request.amount)) {
+    return {
+      status: StatementRowStatus.AMOUNT_MISMATCH,
+      detail: `Statement shows ${row.amount} ${row.currency}, the request is for ${request.amount} ${request.currency}`,
+      paymentRequestId: request.id
+    };
+  }
+
+  return { status: StatementRowStatus.MATCHED, detail: null, paymentRequestId: request.id };
+}
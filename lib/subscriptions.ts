@@ -0,0 +1,465 @@
+import {
+  CreditLotSource,
+  CreditTransactionType,
+  Prisma,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  UserSubscription
+} from '@prisma/client';
+import { prisma } from './prisma';
+import { PURCHASE_LOCATIONS, PurchaseLocation, isPurchaseLocation, roundAmount } from './credit-catalog';
+import { grantCredits, lockUserCredits } from './credit-lots';
+import { OPEN_PAYMENT_STATUSES } from './payment-lifecycle';
+
+/**
+ * Subscription plans
+ *
+ * A plan is a monthly credit allowance, paid for one period at a time through the
+ * usual payment request flow. Approving a plan payment adds a prepaid period: a
+ * subscription that is not running starts a period straight away, a running one
+ * keeps it for the renewal script (scripts/renew-subscriptions.ts), which starts the
+ * next period when the current one ends, or marks the subscription PAST_DUE when
+ * nothing was paid.
+ *
+ * Each period's allowance is a SUBSCRIPTION credit lot that expires with the period.
+ * At a renewal, rolloverPercent of what is left of the previous allowance (capped at
+ * maxRolloverCredits) moves into a lot that lasts through the new period; the rest
+ * expires with the old period.
+ */
+
+const MAX_ROLLOVER_PERCENT = 100;
+
+/**
+ * Custom error class for subscriptions that cannot be bought or changed, and invalid admin input
+ */
+export class SubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+/**
+ * Price of one period of a plan, in the shape payment submission needs
+ */
+export interface SubscriptionQuote {
+  planId: string;
+  planName: string;
+  location: PurchaseLocation;
+  currency: string;
+  paymentMethod: string;
+  credits: number;
+  amount: number;
+  qrCode: string | null;
+}
+
+/**
+ * How much of the current period's allowance has been used
+ */
+export interface SubscriptionUsage {
+  allowance: number;
+  rolledOver: number;
+  used: number;
+  remaining: number;
+}
+
+/**
+ * A user's subscription as the plan page shows it
+ */
+export type SubscriptionOverview = UserSubscription & {
+  plan: SubscriptionPlan;
+  usage: SubscriptionUsage | null;
+};
+
+/**
+ * Result of one renewal run
+ */
+export interface SubscriptionRenewalResult {
+  renewed: number;
+  pastDue: number;
+  cancelled: number;
+}
+
+/**
+ * Fields an admin may set on a plan
+ */
+export interface SubscriptionPlanInput {
+  name: string;
+  description: string | null;
+  location: PurchaseLocation;
+  price: number;
+  monthlyCredits: number;
+  rolloverPercent: number;
+  maxRolloverCredits: number | null;
+  qrCode: string | null;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+/**
+ * End of a period that starts at `start`: the same day next month, or the month's last day when it is shorter
+ */
+export function addBillingPeriod(start: Date): Date {
+  const end = new Date(start);
+  const day = end.getUTCDate();
+  end.setUTCDate(1);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+  const daysInMonth = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() + 1, 0)).getUTCDate();
+  end.setUTCDate(Math.min(day, daysInMonth));
+  return end;
+}
+
+/**
+ * Credits of an unused allowance that the plan carries into the next period
+ */
+export function rolloverCredits(plan: Pick<SubscriptionPlan, 'rolloverPercent' | 'maxRolloverCredits'>, unused: number): number {
+  const carried = Math.floor((unused * plan.rolloverPercent) / 100);
+  return plan.maxRolloverCredits === null ? carried : Math.min(carried, plan.maxRolloverCredits);
+}
+
+/**
+ * Active plans offered for a location, or for every location
+ */
+export async function listSubscriptionPlans(location?: PurchaseLocation): Promise<SubscriptionPlan[]> {
+  return prisma.subscriptionPlan.findMany({
+    where: { isActive: true, ...(location && { location }) },
+    orderBy: [{ sortOrder: 'asc' }, { price: 'asc' }]
+  });
+}
+
+/**
+ * Price one period of an active plan
+ */
+export async function priceSubscriptionPlan(planId: string): Promise<SubscriptionQuote> {
+  const plan = await prisma.subscriptionPlan.findUnique({ where: { id: planId } });
+  if (!plan || !plan.isActive || !isPurchaseLocation(plan.location)) {
+    throw new SubscriptionError('This plan is not available');
+  }
+
+  const { currency, paymentMethod, customQrCode } = PURCHASE_LOCATIONS[plan.location];
+  return {
+    planId: plan.id,
+    planName: plan.name,
+    location: plan.location,
+    currency,
+    paymentMethod,
+    credits: plan.monthlyCredits,
+    amount: roundAmount(plan.price),
+    qrCode: plan.qrCode ?? customQrCode
+  };
+}
+
+/**
+ * The subscription a plan payment request pays for, created if the user has none
+ * A user has one subscription; paying for a different plan is only allowed once
+ * the current one is cancelled or has lapsed, and switches it to the new plan.
+ */
+export async function prepareSubscriptionPayment(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  planId: string
+): Promise<string> {
+  const existing = await tx.userSubscription.findUnique({ where: { userId } });
+
+  if (!existing) {
+    const created = await tx.userSubscription.create({ data: { userId, planId } });
+    return created.id;
+  }
+
+  if (existing.planId === planId) {
+    return existing.id;
+  }
+
+  if (existing.status === SubscriptionStatus.ACTIVE || existing.prepaidPeriods > 0) {
+    throw new SubscriptionError('You already have a plan. Cancel it and let it run out before switching plans.');
+  }
+
+  const pendingPayments = await tx.paymentRequest.count({
+    where: { subscriptionId: existing.id, status: { in: OPEN_PAYMENT_STATUSES } }
+  });
+  if (pendingPayments > 0) {
+    throw new SubscriptionError('A payment for your current plan is still being reviewed');
+  }
+
+  const switched = await tx.userSubscription.update({
+    where: { id: existing.id },
+    data: {
+      planId,
+      status: SubscriptionStatus.PENDING,
+      cancelAtPeriodEnd: false,
+      cancelledAt: null
+    }
+  });
+  return switched.id;
+}
+
+/**
+ * Lock the subscription row so approvals and renewals of one subscription are serialised
+ */
+async function lockSubscription(tx: Prisma.TransactionClient, subscriptionId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "public"."user_subscriptions" WHERE "id" = ${subscriptionId} FOR UPDATE`;
+  return tx.userSubscription.findUnique({
+    where: { id: subscriptionId },
+    include: { plan: true }
+  });
+}
+
+/**
+ * Start the next period from a prepaid one and grant its allowance
+ * A running subscription renews from the end of its current period, carrying over
+ * unused allowance; any other starts a fresh period now.
+ */
+async function startSubscriptionPeriod(
+  tx: Prisma.TransactionClient,
+  subscription: UserSubscription & { plan: SubscriptionPlan },
+  now: Date
+): Promise<void> {
+  const { plan, userId } = subscription;
+  const continuing = subscription.status === SubscriptionStatus.ACTIVE && subscription.currentPeriodEnd !== null;
+  const start = continuing ? subscription.currentPeriodEnd! : now;
+  const end = addBillingPeriod(start);
+
+  await lockUserCredits(tx, userId);
+
+  // Move the carried-over part of the old allowance into a lot that lasts through the new period
+  let rolloverLotId: string | null = null;
+  let carried = 0;
+  if (continuing) {
+    const previousLotIds = [subscription.allowanceLotId, subscription.rolloverLotId].filter((id): id is string => id !== null);
+    const previousLots = await tx.creditLot.findMany({
+      where: { id: { in: previousLotIds }, userId, remaining: { gt: 0 }, expiredAt: null },
+      orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      select: { id: true, remaining: true }
+    });
+    const unused = previousLots.reduce((sum, lot) => sum + lot.remaining, 0);
+    carried = rolloverCredits(plan, unused);
+
+    if (carried > 0) {
+      let left = carried;
+      for (const lot of previousLots) {
+        if (left === 0) break;
+        const take = Math.min(lot.remaining, left);
+        await tx.creditLot.update({
+          where: { id: lot.id },
+          data: { remaining: { decrement: take } }
+        });
+        left -= take;
+      }
+
+      const rolloverLot = await tx.creditLot.create({
+        data: {
+          userId,
+          source: CreditLotSource.SUBSCRIPTION,
+          amount: carried,
+          remaining: carried,
+          expiresAt: end
+        }
+      });
+      rolloverLotId = rolloverLot.id;
+    }
+  }
+
+  const grant = await grantCredits(tx, {
+    userId,
+    amount: plan.monthlyCredits,
+    type: CreditTransactionType.SUBSCRIPTION,
+    description: `${plan.name} allowance until ${end.toISOString().slice(0, 10)}` +
+      (carried > 0 ? ` (${carried} unused credit(s) carried over)` : ''),
+    expiresAt: end
+  });
+
+  await tx.userSubscription.update({
+    where: { id: subscription.id },
+    data: {
+      status: SubscriptionStatus.ACTIVE,
+      prepaidPeriods: { decrement: 1 },
+      currentPeriodStart: start,
+      currentPeriodEnd: end,
+      allowanceLotId: grant.lotId,
+      rolloverLotId
+    }
+  });
+}
+
+/**
+ * Credit an approved plan payment to its subscription
+ * Call in the approval transaction. A subscription that is not running starts now;
+ * paying for another period also withdraws a pending cancellation.
+ */
+export async function applySubscriptionPayment(tx: Prisma.TransactionClient, subscriptionId: string): Promise<void> {
+  const subscription = await lockSubscription(tx, subscriptionId);
+  if (!subscription) {
+    throw new SubscriptionError(`Subscription ${subscriptionId} not found`);
+  }
+
+  const paid = await tx.userSubscription.update({
+    where: { id: subscriptionId },
+    data: { prepaidPeriods: { increment: 1 }, cancelAtPeriodEnd: false, cancelledAt: null },
+    include: { plan: true }
+  });
+
+  if (paid.status !== SubscriptionStatus.ACTIVE) {
+    await startSubscriptionPeriod(tx, paid, new Date());
+  }
+}
+
+/**
+ * Renew, lapse or cancel subscriptions whose period has ended, one subscription per transaction
+ * Handles at most `limit` subscriptions per call so a backlog is worked off in batches.
+ */
+export async function renewDueSubscriptions(limit: number = 100): Promise<SubscriptionRenewalResult> {
+  const now = new Date();
+  const due = await prisma.userSubscription.findMany({
+    where: { status: SubscriptionStatus.ACTIVE, currentPeriodEnd: { lte: now } },
+    orderBy: { currentPeriodEnd: 'asc' },
+    take: limit,
+    select: { id: true }
+  });
+
+  const result: SubscriptionRenewalResult = { renewed: 0, pastDue: 0, cancelled: 0 };
+  for (const { id } of due) {
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Recheck under the lock; an approval may have renewed it meanwhile
+      const subscription = await lockSubscription(tx, id);
+      if (
+        !subscription ||
+        subscription.status !== SubscriptionStatus.ACTIVE ||
+        !subscription.currentPeriodEnd ||
+        subscription.currentPeriodEnd > now
+      ) {
+        return null;
+      }
+
+      if (subscription.cancelAtPeriodEnd) {
+        await tx.userSubscription.update({
+          where: { id },
+          data: { status: SubscriptionStatus.CANCELLED, cancelledAt: now }
+        });
+        return 'cancelled' as const;
+      }
+
+      if (subscription.prepaidPeriods > 0) {
+        await startSubscriptionPeriod(tx, subscription, now);
+        return 'renewed' as const;
+      }
+
+      await tx.userSubscription.update({
+        where: { id },
+        data: { status: SubscriptionStatus.PAST_DUE }
+      });
+      return 'pastDue' as const;
+    });
+
+    if (outcome) {
+      result[outcome]++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A user's subscription with its plan and how much of the current allowance is used, or null
+ */
+export async function getSubscriptionOverview(userId: string): Promise<SubscriptionOverview | null> {
+  const subscription = await prisma.userSubscription.findUnique({
+    where: { userId },
+    include: { plan: true }
+  });
+  if (!subscription) {
+    return null;
+  }
+
+  let usage: SubscriptionUsage | null = null;
+  if (subscription.status === SubscriptionStatus.ACTIVE && subscription.allowanceLotId) {
+    const lotIds = [subscription.allowanceLotId, subscription.rolloverLotId].filter((id): id is string => id !== null);
+    const lots = await prisma.creditLot.findMany({
+      where: { id: { in: lotIds }, userId },
+      select: { id: true, amount: true, remaining: true }
+    });
+    const allowance = lots.find((lot) => lot.id === subscription.allowanceLotId)?.amount ?? 0;
+    const rolledOver = lots.find((lot) => lot.id === subscription.rolloverLotId)?.amount ?? 0;
+    const remaining = lots.reduce((sum, lot) => sum + lot.remaining, 0);
+    usage = { allowance, rolledOver, used: allowance + rolledOver - remaining, remaining };
+  }
+
+  return { ...subscription, usage };
+}
+
+/**
+ * Stop (or resume) renewing at the end of the current period
+ */
+export async function setCancelAtPeriodEnd(userId: string, cancel: boolean): Promise<UserSubscription> {
+  const subscription = await prisma.userSubscription.findUnique({ where: { userId } });
+  if (!subscription || subscription.status === SubscriptionStatus.CANCELLED) {
+    throw new SubscriptionError('You do not have a subscription to change');
+  }
+
+  // Nothing to run out for a subscription that never started or has lapsed
+  if (cancel && subscription.status !== SubscriptionStatus.ACTIVE) {
+    return prisma.userSubscription.update({
+      where: { id: subscription.id },
+      data: { status: SubscriptionStatus.CANCELLED, cancelledAt: new Date(), cancelAtPeriodEnd: false }
+    });
+  }
+
+  return prisma.userSubscription.update({
+    where: { id: subscription.id },
+    data: { cancelAtPeriodEnd: cancel }
+  });
+}
+
+function readInt(value: unknown, field: string, min: number, max?: number): number {
+  const number = Number(value);
+  if (value === '' || value === null || !Number.isInteger(number) || number < min || (max !== undefined && number > max)) {
+    throw new SubscriptionError(
+      `${field} must be a whole number of at least ${min}${max !== undefined ? ` and at most ${max}` : ''}`
+    );
+  }
+  return number;
+}
+
+function readText(value: unknown): string | null {
+  return typeof value === 'string' ? value.trim() || null : null;
+}
+
+/**
+ * Validate a plan from the admin API
+ * With `existing`, fields missing from the body keep their current values.
+ */
+export function parseSubscriptionPlanInput(body: Record<string, unknown>, existing?: SubscriptionPlan): SubscriptionPlanInput {
+  const pick = (key: keyof SubscriptionPlanInput): unknown => (key in body ? body[key] : existing?.[key]);
+
+  const name = readText(pick('name'));
+  if (!name) {
+    throw new SubscriptionError('name is required');
+  }
+
+  const location = pick('location');
+  if (!isPurchaseLocation(location)) {
+    throw new SubscriptionError(`Invalid location. Must be one of: ${Object.keys(PURCHASE_LOCATIONS).join(', ')}`);
+  }
+
+  const price = Number(pick('price'));
+  if (pick('price') === '' || !Number.isFinite(price) || price <= 0) {
+    throw new SubscriptionError('price must be a positive number');
+  }
+
+  const maxRolloverCredits = pick('maxRolloverCredits');
+  const sortOrder = Number(pick('sortOrder'));
+
+  return {
+    name,
+    description: readText(pick('description')),
+    location,
+    price: roundAmount(price),
+    monthlyCredits: readInt(pick('monthlyCredits'), 'monthlyCredits', 1),
+    rolloverPercent: readInt(pick('rolloverPercent') ?? 0, 'rolloverPercent', 0, MAX_ROLLOVER_PERCENT),
+    maxRolloverCredits: maxRolloverCredits === undefined || maxRolloverCredits === null || maxRolloverCredits === ''
+      ? null
+      : readInt(maxRolloverCredits, 'maxRolloverCredits', 0),
+    qrCode: readText(pick('qrCode')),
+    sortOrder: Number.isInteger(sortOrder) ? sortOrder : 0,
+    isActive: pick('isActive') === undefined ? true : Boolean(pick('isActive'))
+  };
+}
@@ -0,0 +1,217 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * Usage caps
+ *
+ * Admins may cap how many images a user gets described and how many credits those
+ * images cost, per UTC day and per UTC calendar month, e.g. to contain a compromised
+ * account. Usage is counted from the UsageRecord saved with each description, so failed
+ * images do not count and deleting history does not reset it. Describe requests check
+ * the caps before they start and the processor checks them before each image, so a batch
+ * stops at the cap. The final check happens in the transaction that charges the image and
+ * writes its UsageRecord, under the user's credit lock, so parallel requests cannot go over.
+ */
+
+export const USAGE_CAP_FIELDS = ['dailyImageCap', 'monthlyImageCap', 'dailyCreditCap', 'monthlyCreditCap'] as const;
+export type UsageCapField = typeof USAGE_CAP_FIELDS[number];
+
+/**
+ * A user's caps; null means no cap
+ */
+export type UsageCaps = Record<UsageCapField, number | null>;
+
+/**
+ * Images described and credits spent in one period
+ */
+export interface UsageTotals {
+  images: number;
+  credits: number;
+}
+
+/**
+ * Usage in the current day and month, with when each period ends
+ */
+export interface UsageSummary {
+  daily: UsageTotals;
+  monthly: UsageTotals;
+  dailyResetsAt: Date;
+  monthlyResetsAt: Date;
+}
+
+const CAP_DETAILS: Record<UsageCapField, { period: 'daily' | 'monthly'; metric: keyof UsageTotals }> = {
+  dailyImageCap: { period: 'daily', metric: 'images' },
+  monthlyImageCap: { period: 'monthly', metric: 'images' },
+  dailyCreditCap: { period: 'daily', metric: 'credits' },
+  monthlyCreditCap: { period: 'monthly', metric: 'credits' }
+};
+
+const MAX_CAP = 1000000;
+
+/**
+ * Custom error class for invalid cap settings
+ */
+export class UsageCapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageCapError';
+  }
+}
+
+/**
+ * Thrown when a request would go over one of the user's caps
+ */
+export class UsageCapExceededError extends Error {
+  constructor(
+    public cap: UsageCapField,
+    public limit: number,
+    public resetsAt: Date
+  ) {
+    const { period, metric } = CAP_DETAILS[cap];
+    super(
+      `${period === 'daily' ? 'Daily' : 'Monthly'} limit of ${limit} ${metric === 'images' ? 'image(s)' : 'credit(s)'} reached. ` +
+      `The limit resets at ${resetsAt.toUTCString()}.`
+    );
+    this.name = 'UsageCapExceededError';
+  }
+}
+
+/**
+ * Start of the current UTC day and month, and of the next ones
+ */
+export function usagePeriods(now: Date = new Date()) {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return {
+    dayStart,
+    dailyResetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+    monthStart,
+    monthlyResetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+function hasCaps(caps: UsageCaps): boolean {
+  return USAGE_CAP_FIELDS.some((field) => caps[field] !== null);
+}
+
+/**
+ * Images and credits a user has used so far this day and month
+ */
+export async function getUsage(
+  userId: string,
+  now: Date = new Date(),
+  client: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<UsageSummary> {
+  const { dayStart, dailyResetsAt, monthStart, monthlyResetsAt } = usagePeriods(now);
+  const totals = (from: Date) =>
+    client.usageRecord.aggregate({
+      where: { userId, createdAt: { gte: from } },
+      _sum: { images: true, credits: true }
+    });
+
+  const [daily, monthly] = await Promise.all([totals(dayStart), totals(monthStart)]);
+  return {
+    daily: { images: daily._sum.images ?? 0, credits: daily._sum.credits ?? 0 },
+    monthly: { images: monthly._sum.images ?? 0, credits: monthly._sum.credits ?? 0 },
+    dailyResetsAt,
+    monthlyResetsAt
+  };
+}
+
+/**
+ * Usage this day and month for every user that described an image this month, by user ID
+ */
+export async function getUsageByUser(now: Date = new Date()): Promise<Map<string, Pick<UsageSummary, 'daily' | 'monthly'>>> {
+  const { dayStart, monthStart } = usagePeriods(now);
+  const totals = (from: Date) =>
+    prisma.usageRecord.groupBy({
+      by: ['userId'],
+      where: { createdAt: { gte: from } },
+      _sum: { images: true, credits: true }
+    });
+
+  const [daily, monthly] = await Promise.all([totals(dayStart), totals(monthStart)]);
+  const usage = new Map<string, Pick<UsageSummary, 'daily' | 'monthly'>>();
+
+  for (const row of monthly) {
+    usage.set(row.userId, {
+      daily: { images: 0, credits: 0 },
+      monthly: { images: row._sum.images ?? 0, credits: row._sum.credits ?? 0 }
+    });
+  }
+  for (const row of daily) {
+    const entry = usage.get(row.userId);
+    if (entry) {
+      entry.daily = { images: row._sum.images ?? 0, credits: row._sum.credits ?? 0 };
+    }
+  }
+
+  return usage;
+}
+
+/**
+ * The first cap that describing `next.images` more images for `next.credits` credits would go over
+ * Returns null when the user has no caps or stays within all of them. Pass the transaction
+ * that holds the user's credit lock to check against usage no parallel request can change.
+ */
+export async function findExceededCap(
+  userId: string,
+  next: UsageTotals,
+  client: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<UsageCapExceededError | null> {
+  const caps = await client.user.findUnique({
+    where: { id: userId },
+    select: { dailyImageCap: true, monthlyImageCap: true, dailyCreditCap: true, monthlyCreditCap: true }
+  });
+  if (!caps || !hasCaps(caps)) {
+    return null;
+  }
+
+  const usage = await getUsage(userId, new Date(), client);
+  for (const field of USAGE_CAP_FIELDS) {
+    const limit = caps[field];
+    if (limit === null) continue;
+
+    const { period, metric } = CAP_DETAILS[field];
+    if (usage[period][metric] + next[metric] > limit) {
+      return new UsageCapExceededError(field, limit, period === 'daily' ? usage.dailyResetsAt : usage.monthlyResetsAt);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Throw UsageCapExceededError when describing more would go over one of the user's caps
+ */
+export async function assertWithinUsageCaps(userId: string, next: UsageTotals): Promise<void> {
+  const exceeded = await findExceededCap(userId, next);
+  if (exceeded) {
+    throw exceeded;
+  }
+}
+
+/**
+ * Validate caps sent by an admin; fields left out are not changed, empty ones remove the cap
+ */
+export function parseUsageCapsInput(body: Record<string, unknown>): Partial<UsageCaps> {
+  const caps: Partial<UsageCaps> = {};
+
+  for (const field of USAGE_CAP_FIELDS) {
+    if (!(field in body)) continue;
+
+    const value = body[field];
+    if (value === null || value === '') {
+      caps[field] = null;
+      continue;
+    }
+
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 0 || limit > MAX_CAP) {
+      throw new UsageCapError(`${field} must be a whole number between 0 and ${MAX_CAP}, or empty for no cap`);
+    }
+    caps[field] = limit;
+  }
+
+  return caps;
+}
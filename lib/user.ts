@@ -2,6 +2,7 @@ import { prisma } from './prisma'
 import { CreditTransactionType } from '@prisma/client'
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { grantCredits } from './credit-lots'
 
 export async function getCurrentUser() {
   const session = await getServerSession(authOptions)
@@ -21,58 +22,18 @@ export async function getCurrentUser() {
   return user
 }
 
-export async function deductCredits(userId: string, amount: number, description?: string) {
-  const user = await prisma.user.findUnique({
-    where: { id: userId }
-  })
-
-  if (!user || user.credits < amount) {
-    throw new Error('Insufficient credits')
-  }
-
-  // Update user credits and create transaction record
-  const [updatedUser] = await prisma.$transaction([
-    prisma.user.update({
-      where: { id: userId },
-      data: { credits: user.credits - amount }
-    }),
-    prisma.creditTransaction.create({
-      data: {
-        userId,
-        amount: -amount,
-        type: CreditTransactionType.IMAGE_DESCRIPTION,
-        description: description || `Used ${amount} credit(s) for image description`
-      }
+export async function addCredits(userId: string, amount: number, type: CreditTransactionType, description?: string) {
+  // Credits are granted as a lot so spending and expiry see them
+  await prisma.$transaction((tx) =>
+    grantCredits(tx, {
+      userId,
+      amount,
+      type,
+      description: description || `Added ${amount} credit(s)`
     })
-  ])
+  )
 
-  return updatedUser
-}
-
-export async function addCredits(userId: string, amount: number, type: CreditTransactionType, description?: string) {
-  const user = await prisma.user.findUnique({
+  return prisma.user.findUniqueOrThrow({
     where: { id: userId }
   })
-
-  if (!user) {
-    throw new Error('User not found')
-  }
-
-  // Update user credits and create transaction record
-  const [updatedUser] = await prisma.$transaction([
-    prisma.user.update({
-      where: { id: userId },
-      data: { credits: user.credits + amount }
-    }),
-    prisma.creditTransaction.create({
-      data: {
-        userId,
-        amount,
-        type,
-        description: description || `Added ${amount} credit(s)`
-      }
-    })
-  ])
-
-  return updatedUser
-}
\ No newline at end of file
+}
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "public"."DescriptionJobStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'STOPPED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "public"."DescriptionJobItemStatus" AS ENUM ('PENDING', 'PROCESSING', 'SUCCEEDED', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "public"."description_jobs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "public"."DescriptionJobStatus" NOT NULL DEFAULT 'PENDING',
+    "totalItems" INTEGER NOT NULL,
+    "successful" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "creditsUsed" INTEGER NOT NULL DEFAULT 0,
+    "stoppedDueToCredits" BOOLEAN NOT NULL DEFAULT false,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "description_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."description_job_items" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "filename" TEXT NOT NULL,
+    "fileSize" INTEGER,
+    "mimeType" TEXT,
+    "status" "public"."DescriptionJobItemStatus" NOT NULL DEFAULT 'PENDING',
+    "imageDescriptionId" TEXT,
+    "description" TEXT,
+    "confidence" INTEGER,
+    "source" TEXT,
+    "attemptedProviders" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "description_job_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "description_jobs_userId_idx" ON "public"."description_jobs"("userId");
+
+-- CreateIndex
+CREATE INDEX "description_jobs_status_idx" ON "public"."description_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "description_jobs_userId_createdAt_idx" ON "public"."description_jobs"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "description_job_items_jobId_status_idx" ON "public"."description_job_items"("jobId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "description_job_items_jobId_index_key" ON "public"."description_job_items"("jobId", "index");
+
+-- AddForeignKey
+ALTER TABLE "public"."description_jobs" ADD CONSTRAINT "description_jobs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."description_job_items" ADD CONSTRAINT "description_job_items_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."description_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."description_job_items" ADD COLUMN     "fileData" BYTEA;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."DescriptionQueueStatus" AS ENUM ('QUEUED', 'PROCESSING', 'DONE', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."description_queue" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "itemIndex" INTEGER NOT NULL,
+    "status" "public"."DescriptionQueueStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lockedBy" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "description_queue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "description_queue_status_availableAt_idx" ON "public"."description_queue"("status", "availableAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "description_queue_jobId_itemIndex_key" ON "public"."description_queue"("jobId", "itemIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."description_queue" ADD CONSTRAINT "description_queue_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."description_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
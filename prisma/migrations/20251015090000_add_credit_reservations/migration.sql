@@ -0,0 +1,42 @@
+-- AlterEnum
+ALTER TYPE "public"."CreditTransactionType" ADD VALUE 'CREDIT_HOLD';
+ALTER TYPE "public"."CreditTransactionType" ADD VALUE 'CREDIT_RELEASE';
+
+-- CreateEnum
+CREATE TYPE "public"."CreditReservationStatus" AS ENUM ('HELD', 'RELEASED');
+
+-- AlterTable
+ALTER TABLE "public"."credit_transactions" ADD COLUMN "reservationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."credit_reservations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "jobId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "captured" INTEGER NOT NULL DEFAULT 0,
+    "status" "public"."CreditReservationStatus" NOT NULL DEFAULT 'HELD',
+    "releasedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_transactions_reservationId_idx" ON "public"."credit_transactions"("reservationId");
+
+-- CreateIndex
+CREATE INDEX "credit_reservations_userId_status_idx" ON "public"."credit_reservations"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "credit_reservations_jobId_idx" ON "public"."credit_reservations"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "public"."credit_transactions" ADD CONSTRAINT "credit_transactions_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "public"."credit_reservations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."credit_reservations" ADD CONSTRAINT "credit_reservations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."credit_reservations" ADD CONSTRAINT "credit_reservations_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."description_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."PricingRuleType" AS ENUM ('BASE', 'PROVIDER', 'OUTPUT_OPTION', 'FILE_SIZE');
+
+-- AlterTable
+ALTER TABLE "public"."description_jobs" ADD COLUMN     "outputs" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."description_job_items" ADD COLUMN     "creditsCharged" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."pricing_rules" (
+    "id" TEXT NOT NULL,
+    "type" "public"."PricingRuleType" NOT NULL,
+    "match" TEXT,
+    "minFileSize" INTEGER,
+    "maxFileSize" INTEGER,
+    "credits" INTEGER NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pricing_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_type_isActive_idx" ON "public"."pricing_rules"("type", "isActive");
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "public"."credit_packages" (
+    "id" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "credits" INTEGER NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "qrCode" TEXT,
+    "popular" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."credit_price_tiers" (
+    "id" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "minCredits" INTEGER NOT NULL,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_price_tiers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_packages_location_credits_key" ON "public"."credit_packages"("location", "credits");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_price_tiers_location_minCredits_key" ON "public"."credit_price_tiers"("location", "minCredits");
+
+-- Seed the catalog with the prices the buy page used to hard-code
+INSERT INTO "public"."credit_packages" ("id", "location", "credits", "price", "qrCode", "popular", "sortOrder", "updatedAt") VALUES
+    ('pkg_pakistan_500', 'pakistan', 500, 1000, '1000 Rs 500 Cradit.png', false, 1, CURRENT_TIMESTAMP),
+    ('pkg_pakistan_1000', 'pakistan', 1000, 2000, '2000Rs 1000 Cradit.png', true, 2, CURRENT_TIMESTAMP),
+    ('pkg_pakistan_1500', 'pakistan', 1500, 3000, '3000Rs 1500 Cradit.png', false, 3, CURRENT_TIMESTAMP),
+    ('pkg_pakistan_2000', 'pakistan', 2000, 4000, '4000 Rs 2000 Cradit.png', false, 4, CURRENT_TIMESTAMP),
+    ('pkg_pakistan_2500', 'pakistan', 2500, 5000, '5000 Rs 2500 Cradit.png', false, 5, CURRENT_TIMESTAMP),
+    ('pkg_international_500', 'international', 500, 5, 'Binance 10$ equal to 1000 cradit.png', false, 1, CURRENT_TIMESTAMP),
+    ('pkg_international_1000', 'international', 1000, 10, 'Binance 10$ equal to 1000 cradit.png', true, 2, CURRENT_TIMESTAMP);
+
+INSERT INTO "public"."credit_price_tiers" ("id", "location", "minCredits", "unitPrice", "updatedAt") VALUES
+    ('tier_pakistan_250', 'pakistan', 250, 2, CURRENT_TIMESTAMP),
+    ('tier_international_250', 'international', 250, 0.01, CURRENT_TIMESTAMP);
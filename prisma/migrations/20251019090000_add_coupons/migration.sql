@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "public"."CouponType" AS ENUM ('CREDITS', 'PERCENT_BONUS');
+
+-- CreateEnum
+CREATE TYPE "public"."CouponRedemptionStatus" AS ENUM ('PENDING', 'REDEEMED', 'VOID');
+
+-- AlterTable
+ALTER TABLE "public"."credit_transactions" ADD COLUMN "couponId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."coupons" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "public"."CouponType" NOT NULL,
+    "value" INTEGER NOT NULL,
+    "maxRedemptions" INTEGER,
+    "perUserLimit" INTEGER NOT NULL DEFAULT 1,
+    "redemptionCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "coupons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."coupon_redemptions" (
+    "id" TEXT NOT NULL,
+    "couponId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentRequestId" TEXT,
+    "credits" INTEGER NOT NULL,
+    "status" "public"."CouponRedemptionStatus" NOT NULL DEFAULT 'REDEEMED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "coupon_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_transactions_couponId_idx" ON "public"."credit_transactions"("couponId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupons_code_key" ON "public"."coupons"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupon_redemptions_paymentRequestId_key" ON "public"."coupon_redemptions"("paymentRequestId");
+
+-- CreateIndex
+CREATE INDEX "coupon_redemptions_couponId_userId_idx" ON "public"."coupon_redemptions"("couponId", "userId");
+
+-- CreateIndex
+CREATE INDEX "coupon_redemptions_userId_idx" ON "public"."coupon_redemptions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."credit_transactions" ADD CONSTRAINT "credit_transactions_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "public"."coupons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "public"."coupons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."coupon_redemptions" ADD CONSTRAINT "coupon_redemptions_paymentRequestId_fkey" FOREIGN KEY ("paymentRequestId") REFERENCES "public"."payment_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterEnum
+ALTER TYPE "public"."CreditTransactionType" ADD VALUE 'CREDIT_EXPIRY';
+
+-- CreateEnum
+CREATE TYPE "public"."CreditLotSource" AS ENUM ('LEGACY', 'PURCHASE', 'BONUS', 'ADMIN_ADJUSTMENT');
+
+-- AlterTable
+ALTER TABLE "public"."credit_transactions" ADD COLUMN "lotId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."credit_reservations" ADD COLUMN "lots" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."coupons" ADD COLUMN "creditExpiryDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."credit_lots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "source" "public"."CreditLotSource" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "expiredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "credit_lots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "credit_transactions_lotId_idx" ON "public"."credit_transactions"("lotId");
+
+-- CreateIndex
+CREATE INDEX "credit_lots_userId_expiresAt_idx" ON "public"."credit_lots"("userId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "credit_lots_expiresAt_idx" ON "public"."credit_lots"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."credit_transactions" ADD CONSTRAINT "credit_transactions_lotId_fkey" FOREIGN KEY ("lotId") REFERENCES "public"."credit_lots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."credit_lots" ADD CONSTRAINT "credit_lots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing balances become one lot per user that never expires
+INSERT INTO "public"."credit_lots" ("id", "userId", "source", "amount", "remaining", "createdAt", "updatedAt")
+SELECT 'legacy_' || "id", "id", 'LEGACY', "credits", "credits", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "public"."users"
+WHERE "credits" > 0;
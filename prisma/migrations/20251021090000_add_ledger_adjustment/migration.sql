@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."CreditTransactionType" ADD VALUE 'LEDGER_ADJUSTMENT';
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "public"."CreditTransactionType" ADD VALUE 'REFUND';
+
+-- AlterTable
+ALTER TABLE "public"."credit_transactions" ADD COLUMN     "lots" JSONB,
+ADD COLUMN     "refundOfId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_transactions_refundOfId_key" ON "public"."credit_transactions"("refundOfId");
+
+-- AddForeignKey
+ALTER TABLE "public"."credit_transactions" ADD CONSTRAINT "credit_transactions_refundOfId_fkey" FOREIGN KEY ("refundOfId") REFERENCES "public"."credit_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
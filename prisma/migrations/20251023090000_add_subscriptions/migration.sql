@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "public"."SubscriptionStatus" AS ENUM ('PENDING', 'ACTIVE', 'PAST_DUE', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "public"."CreditTransactionType" ADD VALUE 'SUBSCRIPTION';
+
+-- AlterEnum
+ALTER TYPE "public"."CreditLotSource" ADD VALUE 'SUBSCRIPTION';
+
+-- AlterTable
+ALTER TABLE "public"."payment_requests" ADD COLUMN     "subscriptionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."subscription_plans" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "monthlyCredits" INTEGER NOT NULL,
+    "rolloverPercent" INTEGER NOT NULL DEFAULT 0,
+    "maxRolloverCredits" INTEGER,
+    "qrCode" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subscription_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."user_subscriptions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "status" "public"."SubscriptionStatus" NOT NULL DEFAULT 'PENDING',
+    "prepaidPeriods" INTEGER NOT NULL DEFAULT 0,
+    "currentPeriodStart" TIMESTAMP(3),
+    "currentPeriodEnd" TIMESTAMP(3),
+    "allowanceLotId" TEXT,
+    "rolloverLotId" TEXT,
+    "cancelAtPeriodEnd" BOOLEAN NOT NULL DEFAULT false,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_requests_subscriptionId_idx" ON "public"."payment_requests"("subscriptionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_subscriptions_userId_key" ON "public"."user_subscriptions"("userId");
+
+-- CreateIndex
+CREATE INDEX "user_subscriptions_planId_idx" ON "public"."user_subscriptions"("planId");
+
+-- CreateIndex
+CREATE INDEX "user_subscriptions_status_currentPeriodEnd_idx" ON "public"."user_subscriptions"("status", "currentPeriodEnd");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_requests" ADD CONSTRAINT "payment_requests_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "public"."user_subscriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_subscriptions" ADD CONSTRAINT "user_subscriptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_subscriptions" ADD CONSTRAINT "user_subscriptions_planId_fkey" FOREIGN KEY ("planId") REFERENCES "public"."subscription_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."NotificationType" AS ENUM ('LOW_BALANCE');
+
+-- AlterEnum
+ALTER TYPE "public"."PaymentStatus" ADD VALUE 'DRAFT' BEFORE 'PENDING';
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "autoTopUpDraft" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "lowBalanceThreshold" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "public"."NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "link" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_createdAt_idx" ON "public"."notifications"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_readAt_idx" ON "public"."notifications"("userId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
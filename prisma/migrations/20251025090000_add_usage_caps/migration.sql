@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."image_descriptions" ADD COLUMN     "creditsCharged" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "dailyCreditCap" INTEGER,
+ADD COLUMN     "dailyImageCap" INTEGER,
+ADD COLUMN     "monthlyCreditCap" INTEGER,
+ADD COLUMN     "monthlyImageCap" INTEGER;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."payment_requests" ADD COLUMN     "riskFlags" JSONB,
+ADD COLUMN     "screenshotHash" TEXT,
+ADD COLUMN     "transactionIdKey" TEXT;
+
+-- Backfill the key for requests that were not rejected; where a transaction ID was
+-- submitted more than once only the earliest request keeps it
+UPDATE "public"."payment_requests" AS pr
+SET "transactionIdKey" = ranked."key"
+FROM (
+    SELECT "id",
+           UPPER(REGEXP_REPLACE("transactionId", '[\s-]', '', 'g')) AS "key",
+           ROW_NUMBER() OVER (
+               PARTITION BY "paymentMethod", UPPER(REGEXP_REPLACE("transactionId", '[\s-]', '', 'g'))
+               ORDER BY "createdAt"
+           ) AS "position"
+    FROM "public"."payment_requests"
+    WHERE "transactionId" IS NOT NULL AND "status" <> 'REJECTED'
+) AS ranked
+WHERE pr."id" = ranked."id" AND ranked."position" = 1;
+
+-- CreateIndex
+CREATE INDEX "payment_requests_screenshotHash_idx" ON "public"."payment_requests"("screenshotHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_requests_paymentMethod_transactionIdKey_key" ON "public"."payment_requests"("paymentMethod", "transactionIdKey");
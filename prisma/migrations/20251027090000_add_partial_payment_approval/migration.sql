@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "public"."PaymentStatus" ADD VALUE 'PARTIALLY_APPROVED' AFTER 'APPROVED';
+
+-- AlterTable
+ALTER TABLE "public"."payment_requests" ADD COLUMN     "adjustmentReason" TEXT,
+ADD COLUMN     "creditsGranted" INTEGER;
+
+-- Requests approved so far were granted in full
+UPDATE "public"."payment_requests" SET "creditsGranted" = "creditsRequested" WHERE "status" = 'APPROVED';
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "public"."PaymentStatus" ADD VALUE 'CANCELLED';
+ALTER TYPE "public"."PaymentStatus" ADD VALUE 'NEEDS_INFO';
+ALTER TYPE "public"."PaymentStatus" ADD VALUE 'RESUBMITTED';
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'PAYMENT_NEEDS_INFO';
+
+-- CreateTable
+CREATE TABLE "public"."payment_request_events" (
+    "id" TEXT NOT NULL,
+    "paymentRequestId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "fromStatus" "public"."PaymentStatus",
+    "toStatus" "public"."PaymentStatus" NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_request_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_request_events_paymentRequestId_createdAt_idx" ON "public"."payment_request_events"("paymentRequestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_request_events" ADD CONSTRAINT "payment_request_events_paymentRequestId_fkey" FOREIGN KEY ("paymentRequestId") REFERENCES "public"."payment_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_request_events" ADD CONSTRAINT "payment_request_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill the history of existing requests: their submission and, once reviewed, the review
+INSERT INTO "public"."payment_request_events" ("id", "paymentRequestId", "actorId", "fromStatus", "toStatus", "note", "createdAt")
+SELECT 'submitted_' || "id", "id", "userId", NULL, 'PENDING', NULL, "createdAt"
+FROM "public"."payment_requests"
+WHERE "status" <> 'DRAFT';
+
+INSERT INTO "public"."payment_request_events" ("id", "paymentRequestId", "actorId", "fromStatus", "toStatus", "note", "createdAt")
+SELECT 'reviewed_' || pr."id", pr."id", u."id", 'PENDING', pr."status", pr."adminNotes", pr."processedAt"
+FROM "public"."payment_requests" pr
+LEFT JOIN "public"."users" u ON u."id" = pr."processedBy"
+WHERE pr."status" IN ('APPROVED', 'PARTIALLY_APPROVED', 'REJECTED') AND pr."processedAt" IS NOT NULL;
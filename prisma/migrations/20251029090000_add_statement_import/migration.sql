@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "public"."StatementRowStatus" AS ENUM ('MATCHED', 'AMOUNT_MISMATCH', 'CURRENCY_MISMATCH', 'NOT_FOUND', 'AMBIGUOUS', 'INVALID');
+
+-- CreateTable
+CREATE TABLE "public"."statement_mappings" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "transactionIdColumn" TEXT NOT NULL,
+    "amountColumn" TEXT NOT NULL,
+    "currencyColumn" TEXT,
+    "defaultCurrency" TEXT NOT NULL DEFAULT 'PKR',
+    "paymentMethod" TEXT,
+    "dateColumn" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "statement_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."statement_imports" (
+    "id" TEXT NOT NULL,
+    "mappingId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "importedBy" TEXT NOT NULL,
+    "rowCount" INTEGER NOT NULL,
+    "matchedCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "statement_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."statement_rows" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "transactionId" TEXT,
+    "amount" DOUBLE PRECISION,
+    "currency" TEXT,
+    "occurredAt" TEXT,
+    "status" "public"."StatementRowStatus" NOT NULL,
+    "detail" TEXT,
+    "paymentRequestId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "statement_rows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "statement_mappings_provider_key" ON "public"."statement_mappings"("provider");
+
+-- CreateIndex
+CREATE INDEX "statement_imports_createdAt_idx" ON "public"."statement_imports"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "statement_rows_importId_idx" ON "public"."statement_rows"("importId");
+
+-- CreateIndex
+CREATE INDEX "statement_rows_paymentRequestId_idx" ON "public"."statement_rows"("paymentRequestId");
+
+-- CreateIndex
+CREATE INDEX "statement_rows_status_idx" ON "public"."statement_rows"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."statement_imports" ADD CONSTRAINT "statement_imports_mappingId_fkey" FOREIGN KEY ("mappingId") REFERENCES "public"."statement_mappings"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."statement_rows" ADD CONSTRAINT "statement_rows_importId_fkey" FOREIGN KEY ("importId") REFERENCES "public"."statement_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."statement_rows" ADD CONSTRAINT "statement_rows_paymentRequestId_fkey" FOREIGN KEY ("paymentRequestId") REFERENCES "public"."payment_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."WebhookDeliveryStatus" AS ENUM ('RECEIVED', 'APPROVED', 'UNMATCHED', 'MISMATCH', 'INVALID_PAYLOAD', 'INVALID_SIGNATURE', 'STALE', 'REPLAYED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."payment_webhook_deliveries" (
+    "id" TEXT NOT NULL,
+    "deliveryId" TEXT,
+    "status" "public"."WebhookDeliveryStatus" NOT NULL,
+    "detail" TEXT,
+    "payload" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "paymentRequestId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_deliveries_deliveryId_key" ON "public"."payment_webhook_deliveries"("deliveryId");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_deliveries_receivedAt_idx" ON "public"."payment_webhook_deliveries"("receivedAt");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_deliveries_status_idx" ON "public"."payment_webhook_deliveries"("status");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_deliveries_paymentRequestId_idx" ON "public"."payment_webhook_deliveries"("paymentRequestId");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_webhook_deliveries" ADD CONSTRAINT "payment_webhook_deliveries_paymentRequestId_fkey" FOREIGN KEY ("paymentRequestId") REFERENCES "public"."payment_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."idempotency_keys" ADD COLUMN     "requestHash" TEXT,
+ADD COLUMN     "streamed" BOOLEAN NOT NULL DEFAULT false;
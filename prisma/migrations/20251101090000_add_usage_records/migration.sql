@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."usage_records" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "images" INTEGER NOT NULL DEFAULT 1,
+    "credits" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "usage_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "usage_records_userId_createdAt_idx" ON "public"."usage_records"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "usage_records_createdAt_idx" ON "public"."usage_records"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."usage_records" ADD CONSTRAINT "usage_records_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the descriptions still stored. Descriptions saved before creditsCharged was
+-- recorded show 0; they are counted at 1 credit, the price of a standard image.
+INSERT INTO "public"."usage_records" ("id", "userId", "images", "credits", "createdAt")
+SELECT
+    'backfill_' || d."id",
+    d."userId",
+    1,
+    CASE
+        WHEN d."creditsCharged" = 0 AND d."createdAt" < COALESCE(
+            (SELECT "finished_at" FROM "public"."_prisma_migrations" WHERE "migration_name" = '20251025090000_add_usage_caps'),
+            CURRENT_TIMESTAMP
+        ) THEN 1
+        ELSE d."creditsCharged"
+    END,
+    d."createdAt"
+FROM "public"."image_descriptions" d;
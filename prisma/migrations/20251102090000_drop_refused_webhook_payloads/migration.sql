@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."payment_webhook_deliveries" ALTER COLUMN "payload" DROP NOT NULL;
+
+-- Refused deliveries no longer keep the body they were sent
+UPDATE "public"."payment_webhook_deliveries" SET "payload" = NULL WHERE "status" IN ('INVALID_SIGNATURE', 'STALE');
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."credit_reservations" ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "credit_reservations_status_expiresAt_idx" ON "public"."credit_reservations"("status", "expiresAt");
@@ -0,0 +1,84 @@
+import { CreditManager, InsufficientCreditsError } from '../lib/credit-manager';
+import { prisma } from '../lib/prisma';
+import { CreditLotSource } from '@prisma/client';
+
+// Concurrency check for credit debits, run against a real Postgres database:
+//   DATABASE_URL=postgresql://... npm run check:credit-concurrency
+// Creates a throwaway user with a few credits, fires more parallel one-credit
+// deductions than it can afford, and verifies that exactly the affordable number
+// succeeded, the balance and its credit lots ended at zero and the ledger matches.
+// The user is deleted afterwards.
+
+const STARTING_CREDITS = 10;
+const PARALLEL_DEDUCTIONS = 50;
+
+async function main() {
+  const user = await prisma.user.create({
+    data: {
+      email: `credit-concurrency-${Date.now()}@example.invalid`,
+      name: 'Credit concurrency check',
+      credits: STARTING_CREDITS,
+      // Spending draws on credit lots, so the starting balance is one lot
+      creditLots: {
+        create: { source: CreditLotSource.ADMIN_ADJUSTMENT, amount: STARTING_CREDITS, remaining: STARTING_CREDITS }
+      }
+    }
+  });
+
+  try {
+    console.log(`🔧 Firing ${PARALLEL_DEDUCTIONS} parallel deductions against ${STARTING_CREDITS} credits...`);
+
+    const outcomes = await Promise.allSettled(
+      Array.from({ length: PARALLEL_DEDUCTIONS }, (_, i) =>
+        // Separate managers, as separate requests would have
+        new CreditManager(user.id).deductCredits(1, `Concurrency check ${i}`)
+      )
+    );
+
+    const succeeded = outcomes.filter((outcome) => outcome.status === 'fulfilled' && outcome.value.success).length;
+    const rejected = outcomes.filter(
+      (outcome) => outcome.status === 'rejected' && outcome.reason instanceof InsufficientCreditsError
+    ).length;
+    const unexpected = PARALLEL_DEDUCTIONS - succeeded - rejected;
+
+    const { credits } = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { credits: true }
+    });
+    const ledger = await prisma.creditTransaction.aggregate({
+      where: { userId: user.id },
+      _sum: { amount: true },
+      _count: true
+    });
+    const lots = await prisma.creditLot.aggregate({
+      where: { userId: user.id },
+      _sum: { remaining: true }
+    });
+
+    const failures: string[] = [];
+    if (succeeded !== STARTING_CREDITS) failures.push(`expected ${STARTING_CREDITS} successful deductions, got ${succeeded}`);
+    if (unexpected !== 0) failures.push(`${unexpected} deduction(s) failed with an unexpected error`);
+    if (credits !== 0) failures.push(`expected a final balance of 0, got ${credits}`);
+    if ((lots._sum.remaining ?? 0) !== 0) failures.push(`expected no credits left in lots, got ${lots._sum.remaining}`);
+    if (ledger._count !== succeeded) failures.push(`expected ${succeeded} ledger entries, got ${ledger._count}`);
+    if ((ledger._sum.amount ?? 0) !== -STARTING_CREDITS) {
+      failures.push(`expected the ledger to sum to -${STARTING_CREDITS}, got ${ledger._sum.amount}`);
+    }
+
+    if (failures.length > 0) {
+      failures.forEach((failure) => console.error(`❌ ${failure}`));
+      process.exitCode = 1;
+    } else {
+      console.log(`✅ ${succeeded} succeeded, ${rejected} rejected for insufficient credits, balance and ledger agree`);
+    }
+  } finally {
+    await prisma.user.delete({ where: { id: user.id } });
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Credit concurrency check crashed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
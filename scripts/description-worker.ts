@@ -0,0 +1,53 @@
+import { DescriptionWorker } from '../lib/description-queue';
+import { prisma } from '../lib/prisma';
+
+// Background worker for queued description jobs.
+//   npm run worker            poll until stopped (SIGINT/SIGTERM)
+//   npm run worker -- --once  drain the queue and exit, e.g. from a cron job
+// Tuning: WORKER_BATCH_SIZE, WORKER_POLL_INTERVAL_MS, WORKER_LEASE_MS, WORKER_MAX_ATTEMPTS
+
+function readNumber(name: string): number | undefined {
+  const value = parseInt(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+async function main() {
+  const config = Object.fromEntries(
+    Object.entries({
+      batchSize: readNumber('WORKER_BATCH_SIZE'),
+      pollIntervalMs: readNumber('WORKER_POLL_INTERVAL_MS'),
+      leaseMs: readNumber('WORKER_LEASE_MS'),
+      maxAttempts: readNumber('WORKER_MAX_ATTEMPTS')
+    }).filter(([, value]) => value !== undefined)
+  );
+
+  const worker = new DescriptionWorker(config);
+  console.log(`🔧 Description worker ${worker.workerId} starting...`);
+
+  if (process.argv.includes('--once')) {
+    let handled = 0;
+    let batch: number;
+    while ((batch = await worker.runOnce()) > 0) {
+      handled += batch;
+    }
+    console.log(`✅ Queue drained, ${handled} item(s) processed`);
+    return;
+  }
+
+  const shutdown = () => {
+    console.log('⏹️  Stopping after the current item...');
+    worker.stop();
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await worker.start();
+  console.log('👋 Description worker stopped');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Description worker crashed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,31 @@
+import { expireCreditLots } from '../lib/credit-lots';
+import { prisma } from '../lib/prisma';
+
+// Expires credit lots whose expiry date has passed, e.g. from a daily cron job:
+//   npm run credits:expire
+// Each expired lot's remaining credits leave the balance with a CREDIT_EXPIRY
+// ledger entry. Runs in batches until nothing is due.
+
+const BATCH_SIZE = 500;
+
+async function main() {
+  console.log('🔧 Expiring credit lots...');
+
+  let lots = 0;
+  let credits = 0;
+  for (;;) {
+    const batch = await expireCreditLots(BATCH_SIZE);
+    lots += batch.lotsExpired;
+    credits += batch.creditsExpired;
+    if (batch.lotsExpired < BATCH_SIZE) break;
+  }
+
+  console.log(`✅ ${credits} credit(s) expired from ${lots} lot(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Credit expiry crashed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -19,12 +19,21 @@ async function oneTimeAdminSetup() {
     }
     
     if (existingUser) {
-      // Update existing user to admin
+      // Update existing user to admin, topping up to at least 1000 credits with a credit lot and ledger entry
+      const topUp = Math.max(1000 - existingUser.credits, 0);
       await prisma.user.update({
         where: { email: adminEmail },
         data: { 
           role: 'ADMIN',
-          credits: Math.max(existingUser.credits, 1000) // Ensure at least 1000 credits
+          credits: existingUser.credits + topUp, // Ensure at least 1000 credits
+          ...(topUp > 0 && {
+            creditLots: {
+              create: { source: 'ADMIN_ADJUSTMENT', amount: topUp, remaining: topUp }
+            },
+            creditTransactions: {
+              create: { amount: topUp, type: 'ADMIN_ADJUSTMENT', description: 'Admin credit top-up' }
+            }
+          })
         }
       });
       console.log(`✅ User ${adminEmail} has been promoted to ADMIN role`);
@@ -36,7 +45,13 @@ async function oneTimeAdminSetup() {
           name: 'Admin User',
           role: 'ADMIN',
           credits: 1000,
-          isActive: true
+          isActive: true,
+          creditLots: {
+            create: { source: 'ADMIN_ADJUSTMENT', amount: 1000, remaining: 1000 }
+          },
+          creditTransactions: {
+            create: { amount: 1000, type: 'ADMIN_ADJUSTMENT', description: 'Initial admin credits' }
+          }
         }
       });
       console.log(`✅ New admin user created: ${adminEmail}`);
@@ -0,0 +1,51 @@
+import { findBalanceDrift, repairBalanceDrift } from '../lib/credit-reconciliation';
+import { prisma } from '../lib/prisma';
+
+// Checks every user's balance against their ledger and credit lots, e.g. from a nightly cron job:
+//   npm run credits:reconcile                 # report drift only
+//   npm run credits:reconcile -- --repair     # also repair it
+//   npm run credits:reconcile -- --user=<id>  # limit to one user
+// Exits non-zero when unrepaired drift is found so a cron wrapper can alert on it.
+
+async function main() {
+  const args = process.argv.slice(2);
+  const repair = args.includes('--repair');
+  const userId = args.find((arg) => arg.startsWith('--user='))?.slice('--user='.length);
+
+  console.log('🔧 Checking balances against the ledger and credit lots...');
+
+  const drift = await findBalanceDrift(userId);
+  if (drift.length === 0) {
+    console.log('✅ All balances match their ledger and credit lots');
+    return;
+  }
+
+  for (const user of drift) {
+    console.log(
+      `⚠️  ${user.email} (${user.userId}): balance ${user.balance}, ledger ${user.ledgerBalance} (drift ${user.ledgerDrift}), ` +
+      `lots ${user.lotBalance} (drift ${user.lotDrift})`
+    );
+  }
+
+  if (!repair) {
+    console.error(`❌ ${drift.length} user(s) with drift; rerun with --repair to fix`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let repaired = 0;
+  for (const user of drift) {
+    if (await repairBalanceDrift(user.userId, 'reconcile script')) {
+      repaired++;
+    }
+  }
+
+  console.log(`✅ Repaired ${repaired} of ${drift.length} user(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Credit reconciliation crashed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
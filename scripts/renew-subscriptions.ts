@@ -0,0 +1,34 @@
+import { renewDueSubscriptions } from '../lib/subscriptions';
+import { prisma } from '../lib/prisma';
+
+// Renews subscriptions whose month has ended, e.g. from a daily cron job:
+//   npm run subscriptions:renew
+// A subscription with an approved payment for the next month starts it and is granted
+// the plan's allowance as SUBSCRIPTION ledger entries; one without becomes PAST_DUE, and
+// one cancelled by the user ends. credits:expire leaves a due subscription's allowance
+// alone until it has renewed, so the two can run in either order. Runs in batches until
+// nothing is due.
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  console.log('🔧 Renewing subscriptions...');
+
+  const totals = { renewed: 0, pastDue: 0, cancelled: 0 };
+  for (;;) {
+    const batch = await renewDueSubscriptions(BATCH_SIZE);
+    totals.renewed += batch.renewed;
+    totals.pastDue += batch.pastDue;
+    totals.cancelled += batch.cancelled;
+    if (batch.renewed + batch.pastDue + batch.cancelled < BATCH_SIZE) break;
+  }
+
+  console.log(`✅ ${totals.renewed} renewed, ${totals.pastDue} past due, ${totals.cancelled} ended`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Subscription renewal crashed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,63 @@
+import { randomUUID } from 'crypto';
+import { signWebhookPayload } from '../lib/payment-webhooks';
+
+// Posts a signed payment notification to the payment webhook, standing in for a provider:
+//   PAYMENT_WEBHOOK_SECRET=... npm run payments:webhook -- <transactionId> <amount> <currency> [paymentMethod] [--replay]
+// The secret must match the PAYMENT_WEBHOOK_SECRET setting of the app receiving it, and
+// WEBHOOK_URL overrides the local dev server address. With --replay the same delivery is
+// sent a second time, which the app should log as REPLAYED without acting on it again.
+
+const DEFAULT_URL = 'http://localhost:3000/api/webhooks/payments';
+
+async function send(url: string, deliveryId: string, timestamp: string, body: string, signature: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Webhook-Id': deliveryId,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': signature
+    },
+    body
+  });
+
+  console.log(`${response.ok ? '✅' : '❌'} ${response.status} ${await response.text()}`);
+  if (!response.ok) process.exitCode = 1;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const replay = args.includes('--replay');
+  const [transactionId, amount, currency, paymentMethod] = args.filter((arg) => arg !== '--replay');
+
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret || !transactionId || !amount || !currency) {
+    console.error('Usage: PAYMENT_WEBHOOK_SECRET=... npm run payments:webhook -- <transactionId> <amount> <currency> [paymentMethod] [--replay]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const url = process.env.WEBHOOK_URL || DEFAULT_URL;
+  const deliveryId = randomUUID();
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const body = JSON.stringify({
+    transactionId,
+    amount: Number(amount),
+    currency,
+    ...(paymentMethod ? { paymentMethod } : {})
+  });
+  const signature = signWebhookPayload(secret, deliveryId, timestamp, body);
+
+  console.log(`🔧 Sending delivery ${deliveryId} to ${url}: ${body}`);
+  await send(url, deliveryId, timestamp, body, signature);
+
+  if (replay) {
+    console.log('🔧 Sending the same delivery again...');
+    await send(url, deliveryId, timestamp, body, signature);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Sending the webhook failed:', error);
+  process.exitCode = 1;
+});
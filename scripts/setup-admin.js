@@ -28,7 +28,14 @@ async function setupAdmin() {
           name: 'Admin User',
           role: 'ADMIN',
           credits: 1000, // Give admin some initial credits
-          isActive: true
+          isActive: true,
+          // Balances are spent from credit lots and must match the ledger, so the initial credits need both
+          creditLots: {
+            create: { source: 'ADMIN_ADJUSTMENT', amount: 1000, remaining: 1000 }
+          },
+          creditTransactions: {
+            create: { amount: 1000, type: 'ADMIN_ADJUSTMENT', description: 'Initial admin credits' }
+          }
         }
       });
       console.log(`✅ New admin user created: ${adminEmail}`);
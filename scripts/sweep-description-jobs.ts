@@ -0,0 +1,28 @@
+import { failStaleJobs, purgeExpiredJobFiles } from '../lib/description-job';
+import { CreditManager } from '../lib/credit-manager';
+import { prisma } from '../lib/prisma';
+
+// Housekeeping for description jobs, e.g. from a cron job every few minutes:
+//   npm run jobs:sweep
+// - fails open jobs that made no progress for STALE_JOB_MS and have nothing queued,
+//   e.g. because the function running them was killed, releasing their held credits
+// - releases any other credit hold whose expiry passed
+// - drops the uploads stored with jobs that finished more than JOB_FILE_RETENTION_MS
+//   ago; their failed and skipped items can no longer be retried
+
+async function main() {
+  console.log('🔧 Sweeping description jobs...');
+
+  const failed = await failStaleJobs();
+  const released = await CreditManager.releaseExpiredReservations();
+  const purged = await purgeExpiredJobFiles();
+
+  console.log(`✅ ${failed} stale job(s) failed, ${released} expired hold(s) released, uploads dropped from ${purged} item(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Description job sweep crashed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());